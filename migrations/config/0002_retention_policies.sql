@@ -0,0 +1,16 @@
+-- Recorder retention policies; entity_glob matches entity IDs (statistic IDs for statistics tables, event types for events)
+CREATE TABLE IF NOT EXISTS retention_policies (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    table_name TEXT NOT NULL,
+    entity_glob TEXT NOT NULL DEFAULT '*',
+    keep_days INTEGER,
+    enabled INTEGER DEFAULT 1,
+    created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+    UNIQUE(table_name, entity_glob)
+);
+
+INSERT OR IGNORE INTO retention_policies(table_name, entity_glob, keep_days) VALUES
+    ('states', '*', 10),
+    ('events', '*', 10),
+    ('statistics_short_term', '*', 14),
+    ('statistics', '*', NULL);
@@ -0,0 +1,2 @@
+-- Alternative names the entity resolver matches in addition to the nickname
+ALTER TABLE entity_profiles ADD COLUMN aliases JSON;
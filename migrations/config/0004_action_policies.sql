@@ -0,0 +1,40 @@
+-- Safety policies for service calls made by the agent and automation installs
+CREATE TABLE IF NOT EXISTS action_policies (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    name TEXT NOT NULL,
+    domain_glob TEXT NOT NULL DEFAULT '*',
+    service_glob TEXT NOT NULL DEFAULT '*',
+    entity_glob TEXT NOT NULL DEFAULT '*',
+    effect TEXT NOT NULL CHECK (effect IN ('allow', 'deny', 'confirm')),
+    -- Optional local time-of-day window (HH:MM, in TIME_ZONE) outside of which the policy does not apply
+    active_from TEXT,
+    active_until TEXT,
+    priority INTEGER NOT NULL DEFAULT 0,
+    enabled INTEGER DEFAULT 1,
+    created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Service calls held back by a policy until they are confirmed with their token
+CREATE TABLE IF NOT EXISTS pending_actions (
+    token TEXT PRIMARY KEY,
+    domain TEXT NOT NULL,
+    service TEXT NOT NULL,
+    service_data JSON,
+    source TEXT NOT NULL,
+    policy_id INTEGER,
+    reason TEXT,
+    status TEXT NOT NULL DEFAULT 'pending',
+    result JSON,
+    created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+    expires_at DATETIME NOT NULL,
+    confirmed_at DATETIME
+);
+
+INSERT INTO action_policies(name, domain_glob, service_glob, entity_glob, effect) VALUES
+    ('Confirm lock changes', 'lock', '*', '*', 'confirm'),
+    ('Confirm alarm panel changes', 'alarm_control_panel', '*', '*', 'confirm'),
+    ('Confirm garage doors', 'cover', '*', 'cover.garage*', 'confirm'),
+    ('Confirm valves', 'valve', '*', '*', 'confirm'),
+    ('Block restarts and shutdowns', 'homeassistant', 'restart', '*', 'deny'),
+    ('Block restarts and shutdowns', 'homeassistant', 'stop', '*', 'deny'),
+    ('Block host power actions', 'hassio', 'host_*', '*', 'deny');
@@ -0,0 +1,12 @@
+-- Long-term facts distilled from agent conversations; session_id is NULL for household-wide facts
+CREATE TABLE IF NOT EXISTS long_term_memories (
+    id TEXT PRIMARY KEY,
+    session_id TEXT,
+    content TEXT NOT NULL,
+    embedding JSON,
+    source TEXT NOT NULL DEFAULT 'summary',
+    created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+    updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS ix_long_term_memories_session_id ON long_term_memories(session_id);
@@ -0,0 +1,18 @@
+-- Agent conversation transcripts; each exchange (a user turn, the tool calls it caused and the reply) is written in
+-- one batch so concurrent requests in a session never interleave within an exchange
+CREATE TABLE IF NOT EXISTS conversation_turns (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    session_id TEXT NOT NULL,
+    exchange_id TEXT NOT NULL,
+    role TEXT NOT NULL CHECK (role IN ('user', 'assistant', 'tool')),
+    content TEXT NOT NULL,
+    -- The tool name and call ID of tool results
+    name TEXT,
+    tool_call_id TEXT,
+    -- The request context of user turns, the tool calls requested by assistant turns, the arguments of tool results
+    payload JSON,
+    -- Set once the turn has been distilled into long-term memories
+    summarized INTEGER NOT NULL DEFAULT 0,
+    created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+);
+CREATE INDEX IF NOT EXISTS ix_conversation_turns_session_id ON conversation_turns(session_id, id);
@@ -0,0 +1,11 @@
+-- Per-model call counters, updated after every Workers AI call made through the model registry
+CREATE TABLE IF NOT EXISTS model_stats (
+    model TEXT PRIMARY KEY,
+    kind TEXT NOT NULL,
+    calls INTEGER NOT NULL DEFAULT 0,
+    failures INTEGER NOT NULL DEFAULT 0,
+    -- Latency of successful calls, for the average reported by /api/status
+    total_latency_ms INTEGER NOT NULL DEFAULT 0,
+    last_error TEXT,
+    last_used_at DATETIME
+);
@@ -0,0 +1,18 @@
+-- Rule engine: conditions and an enabled flag for agent_rules, plus a log of every rule execution
+ALTER TABLE agent_rules ADD COLUMN conditions JSON;
+ALTER TABLE agent_rules ADD COLUMN enabled INTEGER NOT NULL DEFAULT 1;
+
+-- Rows logged by /api/automations/install are records of past calls, not rules
+UPDATE agent_rules SET enabled = 0 WHERE trigger_type NOT IN ('state', 'numeric_state', 'time', 'event');
+
+CREATE TABLE IF NOT EXISTS rule_executions (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    rule_id INTEGER NOT NULL,
+    -- The trigger variables the actions were rendered with
+    trigger JSON,
+    status TEXT NOT NULL CHECK (status IN ('succeeded', 'failed', 'skipped')),
+    results JSON,
+    error TEXT,
+    created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+);
+CREATE INDEX IF NOT EXISTS ix_rule_executions_rule_id ON rule_executions(rule_id, id);
@@ -0,0 +1,19 @@
+-- Cron job runner: a name and last run time for cron_jobs, a log of every run, and the daily report as a job
+ALTER TABLE cron_jobs ADD COLUMN name TEXT;
+ALTER TABLE cron_jobs ADD COLUMN last_run_at DATETIME;
+
+CREATE TABLE IF NOT EXISTS cron_runs (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    job_id INTEGER NOT NULL,
+    task TEXT NOT NULL,
+    status TEXT NOT NULL CHECK (status IN ('succeeded', 'failed')),
+    started_at DATETIME NOT NULL,
+    duration_ms INTEGER NOT NULL,
+    result JSON,
+    error TEXT
+);
+CREATE INDEX IF NOT EXISTS ix_cron_runs_job_id ON cron_runs(job_id, id);
+
+-- The daily report used to run on its own cron trigger (CRON_SCHEDULE = "0 12 * * *")
+INSERT INTO cron_jobs(name, cron, task, configuration, enabled) VALUES
+    ('Daily report', '0 12 * * *', 'daily_report', '{}', 1);
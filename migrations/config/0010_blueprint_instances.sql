@@ -0,0 +1,14 @@
+-- Automation blueprints: declared inputs per blueprint, and the Home Assistant automations installed from each one
+ALTER TABLE automation_blueprints ADD COLUMN inputs JSON;
+ALTER TABLE automation_blueprints ADD COLUMN updated_at DATETIME;
+
+CREATE TABLE IF NOT EXISTS blueprint_instances (
+    automation_id TEXT PRIMARY KEY,
+    blueprint_id INTEGER NOT NULL,
+    alias TEXT NOT NULL,
+    inputs JSON NOT NULL,
+    config JSON NOT NULL,
+    created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+    updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+);
+CREATE INDEX IF NOT EXISTS ix_blueprint_instances_blueprint_id ON blueprint_instances(blueprint_id);
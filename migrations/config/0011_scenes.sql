@@ -0,0 +1,9 @@
+-- Scenes: named snapshots of entity states that can be restored later
+CREATE TABLE IF NOT EXISTS scenes (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    name TEXT NOT NULL UNIQUE,
+    room TEXT,
+    states JSON NOT NULL,
+    captured_at DATETIME NOT NULL,
+    created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+);
@@ -0,0 +1,10 @@
+-- Presence engine: debounce and mode settings, plus a manual household mode override
+CREATE TABLE IF NOT EXISTS presence_settings (
+    id INTEGER PRIMARY KEY CHECK (id = 1),
+    settings JSON NOT NULL,
+    mode_override TEXT CHECK (mode_override IN ('home', 'away', 'sleep', 'vacation')),
+    override_until DATETIME,
+    updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+);
+
+INSERT OR IGNORE INTO presence_settings(id, settings) VALUES (1, '{}');
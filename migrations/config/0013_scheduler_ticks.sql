@@ -0,0 +1,5 @@
+-- The end of the window each scheduler last covered, so every tick runs the minutes since the previous one
+CREATE TABLE IF NOT EXISTS scheduler_ticks (
+    name TEXT PRIMARY KEY,
+    last_tick_at DATETIME NOT NULL
+);
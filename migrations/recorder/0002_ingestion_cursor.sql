@@ -0,0 +1,9 @@
+-- Tracks how far each ingestion stream has mirrored the Home Assistant event bus
+CREATE TABLE IF NOT EXISTS recorder_cursor (
+    stream TEXT PRIMARY KEY,
+    time_fired DATETIME,
+    context_id TEXT,
+    updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS ix_events_context_id ON events(context_id);
@@ -0,0 +1,13 @@
+-- Bookkeeping for the statistics compiler, mirroring Home Assistant's recorder
+CREATE TABLE IF NOT EXISTS statistics_runs (
+    run_id INTEGER PRIMARY KEY AUTOINCREMENT,
+    start DATETIME NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS ix_statistics_runs_start ON statistics_runs(start);
+
+ALTER TABLE statistics_meta ADD COLUMN has_mean INTEGER DEFAULT 0;
+ALTER TABLE statistics_meta ADD COLUMN has_sum INTEGER DEFAULT 0;
+
+CREATE UNIQUE INDEX IF NOT EXISTS ix_statistics_statistic_id_start ON statistics(metadata_id, start);
+CREATE UNIQUE INDEX IF NOT EXISTS ix_statistics_short_term_statistic_id_start ON statistics_short_term(metadata_id, start);
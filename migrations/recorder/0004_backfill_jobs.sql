@@ -0,0 +1,18 @@
+-- Resumable jobs that backfill the replica from Home Assistant's history and statistics APIs
+CREATE TABLE IF NOT EXISTS recorder_backfill_jobs (
+    job_id TEXT PRIMARY KEY,
+    entity_ids TEXT NOT NULL,
+    start_time DATETIME NOT NULL,
+    end_time DATETIME NOT NULL,
+    chunk_hours INTEGER NOT NULL DEFAULT 6,
+    include_statistics INTEGER NOT NULL DEFAULT 1,
+    cursor DATETIME NOT NULL,
+    status TEXT NOT NULL DEFAULT 'pending',
+    states_imported INTEGER NOT NULL DEFAULT 0,
+    statistics_imported INTEGER NOT NULL DEFAULT 0,
+    error TEXT,
+    created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+    updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS ix_recorder_backfill_jobs_status ON recorder_backfill_jobs(status, created_at);
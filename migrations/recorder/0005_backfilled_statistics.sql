@@ -0,0 +1,2 @@
+-- Marks hourly statistics imported by a backfill, so the statistics compiler never overwrites them
+ALTER TABLE statistics ADD COLUMN backfilled INTEGER NOT NULL DEFAULT 0;
@@ -0,0 +1,2 @@
+-- Purges clear states.old_state_id references to deleted rows; index it as Home Assistant's recorder does
+CREATE INDEX IF NOT EXISTS ix_states_old_state_id ON states(old_state_id);
@@ -0,0 +1,3 @@
+-- The last time the Durable Object confirmed it was connected with nothing left to write; the replica is complete
+-- up to then even when no events arrived
+ALTER TABLE recorder_cursor ADD COLUMN confirmed_at DATETIME;
@@ -0,0 +1,4 @@
+-- Identifies mirrored events so one written again after a resume (e.g. sharing the cursor's timestamp) is ignored
+ALTER TABLE events ADD COLUMN dedupe_key TEXT;
+
+CREATE UNIQUE INDEX IF NOT EXISTS ix_events_dedupe_key ON events(dedupe_key);
@@ -3,26 +3,166 @@
  * persistent WebSocket connection to Home Assistant and multiplexing it to multiple clients.
  */
 
-import type { Env } from "../types";
+import type { Env, HomeAssistantEvent, HomeAssistantState, StateChangedData } from "../types";
 import { HomeAssistantClient } from "../lib/haClient";
+import { RECORDER_CHECKPOINT_MS, RecorderIngestor, recorderEventTypes } from "../lib/recorder";
+import { PRESENCE_DOMAINS, PresenceEngine, type PresenceSnapshot, presenceTransitions } from "../lib/presence";
+import { RuleEngine } from "../lib/rules";
+import { StateCache } from "../lib/stateCache";
+import { type CompressedState, type CompressedStateDiff, applyEntityDiff, subscriptionKey } from "../lib/subscriptions";
 
-/** A client WebSocket connection with an optional unique identifier. */
-type ClientSocket = WebSocket & { id?: string };
+/** A parsed frame of the Home Assistant WebSocket protocol. */
+type HaMessage = { id?: number; type?: string; [key: string]: unknown };
+
+/**
+ * The multiplexer's bookkeeping for one connected client.
+ * Clients pick their own message IDs, so every command is rewritten to a globally unique upstream ID.
+ */
+interface ClientSession {
+  /** A unique identifier for the client connection. */
+  id: string;
+  /** Client message ID to upstream message ID, for commands awaiting a result. */
+  messageIds: Map<number, number>;
+  /** Open subscriptions: client message ID to the key of the shared subscription it joined. */
+  subscriptions: Map<number, string>;
+}
+
+/** A client that joined a shared subscription under its own message ID. */
+interface Subscriber {
+  /** The client socket. */
+  socket: WebSocket;
+  /** The message ID the client used to subscribe. */
+  clientMessageId: number;
+  /** Whether the client has received the subscription's `result` frame. */
+  acknowledged: boolean;
+}
+
+/**
+ * A single upstream subscription shared by every client that sent an equivalent subscription command.
+ * It is opened when the first subscriber joins and unsubscribed when the last one leaves.
+ */
+interface SharedSubscription {
+  /** The normalized subscription payload (see `subscriptionKey`). */
+  key: string;
+  /** The subscription command, without a message ID. */
+  command: HaMessage;
+  /** The upstream message ID of the subscription on the current connection, or null if not open. */
+  upstreamId: number | null;
+  /** Whether Home Assistant has confirmed the subscription on the current connection. */
+  confirmed: boolean;
+  /** The clients receiving the subscription's events. */
+  subscribers: Set<Subscriber>;
+  /** Whether the Durable Object consumes the events itself, which keeps the subscription open without clients. */
+  internal: boolean;
+  /** The current entity set of a `subscribe_entities` subscription, sent to clients that join late. */
+  snapshot?: Map<string, CompressedState>;
+}
+
+/** The metadata serialized into a hibernatable client socket's attachment. */
+interface ClientAttachment {
+  /** The client's unique identifier, also used to key its subscriptions in storage. */
+  id: string;
+}
+
+/** Identifies the client that owns an upstream message ID. */
+interface UpstreamRoute {
+  /** The client socket that sent the command. */
+  socket: WebSocket;
+  /** The message ID the client used for the command. */
+  clientMessageId: number;
+}
+
+/**
+ * The lifecycle of the upstream Home Assistant connection.
+ * - `idle`: no connection has been attempted yet.
+ * - `connecting`: the WebSocket upgrade request is in flight.
+ * - `authenticating`: the socket is open and waiting for `auth_ok`.
+ * - `ready`: authenticated; commands and subscriptions are forwarded.
+ * - `backoff`: disconnected; a reconnect is scheduled via a Durable Object alarm.
+ */
+export type HaConnectionState = "idle" | "connecting" | "authenticating" | "ready" | "backoff";
+
+/** Message types that open a long-lived subscription and must be replayed after a reconnect. */
+const SUBSCRIPTION_TYPES = new Set(["subscribe_events", "subscribe_entities", "subscribe_trigger"]);
+
+/** How long buffered recorder events may wait before they are written to D1. */
+const RECORDER_FLUSH_INTERVAL_MS = 2000;
+
+/** The first reconnect delay; each failed attempt doubles it. */
+const RECONNECT_BASE_DELAY_MS = 1000;
+
+/** The upper bound for the reconnect delay. */
+const RECONNECT_MAX_DELAY_MS = 5 * 60 * 1000;
+
+/** How long a command the Durable Object sends itself may wait for its result. */
+const INTERNAL_COMMAND_TIMEOUT_MS = 30 * 1000;
+
+/** The storage key prefix under which each client's subscription commands are persisted. */
+const CLIENT_STORAGE_PREFIX = "client:";
+
+/** The storage key of the last presence snapshot. */
+const PRESENCE_STORAGE_KEY = "presence:last";
+
+/** The maximum number of client frames held while the upstream connection is not ready. */
+const MAX_QUEUED_CLIENT_FRAMES = 100;
 
 /**
  * A Durable Object that maintains a single, persistent WebSocket connection
  * to a Home Assistant instance and acts as a proxy for multiple clients.
  * This prevents re-authentication for every client and provides a stable connection point.
+ * Client sockets use the hibernatable WebSocket API, so they survive the object being evicted:
+ * each socket's attachment identifies its session and its subscriptions are persisted in storage.
+ * The object itself stays in memory while connected, since the outbound upstream socket cannot hibernate.
  */
 export class HAWebsocketDurableObject {
-  /** A set of all connected client WebSockets. */
-  private clients = new Set<ClientSocket>();
+  /** All connected client WebSockets and their sessions, rebuilt from attachments after hibernation. */
+  private clients = new Map<WebSocket, ClientSession>();
   /** The single, upstream WebSocket connection to Home Assistant. */
   private haSocket: WebSocket | null = null;
-  /** A boolean flag indicating the status of the connection to Home Assistant. */
-  private haConnected = false;
+  /** The current state of the upstream connection. */
+  private connectionState: HaConnectionState = "idle";
+  /** The number of consecutive failed connection attempts, used to compute the backoff delay. */
+  private reconnectAttempts = 0;
+  /** The epoch milliseconds of the next scheduled reconnect, while in `backoff`. */
+  private retryAt: number | null = null;
+  /** The reason the last connection attempt failed, if any. */
+  private lastError: string | null = null;
+  /** The in-flight connection attempt, shared by concurrent callers. */
+  private connecting: Promise<void> | null = null;
+  /** Upstream message IDs mapped back to the client that owns them. */
+  private readonly routes = new Map<number, UpstreamRoute>();
+  /** Client commands received while the upstream connection was not ready. */
+  private queuedClientCommands: Array<{ socket: WebSocket; message: HaMessage }> = [];
   /** An instance of the Home Assistant API client. */
   private readonly haClient: HomeAssistantClient;
+  /** Writes mirrored events into the recorder replica. */
+  private readonly recorder: RecorderIngestor;
+  /** The event types mirrored into the recorder replica. */
+  private readonly recorderEventTypes: string[];
+  /** Shared upstream subscriptions keyed by their normalized payload. */
+  private readonly sharedSubscriptions = new Map<string, SharedSubscription>();
+  /** Shared subscriptions keyed by their upstream message ID on the current connection. */
+  private readonly subscriptionsByUpstreamId = new Map<number, SharedSubscription>();
+  /** Commands the Durable Object sent itself, keyed by upstream message ID, awaiting their result. */
+  private readonly internalCommands = new Map<number, { resolve: (result: unknown) => void; reject: (error: Error) => void }>();
+  /** The current state of every entity, seeded by `get_states` and updated from `state_changed`. */
+  private readonly stateCache: StateCache;
+  /** Evaluates state, numeric threshold and event rules as events arrive. */
+  private readonly rules: RuleEngine;
+  /** Computes presence from the state cache. */
+  private readonly presence: PresenceEngine;
+  /** The last presence snapshot, persisted so transitions survive restarts. */
+  private lastPresence: PresenceSnapshot | null = null;
+  /** The pending presence evaluation; evaluations run one at a time so each transition fires once. */
+  private presenceRun: Promise<PresenceSnapshot | null> = Promise.resolve(null);
+  /** The timer re-evaluating presence when a debounce expires. */
+  private presenceTimer: ReturnType<typeof setTimeout> | null = null;
+  /** The next message ID used for commands the Durable Object sends itself. */
+  private nextMessageId = 1;
+  /** The pending recorder flush timer, if one is scheduled. */
+  private recorderFlushTimer: ReturnType<typeof setTimeout> | null = null;
+  /** The timer confirming the recorder's progress while the connection is ready. */
+  private recorderCheckpointTimer: ReturnType<typeof setInterval> | null = null;
 
   /**
    * Initializes the Durable Object state and environment.
@@ -31,74 +171,712 @@ export class HAWebsocketDurableObject {
    */
   constructor(private readonly state: DurableObjectState, env: Env) {
     this.haClient = new HomeAssistantClient(env);
+    this.recorder = new RecorderIngestor(env);
+    this.recorderEventTypes = recorderEventTypes(env);
+    this.stateCache = new StateCache(state.storage.sql);
+    this.rules = new RuleEngine(env);
+    this.presence = new PresenceEngine(env);
+    for (const eventType of new Set(["state_changed", ...this.recorderEventTypes])) {
+      this.registerSubscription({ type: "subscribe_events", event_type: eventType }).internal = true;
+    }
     // Ensure the connection to Home Assistant is established as soon as the object is created.
     this.state.blockConcurrencyWhile(async () => {
+      await this.recorder.resume().catch((error) => console.error("Failed to load recorder cursor", error));
+      await this.restoreSessions();
+      this.lastPresence = (await this.state.storage.get<PresenceSnapshot>(PRESENCE_STORAGE_KEY)) ?? null;
+      await this.subscribeRuleEvents();
       await this.ensureHaConnection();
     });
   }
 
   /**
-   * Establishes and maintains the upstream WebSocket connection to Home Assistant.
-   * If a connection is already active, this method does nothing.
-   * It sets up event listeners to relay messages from Home Assistant to all clients
-   * and to handle disconnection events gracefully.
+   * Rebuilds client sessions and their shared subscriptions for sockets that outlived the previous instance.
+   * Restored subscribers were already acknowledged, so reopening the subscriptions only resumes their events.
    * @private
    * @returns {Promise<void>}
    */
+  private async restoreSessions(): Promise<void> {
+    for (const socket of this.state.getWebSockets()) {
+      const attachment = socket.deserializeAttachment() as ClientAttachment | null;
+      if (!attachment) continue;
+
+      const session: ClientSession = { id: attachment.id, messageIds: new Map(), subscriptions: new Map() };
+      this.clients.set(socket, session);
+
+      const commands = await this.state.storage.get<Array<[number, HaMessage]>>(`${CLIENT_STORAGE_PREFIX}${session.id}`);
+      for (const [clientMessageId, command] of commands ?? []) {
+        const shared = this.registerSubscription(command);
+        shared.subscribers.add({ socket, clientMessageId, acknowledged: true });
+        session.subscriptions.set(clientMessageId, shared.key);
+      }
+    }
+  }
+
+  /**
+   * Persists a client's subscription commands so they can be restored after hibernation or eviction.
+   * @private
+   * @param {ClientSession} session - The client's session.
+   */
+  private persistSession(session: ClientSession): void {
+    const commands: Array<[number, HaMessage]> = [];
+    for (const [clientMessageId, key] of session.subscriptions) {
+      const shared = this.sharedSubscriptions.get(key);
+      if (shared) commands.push([clientMessageId, shared.command]);
+    }
+    void this.state.storage.put(`${CLIENT_STORAGE_PREFIX}${session.id}`, commands);
+  }
+
+  /**
+   * Starts a connection attempt unless a connection exists, one is in flight, or a reconnect is already scheduled.
+   * @private
+   * @returns {Promise<void>} Resolves once the attempt has opened a socket or scheduled a retry.
+   */
   private async ensureHaConnection(): Promise<void> {
-    if (this.haSocket && this.haConnected) {
+    if (this.haSocket || this.connectionState === "backoff") {
       return;
     }
+    if (!this.connecting) {
+      this.connecting = this.connect().finally(() => {
+        this.connecting = null;
+      });
+    }
+    return this.connecting;
+  }
 
-    const wsUrl = await this.haClient.websocketUrl();
-    const pair = new WebSocketPair();
+  /**
+   * Opens the upstream WebSocket and wires its listeners. Authentication continues asynchronously:
+   * the socket waits for `auth_required`, answers with the access token and becomes `ready` on `auth_ok`.
+   * Any failure moves the connection into `backoff`.
+   * @private
+   * @returns {Promise<void>}
+   */
+  private async connect(): Promise<void> {
+    this.setConnectionState("connecting");
+
+    try {
+      const wsUrl = await this.haClient.websocketUrl();
+      const pair = new WebSocketPair();
+
+      // The `webSocket` property is not in the standard RequestInit type but is used by Cloudflare Workers.
+      const init: RequestInit = { headers: { Upgrade: "websocket" } };
+      (init as unknown as { webSocket: WebSocket }).webSocket = pair[0];
+      const response = await fetch(wsUrl, init);
+
+      const haSocket = response.webSocket;
+      if (!haSocket) {
+        throw new Error(`Failed to establish Home Assistant websocket (HTTP ${response.status})`);
+      }
+
+      haSocket.accept();
+      this.haSocket = haSocket;
+      this.lastError = null;
+      this.setConnectionState("authenticating");
+
+      haSocket.addEventListener("message", (event) => {
+        this.handleHaMessage(event.data);
+      });
+
+      haSocket.addEventListener("close", (event) => {
+        if (this.haSocket !== haSocket) return;
+        this.lastError ??= `Home Assistant websocket closed (${event.code})`;
+        this.handleDisconnect();
+      });
+
+      haSocket.addEventListener("error", () => {
+        this.lastError = "Home Assistant websocket error";
+      });
+    } catch (error) {
+      this.lastError = error instanceof Error ? error.message : String(error);
+      await this.scheduleReconnect();
+    }
+  }
+
+  /**
+   * Cleans up after the upstream connection is lost and schedules a reconnect.
+   * Clients stay connected and are informed through `connection_state` messages.
+   * @private
+   */
+  private handleDisconnect(): void {
+    this.haSocket = null;
+    this.failPendingCommands();
+    for (const { reject } of this.internalCommands.values()) {
+      reject(new Error("Home Assistant websocket closed"));
+    }
+    this.internalCommands.clear();
+    for (const shared of this.sharedSubscriptions.values()) {
+      shared.upstreamId = null;
+      shared.confirmed = false;
+      shared.snapshot?.clear();
+    }
+    this.subscriptionsByUpstreamId.clear();
+    void this.flushRecorder();
+    void this.scheduleReconnect();
+  }
+
+  /**
+   * Drops every upstream route of the lost connection. Commands still awaiting a result are failed
+   * so clients are not left waiting; shared subscriptions are reopened on reconnect.
+   * @private
+   */
+  private failPendingCommands(): void {
+    for (const route of this.routes.values()) {
+      this.clients.get(route.socket)?.messageIds.delete(route.clientMessageId);
+      this.sendToClient(route.socket, {
+        id: route.clientMessageId,
+        type: "result",
+        success: false,
+        error: { code: "connection_lost", message: "Home Assistant websocket closed" },
+      });
+    }
+    this.routes.clear();
+  }
 
-    // The `webSocket` property is not in the standard RequestInit type but is used by Cloudflare Workers.
-    const init: RequestInit = {};
-    (init as unknown as { webSocket: WebSocket }).webSocket = pair[0];
-    const response = await fetch(wsUrl, init);
+  /**
+   * Moves the connection into `backoff` and sets an alarm for the next attempt.
+   * The delay grows exponentially with the number of consecutive failures and is jittered by ±20%.
+   * @private
+   * @returns {Promise<void>}
+   */
+  private async scheduleReconnect(): Promise<void> {
+    const delay = Math.min(RECONNECT_MAX_DELAY_MS, RECONNECT_BASE_DELAY_MS * 2 ** this.reconnectAttempts);
+    this.reconnectAttempts++;
+    this.retryAt = Date.now() + Math.round(delay * (0.8 + Math.random() * 0.4));
+    this.setConnectionState("backoff");
+    await this.state.storage.setAlarm(this.retryAt);
+  }
 
-    const haSocket = response.webSocket;
-    if (!haSocket) {
-      throw new Error("Failed to establish Home Assistant websocket");
+  /**
+   * Handles the Durable Object alarm by retrying the upstream connection when a reconnect is due.
+   * @returns {Promise<void>}
+   */
+  async alarm(): Promise<void> {
+    if (this.connectionState !== "backoff" && this.haSocket) {
+      return;
     }
+    this.retryAt = null;
+    this.connectionState = "idle";
+    await this.ensureHaConnection();
+  }
 
-    haSocket.accept();
-    this.haSocket = haSocket;
-    this.haConnected = true;
+  /**
+   * Updates the connection state and notifies every client of the transition.
+   * @private
+   * @param {HaConnectionState} next - The new connection state.
+   */
+  private setConnectionState(next: HaConnectionState): void {
+    this.connectionState = next;
+    if (next === "ready") {
+      this.lastError = null;
+    }
+    // Checkpoints confirm the replica even when no events arrive, so quiet homes still count as covered.
+    if (next === "ready" && !this.recorderCheckpointTimer) {
+      this.recorderCheckpointTimer = setInterval(() => void this.flushRecorder(), RECORDER_CHECKPOINT_MS);
+    } else if (next !== "ready" && this.recorderCheckpointTimer) {
+      clearInterval(this.recorderCheckpointTimer);
+      this.recorderCheckpointTimer = null;
+    }
+    this.broadcast(JSON.stringify({ type: "connection_state", ...this.describeConnection() }));
+  }
 
-    // Listen for messages from Home Assistant and broadcast them to all connected clients.
-    haSocket.addEventListener("message", (event) => {
-      for (const client of this.clients) {
-        try {
-          client.send(event.data);
-        } catch (error) {
-          console.error("Failed to relay HA message", error);
-        }
+  /**
+   * Summarizes the upstream connection for clients and the `/status` route.
+   * @private
+   * @returns {Record<string, unknown>} The connection summary.
+   */
+  private describeConnection(): Record<string, unknown> {
+    return {
+      state: this.connectionState,
+      connected: this.connectionState === "ready",
+      attempt: this.reconnectAttempts,
+      retryAt: this.retryAt ? new Date(this.retryAt).toISOString() : null,
+      error: this.lastError,
+    };
+  }
+
+  /**
+   * Sends a frame to every connected client, ignoring sockets that have already gone away.
+   * @private
+   * @param {string} frame - The serialized frame to send.
+   */
+  private broadcast(frame: string): void {
+    for (const client of this.clients.keys()) {
+      try {
+        client.send(frame);
+      } catch (error) {
+        console.error("Failed to relay HA message", error);
       }
-    });
+    }
+  }
+
+  /**
+   * Sends a message to a single client, ignoring sockets that have already gone away.
+   * @private
+   * @param {WebSocket} socket - The client socket.
+   * @param {HaMessage} message - The message to serialize and send.
+   */
+  private sendToClient(socket: WebSocket, message: HaMessage): void {
+    try {
+      socket.send(JSON.stringify(message));
+    } catch (error) {
+      console.error("Failed to relay HA message", error);
+    }
+  }
+
+  /**
+   * Handles a frame received from Home Assistant. Authentication frames drive the connection state machine,
+   * frames of shared subscriptions are fanned out to their subscribers, and every other frame is routed back
+   * to the client that owns its message ID with the ID rewritten to the client's own.
+   * @private
+   * @param {unknown} data - The raw frame received from Home Assistant.
+   */
+  private handleHaMessage(data: unknown): void {
+    if (typeof data !== "string") return;
+
+    let message: HaMessage & { event?: HomeAssistantEvent };
+    try {
+      message = JSON.parse(data);
+    } catch {
+      return;
+    }
+
+    switch (message.type) {
+      case "auth_required":
+        this.haSocket?.send(JSON.stringify(this.haClient.buildWebsocketAuthMessage()));
+        return;
+      case "auth_ok":
+        this.handleAuthenticated();
+        return;
+      case "auth_invalid":
+        this.lastError = `Authentication rejected: ${String(message.message ?? "invalid token")}`;
+        this.haSocket?.close(1000, "Authentication rejected");
+        return;
+    }
+
+    if (message.id === undefined) {
+      this.broadcast(data);
+      return;
+    }
 
-    // Handle the upstream connection closing.
-    haSocket.addEventListener("close", () => {
-      this.haConnected = false;
-      this.haSocket = null;
-      // Close all client connections and clear the client set.
-      for (const client of this.clients) {
-        try {
-          client.close(1012, "Home Assistant websocket closed");
-        } catch (error) {
-          console.error("Failed to close client socket", error);
-        }
+    const internal = this.internalCommands.get(message.id);
+    if (internal && message.type === "result") {
+      this.internalCommands.delete(message.id);
+      if (message.success === false) {
+        const error = message.error as { message?: string } | undefined;
+        internal.reject(new Error(error?.message ?? "Home Assistant command failed"));
+      } else {
+        internal.resolve(message.result);
       }
-      this.clients.clear();
+      return;
+    }
+
+    const shared = this.subscriptionsByUpstreamId.get(message.id);
+    if (shared) {
+      this.handleSubscriptionMessage(shared, message);
+      return;
+    }
+
+    this.routeToClient(message.id, message);
+  }
+
+  /**
+   * Handles a frame of a shared subscription: the `result` is delivered once to each subscriber that has not
+   * seen it yet, and events are passed to the Durable Object's own consumers and fanned out to every subscriber.
+   * @private
+   * @param {SharedSubscription} shared - The subscription the frame belongs to.
+   * @param {HaMessage} message - The parsed frame.
+   */
+  private handleSubscriptionMessage(shared: SharedSubscription, message: HaMessage & { event?: unknown }): void {
+    if (message.type === "result") {
+      for (const subscriber of shared.subscribers) {
+        if (subscriber.acknowledged) continue;
+        subscriber.acknowledged = true;
+        this.sendToClient(subscriber.socket, { ...message, id: subscriber.clientMessageId });
+      }
+      if (message.success === false) {
+        // Nothing is open upstream, so the subscription is forgotten without unsubscribing.
+        this.subscriptionsByUpstreamId.delete(message.id as number);
+        shared.upstreamId = null;
+        this.dropSubscription(shared);
+      } else {
+        shared.confirmed = true;
+      }
+      return;
+    }
+
+    if (message.type !== "event" || !message.event) return;
+
+    if (shared.snapshot) {
+      applyEntityDiff(shared.snapshot, message.event as CompressedStateDiff);
+    }
+    if (shared.internal) {
+      this.handleInternalEvent(message.event as HomeAssistantEvent);
+    }
+    for (const subscriber of shared.subscribers) {
+      this.sendToClient(subscriber.socket, { ...message, id: subscriber.clientMessageId });
+    }
+  }
+
+  /**
+   * Consumes an event of an internal subscription: state changes update the state cache and presence, every event
+   * is evaluated against the rules, and configured event types are buffered for the recorder replica.
+   * @private
+   * @param {HomeAssistantEvent} event - The event received from Home Assistant.
+   */
+  private handleInternalEvent(event: HomeAssistantEvent): void {
+    if (event.event_type === "state_changed") {
+      const data = event.data as unknown as StateChangedData;
+      this.stateCache.apply(data);
+      if (PRESENCE_DOMAINS.includes(data.entity_id.split(".")[0])) {
+        void this.evaluatePresence();
+      }
+    }
+    void this.rules
+      .handleEvent(event, (entityId) => this.stateCache.get(entityId))
+      .catch((error) => console.error("Failed to evaluate rules", error));
+    if (!this.recorderEventTypes.includes(event.event_type)) return;
+    if (this.recorder.enqueue(event)) {
+      void this.flushRecorder();
+    } else {
+      this.scheduleRecorderFlush();
+    }
+  }
+
+  /**
+   * Delivers an upstream frame to the client that owns its message ID and releases the route once the
+   * command's `result` (or `pong`) has arrived.
+   * @private
+   * @param {number} upstreamId - The upstream message ID of the frame.
+   * @param {HaMessage} message - The parsed frame.
+   */
+  private routeToClient(upstreamId: number, message: HaMessage): void {
+    const route = this.routes.get(upstreamId);
+    if (!route) return;
+
+    const session = this.clients.get(route.socket);
+    if (!session) {
+      this.routes.delete(upstreamId);
+      return;
+    }
+
+    this.sendToClient(route.socket, { ...message, id: route.clientMessageId });
+
+    if (message.type === "result" || message.type === "pong") {
+      this.routes.delete(upstreamId);
+      session.messageIds.delete(route.clientMessageId);
+    }
+  }
+
+  /**
+   * Marks the connection ready, resets the backoff, replays subscriptions and drains queued client frames.
+   * @private
+   */
+  private handleAuthenticated(): void {
+    this.reconnectAttempts = 0;
+    this.retryAt = null;
+    void this.state.storage.deleteAlarm();
+    this.setConnectionState("ready");
+
+    for (const shared of this.sharedSubscriptions.values()) {
+      this.openSubscription(shared);
+    }
+    void this.seedStateCache();
+
+    const queued = this.queuedClientCommands;
+    this.queuedClientCommands = [];
+    for (const { socket, message } of queued) {
+      const session = this.clients.get(socket);
+      if (session) {
+        this.forwardCommand(socket, session, message);
+      }
+    }
+  }
+
+  /**
+   * Sends a command on behalf of the Durable Object itself and waits for its result.
+   * @private
+   * @template T The expected type of the command's result.
+   * @param {HaMessage} command - The command, without a message ID.
+   * @returns {Promise<T>} The `result` payload; rejects if the command fails, times out or the connection drops.
+   */
+  private command<T>(command: HaMessage): Promise<T> {
+    if (this.connectionState !== "ready") {
+      return Promise.reject(new Error(`Home Assistant connection is ${this.connectionState}`));
+    }
+
+    const id = this.nextMessageId++;
+    return new Promise<T>((resolve, reject) => {
+      const timeout = setTimeout(() => {
+        this.internalCommands.delete(id);
+        reject(new Error(`Home Assistant command ${String(command.type)} timed out`));
+      }, INTERNAL_COMMAND_TIMEOUT_MS);
+      this.internalCommands.set(id, {
+        resolve: (result) => {
+          clearTimeout(timeout);
+          resolve(result as T);
+        },
+        reject: (error) => {
+          clearTimeout(timeout);
+          reject(error);
+        },
+      });
+      this.sendUpstream(JSON.stringify({ ...command, id }));
+    });
+  }
+
+  /**
+   * Seeds the state cache with a full `get_states` snapshot after (re)connecting.
+   * @private
+   * @returns {Promise<void>}
+   */
+  private async seedStateCache(): Promise<void> {
+    const requestedAt = new Date().toISOString();
+    try {
+      const states = await this.command<HomeAssistantState[]>({ type: "get_states" });
+      this.stateCache.replaceAll(states, requestedAt);
+      void this.evaluatePresence();
+    } catch (error) {
+      console.error("Failed to seed state cache", error);
+    }
+  }
+
+  /**
+   * Rewrites a client command to the next upstream message ID, records the route back to the client and sends it.
+   * @private
+   * @param {WebSocket} socket - The client that sent the command.
+   * @param {ClientSession} session - The client's session.
+   * @param {HaMessage} message - The command with the client's own message ID.
+   */
+  private forwardCommand(socket: WebSocket, session: ClientSession, message: HaMessage): void {
+    if (message.id === undefined) return;
+
+    const upstreamId = this.nextMessageId++;
+    session.messageIds.set(message.id, upstreamId);
+    this.routes.set(upstreamId, { socket, clientMessageId: message.id });
+    this.sendUpstream(JSON.stringify({ ...message, id: upstreamId }));
+  }
+
+  /**
+   * Finds or creates the shared subscription for a subscription command.
+   * @private
+   * @param {HaMessage} command - The subscription command; its message ID is ignored.
+   * @returns {SharedSubscription} The shared subscription.
+   */
+  private registerSubscription(command: HaMessage): SharedSubscription {
+    const key = subscriptionKey(command);
+    let shared = this.sharedSubscriptions.get(key);
+    if (!shared) {
+      const { id: _id, ...payload } = command;
+      shared = {
+        key,
+        command: payload,
+        upstreamId: null,
+        confirmed: false,
+        subscribers: new Set(),
+        internal: false,
+        snapshot: command.type === "subscribe_entities" ? new Map() : undefined,
+      };
+      this.sharedSubscriptions.set(key, shared);
+    }
+    return shared;
+  }
+
+  /**
+   * Reloads the rules and adds an internal subscription for every event type an event rule listens for. Event
+   * types of deleted rules stay subscribed until the object is recreated.
+   * @private
+   * @returns {Promise<void>}
+   */
+  private async subscribeRuleEvents(): Promise<void> {
+    this.rules.invalidate();
+    const eventTypes = await this.rules.eventTypes().catch((error) => {
+      console.error("Failed to load rules", error);
+      return [];
     });
+    for (const eventType of eventTypes) {
+      const shared = this.registerSubscription({ type: "subscribe_events", event_type: eventType });
+      shared.internal = true;
+      if (shared.upstreamId === null && this.connectionState === "ready") {
+        this.openSubscription(shared);
+      }
+    }
+  }
+
+  /**
+   * Opens a shared subscription on the upstream connection under a fresh message ID.
+   * @private
+   * @param {SharedSubscription} shared - The subscription to open.
+   */
+  private openSubscription(shared: SharedSubscription): void {
+    shared.upstreamId = this.nextMessageId++;
+    this.subscriptionsByUpstreamId.set(shared.upstreamId, shared);
+    this.sendUpstream(JSON.stringify({ ...shared.command, id: shared.upstreamId }));
+  }
 
-    haSocket.addEventListener("error", () => {
-      this.haConnected = false;
+  /**
+   * Adds a client to the shared subscription matching its command. Only the first subscriber opens the
+   * subscription upstream; later subscribers are acknowledged locally and, for `subscribe_entities`,
+   * receive the current entity snapshot as their initial event.
+   * @private
+   * @param {WebSocket} socket - The client that subscribed.
+   * @param {ClientSession} session - The client's session.
+   * @param {HaMessage & { id: number }} message - The subscription command with the client's own message ID.
+   */
+  private joinSubscription(socket: WebSocket, session: ClientSession, message: HaMessage & { id: number }): void {
+    const shared = this.registerSubscription(message);
+    const subscriber: Subscriber = { socket, clientMessageId: message.id, acknowledged: false };
+    shared.subscribers.add(subscriber);
+    session.subscriptions.set(message.id, shared.key);
+    this.persistSession(session);
+
+    if (shared.confirmed) {
+      subscriber.acknowledged = true;
+      this.sendToClient(socket, { id: message.id, type: "result", success: true, result: null });
+      if (shared.snapshot) {
+        this.sendToClient(socket, { id: message.id, type: "event", event: { a: Object.fromEntries(shared.snapshot) } });
+      }
+    } else if (shared.upstreamId === null && this.connectionState === "ready") {
+      this.openSubscription(shared);
+    }
+  }
+
+  /**
+   * Removes a client from a shared subscription.
+   * @private
+   * @param {WebSocket} socket - The client that unsubscribed.
+   * @param {ClientSession} session - The client's session.
+   * @param {number} clientMessageId - The message ID the client subscribed with.
+   * @returns {boolean} False if the client had no such subscription.
+   */
+  private leaveSubscription(socket: WebSocket, session: ClientSession, clientMessageId: number): boolean {
+    const key = session.subscriptions.get(clientMessageId);
+    if (key === undefined) return false;
+    session.subscriptions.delete(clientMessageId);
+    this.persistSession(session);
+
+    const shared = this.sharedSubscriptions.get(key);
+    if (!shared) return true;
+    for (const subscriber of shared.subscribers) {
+      if (subscriber.socket === socket && subscriber.clientMessageId === clientMessageId) {
+        shared.subscribers.delete(subscriber);
+      }
+    }
+    if (shared.subscribers.size === 0 && !shared.internal) {
+      this.dropSubscription(shared);
+    }
+    return true;
+  }
+
+  /**
+   * Forgets a shared subscription, unsubscribing it upstream if it is open.
+   * @private
+   * @param {SharedSubscription} shared - The subscription to drop.
+   */
+  private dropSubscription(shared: SharedSubscription): void {
+    this.sharedSubscriptions.delete(shared.key);
+    for (const subscriber of shared.subscribers) {
+      const session = this.clients.get(subscriber.socket);
+      if (session?.subscriptions.delete(subscriber.clientMessageId)) {
+        this.persistSession(session);
+      }
+    }
+    if (shared.upstreamId === null) return;
+
+    this.subscriptionsByUpstreamId.delete(shared.upstreamId);
+    if (this.connectionState === "ready") {
+      this.sendUpstream(JSON.stringify({ id: this.nextMessageId++, type: "unsubscribe_events", subscription: shared.upstreamId }));
+    }
+  }
+
+  /**
+   * Sends a frame on the upstream connection, logging rather than throwing on failure.
+   * @private
+   * @param {string} frame - The serialized frame to send.
+   */
+  private sendUpstream(frame: string): void {
+    try {
+      this.haSocket?.send(frame);
+    } catch (error) {
+      console.error("Failed to forward client message", error);
+    }
+  }
+
+  /**
+   * Schedules a flush of the recorder buffer if one is not already pending.
+   * @private
+   */
+  private scheduleRecorderFlush(): void {
+    if (this.recorderFlushTimer) return;
+    this.recorderFlushTimer = setTimeout(() => {
+      void this.flushRecorder();
+    }, RECORDER_FLUSH_INTERVAL_MS);
+  }
+
+  /**
+   * Writes buffered events to the recorder replica. While connected with every recorder subscription open, the flush
+   * also confirms that the replica is complete up to now. Failures are logged and retried on the next flush.
+   * @private
+   * @returns {Promise<void>}
+   */
+  private async flushRecorder(): Promise<void> {
+    if (this.recorderFlushTimer) {
+      clearTimeout(this.recorderFlushTimer);
+      this.recorderFlushTimer = null;
+    }
+    const subscribed = this.recorderEventTypes.every(
+      (eventType) => this.sharedSubscriptions.get(subscriptionKey({ type: "subscribe_events", event_type: eventType }))?.confirmed,
+    );
+    try {
+      await this.recorder.flush(this.connectionState === "ready" && subscribed ? new Date() : null);
+    } catch (error) {
+      console.error("Failed to write recorder batch", error);
+      this.scheduleRecorderFlush();
+    }
+  }
+
+  /**
+   * Recomputes presence from the state cache, fires the transitions since the last snapshot and schedules the next
+   * evaluation for when a pending debounce expires. Nothing is computed before the cache is first seeded.
+   * @private
+   * @returns {Promise<PresenceSnapshot | null>} The snapshot, or null while the cache is not seeded.
+   */
+  private evaluatePresence(): Promise<PresenceSnapshot | null> {
+    this.presenceRun = this.presenceRun.then(async () => {
+      if (this.stateCache.describe().syncedAt === null) return null;
+      try {
+        const states = PRESENCE_DOMAINS.flatMap((domain) => this.stateCache.list({ domain }));
+        const snapshot = await this.presence.compute(states);
+        const transitions = presenceTransitions(this.lastPresence, snapshot);
+        this.lastPresence = snapshot;
+        await this.state.storage.put(PRESENCE_STORAGE_KEY, snapshot);
+        this.schedulePresence(snapshot.nextChangeAt);
+        await this.presence.fire(transitions);
+        return snapshot;
+      } catch (error) {
+        console.error("Failed to evaluate presence", error);
+        return this.lastPresence;
+      }
     });
+    return this.presenceRun;
+  }
 
-    // Authenticate with Home Assistant immediately after connecting.
-    haSocket.send(JSON.stringify(this.haClient.buildWebsocketAuthMessage()));
+  /**
+   * Replaces the presence timer with one firing at the given time.
+   * @private
+   * @param {string | null} at - When to evaluate presence again, or null to cancel the timer.
+   */
+  private schedulePresence(at: string | null): void {
+    if (this.presenceTimer) {
+      clearTimeout(this.presenceTimer);
+      this.presenceTimer = null;
+    }
+    if (!at) return;
+    this.presenceTimer = setTimeout(
+      () => {
+        this.presenceTimer = null;
+        void this.evaluatePresence();
+      },
+      Math.max(Date.parse(at) - Date.now(), 0) + 1000,
+    );
   }
 
   /**
@@ -113,11 +891,41 @@ export class HAWebsocketDurableObject {
     switch (url.pathname) {
       case "/connect":
         return this.handleConnect();
+      case "/states":
+        return this.handleStates(url);
+      case "/command":
+        return this.handleCommand(request);
+      case "/rules/reload":
+        await this.subscribeRuleEvents();
+        return new Response(null, { status: 204 });
+      case "/presence":
+      case "/presence/reload": {
+        if (url.pathname === "/presence/reload") this.presence.invalidate();
+        const snapshot = await this.evaluatePresence();
+        return snapshot
+          ? new Response(JSON.stringify(snapshot), { headers: { "Content-Type": "application/json" } })
+          : new Response(JSON.stringify({ error: "The state cache has not been seeded yet" }), {
+              status: 503,
+              headers: { "Content-Type": "application/json" },
+            });
+      }
       case "/status":
         return new Response(
           JSON.stringify({
             clients: this.clients.size,
-            connected: this.haConnected,
+            pendingCommands: this.routes.size,
+            subscriptions: [...this.sharedSubscriptions.values()].map((shared) => ({
+              command: shared.command,
+              subscribers: shared.subscribers.size,
+              internal: shared.internal,
+              open: shared.confirmed,
+            })),
+            ...this.describeConnection(),
+            recorder: {
+              eventTypes: this.recorderEventTypes,
+              pending: this.recorder.size,
+            },
+            stateCache: this.stateCache.describe(),
           }),
           {
             headers: { "Content-Type": "application/json" },
@@ -128,10 +936,71 @@ export class HAWebsocketDurableObject {
     }
   }
 
+  /**
+   * Serves the cached entity states. Reads keep working while Home Assistant is unreachable;
+   * `stale` tells the caller the cache may be missing recent changes.
+   * Supports `domain` and repeated `entity_id` query parameters.
+   * @private
+   * @param {URL} url - The request URL.
+   * @returns {Response} The cached states with freshness metadata.
+   */
+  private handleStates(url: URL): Response {
+    const entityIds = url.searchParams.getAll("entity_id");
+    const states = this.stateCache.list({
+      domain: url.searchParams.get("domain") ?? undefined,
+      entityIds: entityIds.length > 0 ? entityIds : undefined,
+    });
+    const cache = this.stateCache.describe();
+
+    return new Response(
+      JSON.stringify({
+        states,
+        stale: this.connectionState !== "ready" || cache.syncedAt === null,
+        syncedAt: cache.syncedAt,
+        lastEventAt: cache.lastEventAt,
+        connection: this.connectionState,
+      }),
+      {
+        headers: { "Content-Type": "application/json" },
+      },
+    );
+  }
+
+  /**
+   * Runs a single WebSocket command on behalf of the worker (e.g., `recorder/statistics_during_period`)
+   * over the shared upstream connection.
+   * @private
+   * @param {Request} request - A POST request whose body is the command, without a message ID.
+   * @returns {Promise<Response>} `{ result }` on success, or a 502 with the error when the command fails.
+   */
+  private async handleCommand(request: Request): Promise<Response> {
+    if (request.method !== "POST") {
+      return new Response("Method not allowed", { status: 405 });
+    }
+    const command = (await request.json().catch(() => null)) as HaMessage | null;
+    if (!command || typeof command.type !== "string" || SUBSCRIPTION_TYPES.has(command.type)) {
+      return new Response(JSON.stringify({ error: "A non-subscription command with a type is required" }), {
+        status: 400,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    try {
+      const result = await this.command<unknown>(command);
+      return new Response(JSON.stringify({ result }), { headers: { "Content-Type": "application/json" } });
+    } catch (error) {
+      return new Response(JSON.stringify({ error: (error as Error).message, connection: this.connectionState }), {
+        status: 502,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+  }
+
   /**
    * Handles a new client's request to establish a WebSocket connection.
-   * It ensures the upstream HA connection is active, creates a new WebSocket pair for the client,
+   * It kicks off the upstream connection if needed, creates a new WebSocket pair for the client,
    * attaches the server-side socket to the multiplexer, and returns the client-side socket to the user.
+   * Clients may connect while Home Assistant is unavailable; their frames are queued until the connection is ready.
    * @private
    * @returns {Promise<Response>} A promise resolving to a 101 Switching Protocols response.
    */
@@ -142,7 +1011,7 @@ export class HAWebsocketDurableObject {
     const client = pair[0]; // This is the client-side socket
     const server = pair[1]; // This is the server-side socket, managed by the DO
 
-    this.attachClient(server as ClientSocket);
+    this.attachClient(server);
 
     // Return the client-side socket to the user to upgrade their connection.
     return new Response(null, {
@@ -153,42 +1022,156 @@ export class HAWebsocketDurableObject {
 
   /**
    * Attaches a new client WebSocket to the multiplexer.
-   * It adds the client to the active clients set and sets up event listeners
-   * to forward messages from the client to Home Assistant.
+   * The socket is accepted through the hibernatable WebSocket API, so its messages and closure arrive in
+   * `webSocketMessage` and `webSocketClose`, and its session ID is kept in the socket attachment.
    * @private
-   * @param {ClientSocket} socket - The server-side WebSocket of a new client connection.
+   * @param {WebSocket} socket - The server-side WebSocket of a new client connection.
    */
-  private attachClient(socket: ClientSocket): void {
-    socket.accept();
-    socket.id = crypto.randomUUID();
-    this.clients.add(socket);
-
-    // Listen for messages from the client and forward them to Home Assistant.
-    socket.addEventListener("message", (event) => {
-      if (!this.haSocket || this.haSocket.readyState !== WebSocket.OPEN) {
-        return;
-      }
-
-      try {
-        this.haSocket.send(event.data);
-      } catch (error) {
-        console.error("Failed to forward client message", error);
-      }
-    });
-
-    // Remove the client from the set when they disconnect.
-    socket.addEventListener("close", () => {
-      this.clients.delete(socket);
-    });
+  private attachClient(socket: WebSocket): void {
+    const session: ClientSession = { id: crypto.randomUUID(), messageIds: new Map(), subscriptions: new Map() };
+    this.state.acceptWebSocket(socket);
+    socket.serializeAttachment({ id: session.id } satisfies ClientAttachment);
+    this.clients.set(socket, session);
 
     // Send an initial message to the client confirming the connection status.
     socket.send(
       JSON.stringify({
         type: "connection_info",
         message: "Proxy connected to Home Assistant",
-        clientId: socket.id,
-        connected: this.haConnected,
+        clientId: session.id,
+        ...this.describeConnection(),
       }),
     );
   }
+
+  /**
+   * Handles a frame from a hibernatable client socket.
+   * @param {WebSocket} socket - The client socket.
+   * @param {string | ArrayBuffer} data - The raw frame.
+   */
+  webSocketMessage(socket: WebSocket, data: string | ArrayBuffer): void {
+    const session = this.clients.get(socket);
+    if (session) {
+      this.handleClientMessage(socket, session, data);
+    }
+  }
+
+  /**
+   * Handles the closure of a hibernatable client socket by completing the close handshake and detaching it.
+   * @param {WebSocket} socket - The client socket.
+   * @param {number} code - The close code sent by the client.
+   * @param {string} reason - The close reason sent by the client.
+   * @returns {Promise<void>}
+   */
+  async webSocketClose(socket: WebSocket, code: number, reason: string): Promise<void> {
+    await this.detachClient(socket);
+    try {
+      socket.close(code === 1005 ? 1000 : code, reason);
+    } catch {
+      // The socket is already closed.
+    }
+  }
+
+  /**
+   * Handles an error on a hibernatable client socket by detaching it.
+   * @param {WebSocket} socket - The client socket.
+   * @returns {Promise<void>}
+   */
+  async webSocketError(socket: WebSocket): Promise<void> {
+    await this.detachClient(socket);
+  }
+
+  /**
+   * Removes a disconnected client, releasing its routes, leaving its shared subscriptions and deleting its stored state.
+   * @private
+   * @param {WebSocket} socket - The client socket.
+   * @returns {Promise<void>}
+   */
+  private async detachClient(socket: WebSocket): Promise<void> {
+    const session = this.clients.get(socket);
+    if (!session) return;
+    this.clients.delete(socket);
+    for (const upstreamId of session.messageIds.values()) {
+      this.routes.delete(upstreamId);
+    }
+    for (const clientMessageId of [...session.subscriptions.keys()]) {
+      this.leaveSubscription(socket, session, clientMessageId);
+    }
+    this.queuedClientCommands = this.queuedClientCommands.filter((command) => command.socket !== socket);
+    await this.state.storage.delete(`${CLIENT_STORAGE_PREFIX}${session.id}`);
+  }
+
+  /**
+   * Forwards a client frame to Home Assistant. The proxy authenticates upstream on the client's behalf,
+   * so `auth` frames are answered locally. Subscriptions join a shared upstream subscription and unsubscribes
+   * leave it, both answered locally; other commands sent while the connection is not ready are queued.
+   * @private
+   * @param {WebSocket} socket - The client that sent the frame.
+   * @param {ClientSession} session - The client's session.
+   * @param {unknown} data - The raw frame.
+   */
+  private handleClientMessage(socket: WebSocket, session: ClientSession, data: unknown): void {
+    if (typeof data !== "string") return;
+
+    let message: HaMessage;
+    try {
+      message = JSON.parse(data);
+    } catch {
+      return;
+    }
+
+    if (message.type === "auth") {
+      this.sendToClient(socket, { type: "auth_ok" });
+      return;
+    }
+
+    if (typeof message.id !== "number") {
+      this.sendToClient(socket, {
+        type: "result",
+        success: false,
+        error: { code: "invalid_format", message: "Message ID is required" },
+      });
+      return;
+    }
+
+    const queued = this.queuedClientCommands.some((command) => command.socket === socket && command.message.id === message.id);
+    if (queued || session.messageIds.has(message.id) || session.subscriptions.has(message.id)) {
+      this.sendToClient(socket, {
+        id: message.id,
+        type: "result",
+        success: false,
+        error: { code: "id_reuse", message: "Message ID is already in use" },
+      });
+      return;
+    }
+
+    if (message.type && SUBSCRIPTION_TYPES.has(message.type)) {
+      this.joinSubscription(socket, session, message as HaMessage & { id: number });
+      return;
+    }
+
+    if (message.type === "unsubscribe_events") {
+      const left = typeof message.subscription === "number" && this.leaveSubscription(socket, session, message.subscription);
+      this.sendToClient(
+        socket,
+        left
+          ? { id: message.id, type: "result", success: true, result: null }
+          : { id: message.id, type: "result", success: false, error: { code: "not_found", message: "Subscription not found." } },
+      );
+      return;
+    }
+
+    if (this.connectionState === "ready") {
+      this.forwardCommand(socket, session, message);
+    } else if (this.queuedClientCommands.length < MAX_QUEUED_CLIENT_FRAMES) {
+      this.queuedClientCommands.push({ socket, message });
+    } else {
+      this.sendToClient(socket, {
+        id: message.id,
+        type: "result",
+        success: false,
+        error: { code: "not_ready", message: `Home Assistant connection is ${this.connectionState}` },
+      });
+    }
+  }
 }
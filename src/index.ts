@@ -5,9 +5,34 @@
  */
 
 import { Router } from "itty-router";
+import { z } from "zod";
 import type { Env } from "./types";
-import { HomeAssistantClient } from "./lib/haClient";
+import { ENTITY_ID_PATTERN, HomeAssistantClient, SERVICE_NAME_PATTERN } from "./lib/haClient";
 import { HassAgent } from "./lib/agent";
+import { RecorderIngestor } from "./lib/recorder";
+import { RecorderHistory } from "./lib/history";
+import { StatisticsCompiler } from "./lib/statistics";
+import { RETENTION_TABLES, RecorderPurger } from "./lib/retention";
+import { type BackfillJob, RecorderBackfill } from "./lib/backfill";
+import { EntityResolver } from "./lib/entityResolver";
+import { ActionPolicy } from "./lib/actionPolicy";
+import { LongTermMemory } from "./lib/memory";
+import { ConversationStore } from "./lib/conversation";
+import { ModelRegistry } from "./lib/models";
+import { OpenAICompatibility } from "./lib/openai";
+import { MAX_AUDIO_BYTES, VoicePipeline } from "./lib/voice";
+import { RuleEngine, RuleInputSchema, remoteStateLookup } from "./lib/rules";
+import { parseLocalTime } from "./lib/cron";
+import { CRON_TASK_NAMES, CronJobInputSchema, CronScheduler } from "./lib/scheduler";
+import { CameraAnalyzer, DEFAULT_CAMERA_PROMPT } from "./lib/camera";
+import {
+  AutomationBlueprints,
+  BlueprintInstanceSchema,
+  BlueprintPayloadSchema,
+  type InstallResult,
+} from "./lib/blueprints";
+import { SceneStore } from "./lib/scenes";
+import { HOUSEHOLD_MODES, PresenceEngine, PresenceSettingsSchema } from "./lib/presence";
 
 const router = Router();
 
@@ -118,6 +143,86 @@ const extractApiKey = (headers: Headers, url?: URL): string | null => {
   }
   return null;
 };
+/**
+ * Reads a Home Assistant style boolean query flag, where the bare presence of the parameter means true.
+ * @param {URL} url - The request URL.
+ * @param {string} name - The query parameter name.
+ * @param {boolean} fallback - The value used when the parameter is absent.
+ * @returns {boolean} The flag value.
+ */
+const queryFlag = (url: URL, name: string, fallback: boolean): boolean => {
+  const value = url.searchParams.get(name);
+  if (value === null) return fallback;
+  return value !== "0" && value.toLowerCase() !== "false";
+};
+
+/**
+ * Parses the time window of a history or logbook request. The start comes from the path or the `start`/`start_time`
+ * query parameter and defaults to one day ago; the end comes from `end`/`end_time` and defaults to one day after the start.
+ * @param {URL} url - The request URL.
+ * @param {string} [startParam] - The start timestamp from the path, if any.
+ * @returns {{ start: Date; end: Date } | Response} The window, or a 400 response if a timestamp is invalid.
+ */
+const parseTimeWindow = (url: URL, startParam?: string): { start: Date; end: Date } | Response => {
+  const startValue = startParam ?? url.searchParams.get("start") ?? url.searchParams.get("start_time");
+  const start = startValue ? new Date(startValue) : new Date(Date.now() - 24 * 60 * 60 * 1000);
+  if (Number.isNaN(start.getTime())) {
+    return json({ error: "start must be a valid timestamp" }, { status: 400 });
+  }
+
+  const endValue = url.searchParams.get("end") ?? url.searchParams.get("end_time");
+  const end = endValue ? new Date(endValue) : new Date(start.getTime() + 24 * 60 * 60 * 1000);
+  if (Number.isNaN(end.getTime())) {
+    return json({ error: "end must be a valid timestamp" }, { status: 400 });
+  }
+  return { start, end };
+};
+
+/**
+ * Answers a history request from the recorder replica (or Home Assistant when the replica has a gap).
+ * @param {Env} env - The environment bindings.
+ * @param {URL} url - The request URL.
+ * @param {string[]} entityIds - The entities to return history for.
+ * @param {string} [startParam] - The start timestamp from the path, if any.
+ * @returns {Promise<Response>} The history in Home Assistant's `/api/history/period` shape.
+ */
+const historyResponse = async (env: Env, url: URL, entityIds: string[], startParam?: string): Promise<Response> => {
+  if (entityIds.length === 0) {
+    return json({ error: "At least one entity ID is required" }, { status: 400 });
+  }
+  const timeWindow = parseTimeWindow(url, startParam);
+  if (timeWindow instanceof Response) return timeWindow;
+
+  const result = await new RecorderHistory(env).history(
+    {
+      entityIds,
+      ...timeWindow,
+      minimalResponse: queryFlag(url, "minimal_response", false),
+      significantChangesOnly: queryFlag(url, "significant_changes_only", true),
+      noAttributes: queryFlag(url, "no_attributes", false),
+    },
+    url.searchParams.get("source") !== "replica",
+  );
+  return json(result.data, { headers: { "X-History-Source": result.source } });
+};
+
+/**
+ * Returns the stub of the Durable Object that owns the shared Home Assistant WebSocket connection.
+ * @param {Env} env - The environment bindings.
+ * @returns {DurableObjectStub} The `ha-core` Durable Object stub.
+ */
+const haWebsocketStub = (env: Env): DurableObjectStub => env.HA_WEBSOCKET_DO.get(env.HA_WEBSOCKET_DO.idFromName("ha-core"));
+
+/**
+ * Reads the integer `:id` parameter of a route.
+ * @param {Parameters<Handler>[0]} request - The request.
+ * @returns {number | null} The ID, or null if it is not an integer.
+ */
+const idParam = (request: Parameters<Handler>[0]): number | null => {
+  const id = Number(request.params?.id);
+  return Number.isInteger(id) ? id : null;
+};
+
 /**
  * GET /api/status
  * Provides a health check of the worker and its connected services.
@@ -126,13 +231,14 @@ router.get(
   "/api/status",
   withAuth(async (request, env) => {
     const haClient = new HomeAssistantClient(env);
-    const id = env.HA_WEBSOCKET_DO.idFromName("ha-core");
-    const stub = env.HA_WEBSOCKET_DO.get(id);
+    const stub = haWebsocketStub(env);
 
-    const [haResponse, doResponse, entityProfileCount] = await Promise.all([
+    const [haResponse, doResponse, entityProfileCount, recorderCursor, models] = await Promise.all([
       haClient.rest("/api/"),
       stub.fetch("https://do/status").then((resp) => resp.json().catch(() => ({ connected: false }))),
       env.CONFIG_DB.prepare("SELECT COUNT(*) as count FROM entity_profiles").first<{ count: number }>(),
+      new RecorderIngestor(env).readCursor().catch(() => null),
+      new ModelRegistry(env).status(),
     ]);
 
     return json({
@@ -141,6 +247,8 @@ router.get(
       config: {
         entityProfiles: entityProfileCount?.count ?? 0,
       },
+      recorder: recorderCursor,
+      models,
       cronSchedule: env.CRON_SCHEDULE,
     });
   }),
@@ -201,9 +309,7 @@ router.all(
 router.get(
   "/api/ha/websocket",
   withAuth(async (request, env) => {
-    const id = env.HA_WEBSOCKET_DO.idFromName("ha-core");
-    const stub = env.HA_WEBSOCKET_DO.get(id);
-    const response = await stub.fetch("https://do/connect");
+    const response = await haWebsocketStub(env).fetch("https://do/connect");
     const socket = response.webSocket;
     if (!socket) {
       return new Response("Failed to establish websocket", { status: 500 });
@@ -214,14 +320,245 @@ router.get(
 
 /**
  * POST /api/agent/chat
- * Main endpoint for interacting with the AI agent.
+ * Main endpoint for interacting with the AI agent. Send `Accept: text/event-stream` to stream the reply.
  */
 router.post(
   "/api/agent/chat",
   withAuth(async (request, env) => {
     const payload = await request.json().catch(() => ({}));
     const agent = new HassAgent(env);
-    return agent.chat(payload);
+    const stream = request.headers.get("accept")?.includes("text/event-stream") ?? false;
+    return agent.chat(payload, { stream });
+  }),
+);
+
+/**
+ * POST /api/agent/voice
+ * Transcribes spoken audio, answers it with the agent and returns the reply as text and MP3 audio (base64).
+ * Send the recording as the raw body with options in the query string, or as the `audio` field of a multipart form
+ * with options as further fields. Options are `sessionId`, `instructions`, `routing`, `model` and `language`.
+ */
+router.post(
+  "/api/agent/voice",
+  withAuth(async (request, env) => {
+    const fields: Record<string, string> = Object.fromEntries(new URL(request.url).searchParams.entries());
+    let audio: ArrayBuffer | null = null;
+    if ((request.headers.get("content-type") ?? "").startsWith("multipart/form-data")) {
+      const form = await request.formData();
+      for (const [key, value] of form.entries()) {
+        if (typeof value === "string") {
+          fields[key] = value;
+        } else if (key === "audio") {
+          audio = await value.arrayBuffer();
+        }
+      }
+    } else {
+      audio = await request.arrayBuffer();
+    }
+
+    const VoiceOptionsSchema = z.object({
+      sessionId: z.string().optional(),
+      instructions: z.string().optional(),
+      routing: z.enum(["llm", "ha_first"]).optional(),
+      model: z.string().optional(),
+      language: z.string().length(2).optional(),
+    });
+    const parsed = VoiceOptionsSchema.safeParse(fields);
+    if (!parsed.success) {
+      return json({ error: "Invalid payload", issues: parsed.error.format() }, { status: 400 });
+    }
+    if (!audio || audio.byteLength === 0) {
+      return json({ error: "Audio not provided" }, { status: 400 });
+    }
+    if (audio.byteLength > MAX_AUDIO_BYTES) {
+      return json({ error: `Audio exceeds ${MAX_AUDIO_BYTES} bytes` }, { status: 413 });
+    }
+
+    const { language, ...options } = parsed.data;
+    const voice = new VoicePipeline(env);
+    const transcript = await voice.transcribe(audio, language);
+    if (!transcript) {
+      return json({ error: "No speech detected" }, { status: 422 });
+    }
+
+    // Voice goes through the same chat handling as text, so sessions, memories and routing behave identically.
+    const chatResponse = await new HassAgent(env).chat({ ...options, prompt: transcript, context: { source: "voice" } });
+    if (!chatResponse.ok) {
+      return chatResponse;
+    }
+    const reply = (await chatResponse.json()) as { message: string } & Record<string, unknown>;
+    const speech = reply.message ? await voice.synthesize(reply.message, language) : null;
+
+    return json({ transcript, ...reply, audio: speech?.audio ?? null, contentType: speech?.contentType ?? null });
+  }),
+);
+
+/**
+ * POST /api/tts
+ * Synthesizes speech and returns it as MP3 audio (base64). With `entity_id`, the audio is also played on those
+ * media players via `media_player.play_media`, subject to the action policy.
+ */
+router.post(
+  "/api/tts",
+  withAuth(async (request, env) => {
+    const TtsPayloadSchema = z.object({
+      text: z.string().min(1),
+      language: z.string().length(2).optional(),
+      entity_id: z.union([z.string(), z.array(z.string()).min(1)]).optional(),
+    });
+    const parsed = TtsPayloadSchema.safeParse(await request.json().catch(() => ({})));
+    if (!parsed.success) {
+      return json({ error: "Invalid payload", issues: parsed.error.format() }, { status: 400 });
+    }
+
+    const { text, language, entity_id: entityId } = parsed.data;
+    const voice = new VoicePipeline(env);
+    if (!entityId) {
+      return json(await voice.synthesize(text, language));
+    }
+    const announcement = await voice.speak(entityId, text, { baseUrl: new URL(request.url).origin, language });
+    const { mediaPlayer } = announcement;
+    if (mediaPlayer.status === "denied") {
+      return json(announcement, { status: 403 });
+    }
+    if (mediaPlayer.status === "pending_confirmation") {
+      return json(announcement, { status: 202 });
+    }
+    return json(announcement, { status: mediaPlayer.response.status >= 400 ? 502 : 200 });
+  }),
+);
+
+/**
+ * GET /api/tts/audio/:id
+ * Serves audio published by `/api/tts` to media players. It is unauthenticated because media players cannot send
+ * the API key; the random ID acts as the credential and expires after ten minutes.
+ */
+router.get("/api/tts/audio/:id", async (request, env) => {
+  const audioId = (request.params?.id ?? "").replace(/\.mp3$/, "");
+  const audio = await new VoicePipeline(env).published(audioId);
+  if (!audio) {
+    return new Response("Not found", { status: 404 });
+  }
+  return new Response(audio, { headers: { "Content-Type": "audio/mpeg", "Cache-Control": "no-store" } });
+});
+
+/**
+ * POST /v1/chat/completions
+ * OpenAI-compatible chat completions backed by the agent, for off-the-shelf chat clients and Home Assistant's
+ * OpenAI conversation integration. Authenticate with `Authorization: Bearer <WORKER_API_KEY>`.
+ */
+router.post(
+  "/v1/chat/completions",
+  withAuth(async (request, env) => {
+    const payload = await request.json().catch(() => ({}));
+    return new OpenAICompatibility(env).completions(payload);
+  }),
+);
+
+/**
+ * GET /v1/models
+ * Lists the models accepted by `/v1/chat/completions`.
+ */
+router.get(
+  "/v1/models",
+  withAuth(async (_request, env) => new OpenAICompatibility(env).models()),
+);
+
+/**
+ * POST /api/agent/confirm/:token
+ * Carries out a service call that the action policy held for confirmation.
+ */
+router.post(
+  "/api/agent/confirm/:token",
+  withAuth(async (request, env) => {
+    const token = request.params?.token;
+    if (!token) {
+      return json({ error: "token parameter is required" }, { status: 400 });
+    }
+
+    const result = await new ActionPolicy(env).confirm(token);
+    switch (result.status) {
+      case "not_found":
+        return json({ error: "Pending action not found" }, { status: 404 });
+      case "expired":
+        return json({ error: "Pending action has expired" }, { status: 410 });
+      case "already_confirmed":
+        return json({ error: "Pending action was already confirmed" }, { status: 409 });
+      case "denied":
+        return json({ error: result.reason }, { status: 403 });
+      default:
+        return json(result);
+    }
+  }),
+);
+
+/**
+ * GET /api/agent/policies
+ * Lists the action policies applied to agent and automation service calls.
+ */
+router.get(
+  "/api/agent/policies",
+  withAuth(async (request, env) => {
+    return json({ policies: await new ActionPolicy(env).listPolicies() });
+  }),
+);
+
+/**
+ * POST /api/agent/policies
+ * Creates an action policy that allows, denies or requires confirmation for matching service calls.
+ */
+router.post(
+  "/api/agent/policies",
+  withAuth(async (request, env) => {
+    const TimeOfDay = z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, "Expected HH:MM");
+    const ActionPolicySchema = z.object({
+      name: z.string().min(1),
+      domain: z.string().min(1).default("*"),
+      service: z.string().min(1).default("*"),
+      entity: z.string().min(1).default("*"),
+      effect: z.enum(["allow", "deny", "confirm"]),
+      active_from: TimeOfDay.nullable().default(null),
+      active_until: TimeOfDay.nullable().default(null),
+      priority: z.number().int().default(0),
+      enabled: z.boolean().default(true),
+    });
+
+    const parsed = ActionPolicySchema.safeParse(await request.json().catch(() => ({})));
+    if (!parsed.success) {
+      return json({ error: "Invalid payload", issues: parsed.error.format() }, { status: 400 });
+    }
+
+    const id = await new ActionPolicy(env).createPolicy({
+      name: parsed.data.name,
+      domainGlob: parsed.data.domain,
+      serviceGlob: parsed.data.service,
+      entityGlob: parsed.data.entity,
+      effect: parsed.data.effect,
+      activeFrom: parsed.data.active_from,
+      activeUntil: parsed.data.active_until,
+      priority: parsed.data.priority,
+      enabled: parsed.data.enabled,
+    });
+    return json({ success: true, id }, { status: 201 });
+  }),
+);
+
+/**
+ * DELETE /api/agent/policies/:id
+ * Deletes an action policy.
+ */
+router.delete(
+  "/api/agent/policies/:id",
+  withAuth(async (request, env) => {
+    const id = Number(request.params?.id);
+    if (!Number.isInteger(id)) {
+      return json({ error: "id parameter must be an integer" }, { status: 400 });
+    }
+
+    if (!(await new ActionPolicy(env).deletePolicy(id))) {
+      return json({ error: "Action policy not found" }, { status: 404 });
+    }
+    return json({ success: true });
   }),
 );
 
@@ -233,12 +570,73 @@ router.get(
   "/api/entities",
   withAuth(async (request, env) => {
     const { results } = await env.CONFIG_DB.prepare(
-      "SELECT entity_id, nickname, room, preferred_actions AS preferredActions, metadata FROM entity_profiles",
+      "SELECT entity_id, nickname, room, aliases, preferred_actions AS preferredActions, metadata FROM entity_profiles",
     ).all();
     return json({ entities: results });
   }),
 );
 
+/**
+ * GET /api/entities/resolve
+ * Resolves a spoken name (`q`) to entities using nicknames, aliases, rooms, friendly names and the area registry.
+ * Ambiguous or unknown names return a clarifying question instead of matches. Supports an optional `domain` filter.
+ */
+router.get(
+  "/api/entities/resolve",
+  withAuth(async (request, env) => {
+    const url = new URL(request.url);
+    const query = url.searchParams.get("q")?.trim();
+    if (!query) {
+      return json({ error: "q query parameter is required" }, { status: 400 });
+    }
+
+    const result = await new EntityResolver(env).resolve(query, { domain: url.searchParams.get("domain") ?? undefined });
+    return json(result);
+  }),
+);
+
+/**
+ * GET /api/states
+ * Serves current entity states from the Durable Object's state cache, joined with entity profiles.
+ * Supports `domain`, `room` and repeated `entity_id` filters, and keeps answering while Home Assistant is offline.
+ */
+router.get(
+  "/api/states",
+  withAuth(async (request, env) => {
+    const url = new URL(request.url);
+    const room = url.searchParams.get("room")?.toLowerCase();
+
+    const { results: profiles } = await env.CONFIG_DB.prepare(
+      "SELECT entity_id, nickname, room FROM entity_profiles",
+    ).all<{ entity_id: string; nickname: string | null; room: string | null }>();
+    const profilesById = new Map(profiles.map((profile) => [profile.entity_id, profile]));
+
+    const query = new URLSearchParams();
+    const domain = url.searchParams.get("domain");
+    if (domain) query.set("domain", domain);
+    const entityIds = room
+      ? profiles.filter((profile) => profile.room?.toLowerCase() === room).map((profile) => profile.entity_id)
+      : url.searchParams.getAll("entity_id");
+    for (const entityId of entityIds) {
+      query.append("entity_id", entityId);
+    }
+    if (room && entityIds.length === 0) {
+      return json({ states: [], stale: false, room });
+    }
+
+    const response = await haWebsocketStub(env).fetch(`https://do/states?${query}`);
+    const snapshot = (await response.json()) as { states: Array<{ entity_id: string }> } & Record<string, unknown>;
+
+    return json({
+      ...snapshot,
+      states: snapshot.states.map((state) => {
+        const profile = profilesById.get(state.entity_id);
+        return { ...state, profile: profile ? { nickname: profile.nickname, room: profile.room } : null };
+      }),
+    });
+  }),
+);
+
 /**
  * POST /api/entities
  * Creates or updates one or more entity profiles in the database.
@@ -249,10 +647,10 @@ router.post(
     const payload = await request.json();
     const entities = Array.isArray(payload) ? payload : [payload];
     const stmt = env.CONFIG_DB.prepare(
-      `INSERT INTO entity_profiles(entity_id, nickname, room, preferred_actions, metadata)
-       VALUES (?1, ?2, ?3, json(?4), json(?5))
+      `INSERT INTO entity_profiles(entity_id, nickname, room, preferred_actions, metadata, aliases)
+       VALUES (?1, ?2, ?3, json(?4), json(?5), json(?6))
        ON CONFLICT(entity_id) DO UPDATE SET nickname = excluded.nickname, room = excluded.room,
-       preferred_actions = excluded.preferred_actions, metadata = excluded.metadata`,
+       preferred_actions = excluded.preferred_actions, metadata = excluded.metadata, aliases = excluded.aliases`,
     );
 
     for (const entity of entities) {
@@ -263,6 +661,7 @@ router.post(
           entity.room ?? null,
           JSON.stringify(entity.preferred_actions ?? []),
           JSON.stringify(entity.metadata ?? {}),
+          JSON.stringify(entity.aliases ?? []),
         )
         .run();
     }
@@ -271,6 +670,242 @@ router.post(
   }),
 );
 
+/**
+ * GET /api/history/period/:start?
+ * Home Assistant compatible history endpoint over the recorder replica, filtered by `filter_entity_id`.
+ */
+router.get(
+  "/api/history/period/:start?",
+  withAuth(async (request, env) => {
+    const url = new URL(request.url);
+    const entityIds = (url.searchParams.get("filter_entity_id") ?? "").split(",").filter(Boolean);
+    return historyResponse(env, url, entityIds, request.params?.start);
+  }),
+);
+
+/**
+ * GET /api/history/:entityId
+ * Returns the history of one entity (or a comma-separated list) over the recorder replica.
+ * Supports `start`, `end`, `minimal_response`, `significant_changes_only`, `no_attributes` and `source=replica`.
+ */
+router.get(
+  "/api/history/:entityId",
+  withAuth(async (request, env) => {
+    const url = new URL(request.url);
+    const entityIds = (request.params?.entityId ?? "").split(",").filter(Boolean);
+    return historyResponse(env, url, entityIds);
+  }),
+);
+
+/**
+ * GET /api/logbook/:start?
+ * Returns logbook entries over the recorder replica in Home Assistant's `/api/logbook` shape.
+ * Supports `start`, `end`, `entity` and `source=replica`.
+ */
+router.get(
+  "/api/logbook/:start?",
+  withAuth(async (request, env) => {
+    const url = new URL(request.url);
+    const timeWindow = parseTimeWindow(url, request.params?.start);
+    if (timeWindow instanceof Response) return timeWindow;
+
+    const result = await new RecorderHistory(env).logbook(
+      { ...timeWindow, entityId: url.searchParams.get("entity") ?? undefined },
+      url.searchParams.get("source") !== "replica",
+    );
+    return json(result.data, { headers: { "X-History-Source": result.source } });
+  }),
+);
+
+/**
+ * POST /api/recorder/statistics/compile
+ * Compiles long-term statistics now: pending periods by default, or a `{ start, end }` window to recompile.
+ */
+router.post(
+  "/api/recorder/statistics/compile",
+  withAuth(async (request, env) => {
+    const CompilePayloadSchema = z.object({
+      start: z.string().datetime({ offset: true }).optional(),
+      end: z.string().datetime({ offset: true }).optional(),
+    });
+
+    const parsed = CompilePayloadSchema.safeParse(await request.json().catch(() => ({})));
+    if (!parsed.success) {
+      return json({ error: "Invalid payload", issues: parsed.error.format() }, { status: 400 });
+    }
+
+    const compiler = new StatisticsCompiler(env);
+    const { start, end } = parsed.data;
+    if (!start) {
+      return json(await compiler.compilePending());
+    }
+    return json(await compiler.compileRange(new Date(start), end ? new Date(end) : new Date()));
+  }),
+);
+
+/**
+ * POST /api/recorder/purge
+ * Purges the recorder replica like Home Assistant's `recorder.purge` (`keep_days`) and `recorder.purge_entities`
+ * (`entity_globs`). Without overrides the stored retention policies apply; `dry_run` only reports row counts.
+ */
+router.post(
+  "/api/recorder/purge",
+  withAuth(async (request, env) => {
+    const PurgePayloadSchema = z.object({
+      keep_days: z.number().int().min(0).optional(),
+      entity_globs: z.array(z.string().min(1)).optional(),
+      dry_run: z.boolean().optional(),
+      max_batches: z.number().int().positive().max(100).optional(),
+    });
+
+    const parsed = PurgePayloadSchema.safeParse(await request.json().catch(() => ({})));
+    if (!parsed.success) {
+      return json({ error: "Invalid payload", issues: parsed.error.format() }, { status: 400 });
+    }
+
+    const report = await new RecorderPurger(env).purge({
+      keepDays: parsed.data.keep_days,
+      entityGlobs: parsed.data.entity_globs,
+      dryRun: parsed.data.dry_run,
+      maxBatches: parsed.data.max_batches,
+    });
+    return json(report);
+  }),
+);
+
+/**
+ * POST /api/recorder/backfill
+ * Starts a job that backfills the replica from Home Assistant's history and statistics for a window and entity set,
+ * or resumes an unfinished job when given `{ job_id }`. The job keeps advancing on every cron trigger.
+ */
+router.post(
+  "/api/recorder/backfill",
+  withAuth(async (request, env, ctx) => {
+    const BackfillPayloadSchema = z.union([
+      z.object({ job_id: z.string().uuid() }),
+      z.object({
+        entity_ids: z.array(z.string().regex(/^[a-z0-9_]+\.[a-z0-9_]+$/)).min(1).max(50),
+        start: z.string().datetime({ offset: true }),
+        end: z.string().datetime({ offset: true }).optional(),
+        chunk_hours: z.number().int().min(1).max(24).optional(),
+        statistics: z.boolean().optional(),
+      }),
+    ]);
+
+    const parsed = BackfillPayloadSchema.safeParse(await request.json().catch(() => ({})));
+    if (!parsed.success) {
+      return json({ error: "Invalid payload", issues: parsed.error.format() }, { status: 400 });
+    }
+
+    const backfill = new RecorderBackfill(env);
+    let job: BackfillJob | null;
+    if ("job_id" in parsed.data) {
+      job = await backfill.get(parsed.data.job_id);
+      if (!job) {
+        return json({ error: "Backfill job not found" }, { status: 404 });
+      }
+    } else {
+      const start = new Date(parsed.data.start);
+      const end = parsed.data.end ? new Date(parsed.data.end) : new Date();
+      if (end <= start) {
+        return json({ error: "end must be after start" }, { status: 400 });
+      }
+      job = await backfill.create({
+        entityIds: parsed.data.entity_ids,
+        start,
+        end,
+        chunkHours: parsed.data.chunk_hours,
+        includeStatistics: parsed.data.statistics,
+      });
+    }
+
+    if (job.status !== "completed") {
+      ctx.waitUntil(backfill.run(job.jobId));
+    }
+    return json(job, { status: 202 });
+  }),
+);
+
+/**
+ * GET /api/recorder/backfill/:jobId
+ * Reports the progress of a backfill job.
+ */
+router.get(
+  "/api/recorder/backfill/:jobId",
+  withAuth(async (request, env) => {
+    const jobId = request.params?.jobId;
+    if (!jobId) {
+      return json({ error: "jobId parameter is required" }, { status: 400 });
+    }
+
+    const job = await new RecorderBackfill(env).get(jobId);
+    if (!job) {
+      return json({ error: "Backfill job not found" }, { status: 404 });
+    }
+    return json(job);
+  }),
+);
+
+/**
+ * GET /api/recorder/retention
+ * Lists the recorder retention policies.
+ */
+router.get(
+  "/api/recorder/retention",
+  withAuth(async (request, env) => {
+    return json({ policies: await new RecorderPurger(env).listPolicies() });
+  }),
+);
+
+/**
+ * POST /api/recorder/retention
+ * Creates or updates the retention policy for a table and entity glob. A null `keep_days` keeps rows forever.
+ */
+router.post(
+  "/api/recorder/retention",
+  withAuth(async (request, env) => {
+    const RetentionPolicySchema = z.object({
+      table: z.enum(RETENTION_TABLES),
+      entity_glob: z.string().min(1).default("*"),
+      keep_days: z.number().int().min(0).nullable(),
+      enabled: z.boolean().default(true),
+    });
+
+    const parsed = RetentionPolicySchema.safeParse(await request.json().catch(() => ({})));
+    if (!parsed.success) {
+      return json({ error: "Invalid payload", issues: parsed.error.format() }, { status: 400 });
+    }
+
+    const purger = new RecorderPurger(env);
+    await purger.savePolicy({
+      table: parsed.data.table,
+      entityGlob: parsed.data.entity_glob,
+      keepDays: parsed.data.keep_days,
+      enabled: parsed.data.enabled,
+    });
+    return json({ policies: await purger.listPolicies() });
+  }),
+);
+
+/**
+ * DELETE /api/recorder/retention/:id
+ * Deletes a recorder retention policy.
+ */
+router.delete(
+  "/api/recorder/retention/:id",
+  withAuth(async (request, env) => {
+    const id = Number(request.params?.id);
+    if (!Number.isInteger(id)) {
+      return json({ error: "id parameter must be an integer" }, { status: 400 });
+    }
+
+    if (!(await new RecorderPurger(env).deletePolicy(id))) {
+      return json({ error: "Retention policy not found" }, { status: 404 });
+    }
+    return json({ success: true });
+  }),
+);
+
 /**
  * GET /api/energy/summary
  * Retrieves a summary of recent energy statistics from the recorder database.
@@ -421,7 +1056,8 @@ router.get(
 
 /**
  * POST /api/security/camera/:entityId/analyze
- * Fetches a camera image and sends it to a vision AI model for analysis.
+ * Fetches a camera image and sends it to a vision AI model for analysis. `model` overrides `VISION_MODEL` with
+ * one of the allowed vision models.
  */
 router.post(
   "/api/security/camera/:entityId/analyze",
@@ -431,69 +1067,283 @@ router.post(
       return new Response("Entity not provided", { status: 400 });
     }
 
-    const payload = (await request.json().catch(() => ({ prompt: "Analyze scene" }))) as Partial<{
+    const payload = (await request.json().catch(() => ({ prompt: DEFAULT_CAMERA_PROMPT }))) as Partial<{
       prompt: string;
       metadata: Record<string, unknown>;
+      model: string;
     }>;
-    const prompt = payload.prompt ?? "Analyze scene";
-    const metadata = payload.metadata;
-    const haClient = new HomeAssistantClient(env);
-    const imageResponse = await haClient.streamCamera(entityId);
-    const buffer = await imageResponse.arrayBuffer();
-    const base64 = btoa(String.fromCharCode(...new Uint8Array(buffer)));
-
-    const result = await env.AI.run("@cf/unum/uform-gen2-qwen-500m", {
-      prompt,
-      image: [{ data: base64, mime: imageResponse.headers.get("Content-Type") ?? "image/jpeg" }],
-      metadata,
-    });
+    const models = new ModelRegistry(env);
+    if (payload.model && !models.isAllowed("vision", payload.model)) {
+      return json({ error: `Model ${payload.model} is not allowed`, allowed: models.allowed("vision") }, { status: 400 });
+    }
+
+    const { result, model } = await new CameraAnalyzer(env).analyze(entityId, payload);
+    return json({ result, entityId, model });
+  }),
+);
+
+/**
+ * Responds with the outcome of installing, updating or uninstalling a blueprint automation: 400 for invalid inputs,
+ * 403 when an action policy blocks one of its actions, 409 when one needs confirmation and the install did not
+ * confirm it, and 502 when Home Assistant rejects the automation.
+ * @param {InstallResult} result - The outcome.
+ * @param {number} [successStatus=200] - The status of a successful outcome.
+ * @returns {Response} The response.
+ */
+const installResponse = (result: InstallResult, successStatus = 200): Response => {
+  if (result.status === "invalid") {
+    return json({ error: "Invalid inputs", issues: result.issues }, { status: 400 });
+  }
+  if (result.status === "denied") {
+    return json({ error: "Blocked by an action policy", reasons: result.reasons }, { status: 403 });
+  }
+  if (result.status === "confirmation_required") {
+    return json(
+      { error: "Action policies require confirmation; install again with confirm set to true", reasons: result.reasons },
+      { status: 409 },
+    );
+  }
+  if (result.status === "rejected") {
+    return json({ error: "Home Assistant rejected the automation", response: result.response }, { status: 502 });
+  }
+  return json(result, { status: successStatus });
+};
 
-    return json({ result, entityId });
+/**
+ * GET /api/automations
+ * Lists the automation blueprints.
+ */
+router.get(
+  "/api/automations",
+  withAuth(async (request, env) => {
+    return json({ blueprints: await new AutomationBlueprints(env).list() });
   }),
 );
 
 /**
  * POST /api/automations
- * Creates a new automation blueprint in the configuration database.
+ * Creates an automation blueprint: an automation (`ha_payload`) with declared `inputs` that `{"!input": "name"}`
+ * references are replaced with when it is installed.
  */
 router.post(
   "/api/automations",
   withAuth(async (request, env) => {
-    const payload = (await request.json()) as {
-      name: string;
-      description?: string;
-      ha_payload?: unknown;
-      worker_payload?: unknown;
-    };
-    const { name, description, ha_payload: haPayload, worker_payload: workerPayload } = payload;
-
-    await env.CONFIG_DB.prepare(
-      `INSERT INTO automation_blueprints(name, description, ha_payload, worker_payload)
-       VALUES (?1, ?2, json(?3), json(?4))`,
-    )
-      .bind(name, description ?? null, JSON.stringify(haPayload ?? {}), JSON.stringify(workerPayload ?? {}))
-      .run();
+    const parsed = BlueprintPayloadSchema.safeParse(await request.json().catch(() => ({})));
+    if (!parsed.success) {
+      return json({ error: "Invalid payload", issues: parsed.error.format() }, { status: 400 });
+    }
+
+    const blueprint = await new AutomationBlueprints(env).create(parsed.data);
+    return json({ success: true, blueprint }, { status: 201 });
+  }),
+);
+
+/**
+ * GET /api/automations/:id
+ * Retrieves a blueprint and the automations installed from it.
+ */
+router.get(
+  "/api/automations/:id",
+  withAuth(async (request, env) => {
+    const id = idParam(request);
+    if (id === null) {
+      return json({ error: "id parameter must be an integer" }, { status: 400 });
+    }
+
+    const blueprints = new AutomationBlueprints(env);
+    const blueprint = await blueprints.get(id);
+    if (!blueprint) {
+      return json({ error: "Blueprint not found" }, { status: 404 });
+    }
+    return json({ blueprint, instances: await blueprints.instances(id) });
+  }),
+);
+
+/**
+ * PUT /api/automations/:id
+ * Replaces a blueprint and reinstalls the automations installed from it with their stored inputs.
+ */
+router.put(
+  "/api/automations/:id",
+  withAuth(async (request, env) => {
+    const id = idParam(request);
+    if (id === null) {
+      return json({ error: "id parameter must be an integer" }, { status: 400 });
+    }
+    const parsed = BlueprintPayloadSchema.safeParse(await request.json().catch(() => ({})));
+    if (!parsed.success) {
+      return json({ error: "Invalid payload", issues: parsed.error.format() }, { status: 400 });
+    }
+
+    const updated = await new AutomationBlueprints(env).update(id, parsed.data);
+    if (!updated) {
+      return json({ error: "Blueprint not found" }, { status: 404 });
+    }
+    return json(updated);
+  }),
+);
+
+/**
+ * DELETE /api/automations/:id
+ * Deletes a blueprint. Blueprints with installed automations return 409 until those are uninstalled.
+ */
+router.delete(
+  "/api/automations/:id",
+  withAuth(async (request, env) => {
+    const id = idParam(request);
+    if (id === null) {
+      return json({ error: "id parameter must be an integer" }, { status: 400 });
+    }
+
+    const outcome = await new AutomationBlueprints(env).delete(id);
+    if (outcome === "not_found") {
+      return json({ error: "Blueprint not found" }, { status: 404 });
+    }
+    if (outcome === "in_use") {
+      return json({ error: "Uninstall the automations installed from this blueprint first" }, { status: 409 });
+    }
+    return json({ success: true });
+  }),
+);
+
+/**
+ * POST /api/automations/:id/render
+ * Validates inputs and returns the automation a blueprint would install, without installing it.
+ */
+router.post(
+  "/api/automations/:id/render",
+  withAuth(async (request, env) => {
+    const id = idParam(request);
+    if (id === null) {
+      return json({ error: "id parameter must be an integer" }, { status: 400 });
+    }
+    const parsed = BlueprintInstanceSchema.safeParse(await request.json().catch(() => ({})));
+    if (!parsed.success) {
+      return json({ error: "Invalid payload", issues: parsed.error.format() }, { status: 400 });
+    }
+
+    const blueprints = new AutomationBlueprints(env);
+    const blueprint = await blueprints.get(id);
+    if (!blueprint) {
+      return json({ error: "Blueprint not found" }, { status: 404 });
+    }
+    const rendered = blueprints.render(blueprint, parsed.data);
+    if (rendered.status === "invalid") {
+      return json({ error: "Invalid inputs", issues: rendered.issues }, { status: 400 });
+    }
+    return json(rendered);
+  }),
+);
+
+/**
+ * POST /api/automations/:id/instances
+ * Installs a new automation into Home Assistant from a blueprint.
+ */
+router.post(
+  "/api/automations/:id/instances",
+  withAuth(async (request, env) => {
+    const id = idParam(request);
+    if (id === null) {
+      return json({ error: "id parameter must be an integer" }, { status: 400 });
+    }
+    const parsed = BlueprintInstanceSchema.safeParse(await request.json().catch(() => ({})));
+    if (!parsed.success) {
+      return json({ error: "Invalid payload", issues: parsed.error.format() }, { status: 400 });
+    }
 
-    return json({ success: true }, { status: 201 });
+    const blueprints = new AutomationBlueprints(env);
+    const blueprint = await blueprints.get(id);
+    if (!blueprint) {
+      return json({ error: "Blueprint not found" }, { status: 404 });
+    }
+    return installResponse(await blueprints.install(blueprint, parsed.data), 201);
+  }),
+);
+
+/**
+ * PUT /api/automations/:id/instances/:automationId
+ * Updates an automation installed from a blueprint with new inputs.
+ */
+router.put(
+  "/api/automations/:id/instances/:automationId",
+  withAuth(async (request, env) => {
+    const id = idParam(request);
+    if (id === null) {
+      return json({ error: "id parameter must be an integer" }, { status: 400 });
+    }
+    const parsed = BlueprintInstanceSchema.safeParse(await request.json().catch(() => ({})));
+    if (!parsed.success) {
+      return json({ error: "Invalid payload", issues: parsed.error.format() }, { status: 400 });
+    }
+
+    const blueprints = new AutomationBlueprints(env);
+    const [blueprint, instance] = await Promise.all([
+      blueprints.get(id),
+      blueprints.instance(request.params?.automationId ?? ""),
+    ]);
+    if (!blueprint || instance?.blueprintId !== id) {
+      return json({ error: "Automation not found" }, { status: 404 });
+    }
+    return installResponse(await blueprints.install(blueprint, parsed.data, instance.automationId));
+  }),
+);
+
+/**
+ * DELETE /api/automations/:id/instances/:automationId
+ * Uninstalls an automation installed from a blueprint, deleting it from Home Assistant.
+ */
+router.delete(
+  "/api/automations/:id/instances/:automationId",
+  withAuth(async (request, env) => {
+    const id = idParam(request);
+    if (id === null) {
+      return json({ error: "id parameter must be an integer" }, { status: 400 });
+    }
+
+    const blueprints = new AutomationBlueprints(env);
+    const instance = await blueprints.instance(request.params?.automationId ?? "");
+    if (instance?.blueprintId !== id) {
+      return json({ error: "Automation not found" }, { status: 404 });
+    }
+    return installResponse(await blueprints.uninstall(instance));
   }),
 );
 
 /**
  * POST /api/automations/install
- * Installs or triggers an automation by calling a Home Assistant service.
+ * Installs or triggers an automation by calling a Home Assistant service, subject to the action policy:
+ * denied calls return 403 and calls that need confirmation return 202 with a token for `/api/agent/confirm/:token`.
  */
 router.post(
   "/api/automations/install",
   withAuth(async (request, env) => {
-    const payload = (await request.json()) as {
-      domain: string;
-      service: string;
-      data?: Record<string, unknown>;
-      persist?: boolean;
-    };
-    const { domain, service, data, persist } = payload;
-    const haClient = new HomeAssistantClient(env);
-    const response = await haClient.callService(domain, service, data ?? {});
+    const AutomationInstallSchema = z.object({
+      domain: z.string().regex(SERVICE_NAME_PATTERN),
+      service: z.string().regex(SERVICE_NAME_PATTERN),
+      data: z
+        .object({
+          entity_id: z
+            .union([z.string().regex(ENTITY_ID_PATTERN), z.array(z.string().regex(ENTITY_ID_PATTERN)).min(1)])
+            .optional(),
+        })
+        .passthrough()
+        .optional(),
+      persist: z.boolean().optional(),
+    });
+    const parsed = AutomationInstallSchema.safeParse(await request.json().catch(() => ({})));
+    if (!parsed.success) {
+      return json({ error: "Invalid payload", issues: parsed.error.format() }, { status: 400 });
+    }
+
+    const { domain, service, data, persist } = parsed.data;
+    const outcome = await new ActionPolicy(env).execute({ domain, service, data: data ?? {} }, "automation_install");
+    if (outcome.status === "denied") {
+      return json(outcome, { status: 403 });
+    }
+    if (outcome.status === "pending_confirmation") {
+      return json(outcome, { status: 202 });
+    }
+    const { response } = outcome;
 
     if (persist) {
       await env.CONFIG_DB.prepare(
@@ -508,6 +1358,182 @@ router.post(
   }),
 );
 
+/**
+ * Tells the Durable Object to reload the rules, so event triggers see changes immediately.
+ * @param {Env} env - The environment bindings.
+ * @returns {Promise<void>}
+ */
+const reloadRules = async (env: Env): Promise<void> => {
+  await haWebsocketStub(env)
+    .fetch("https://do/rules/reload", { method: "POST" })
+    .catch((error) => console.error("Failed to reload rules", error));
+};
+
+/**
+ * GET /api/rules
+ * Lists the rules executed by the rule engine, including disabled ones.
+ */
+router.get(
+  "/api/rules",
+  withAuth(async (request, env) => {
+    return json({ rules: await new RuleEngine(env).list() });
+  }),
+);
+
+/**
+ * POST /api/rules
+ * Creates a rule: a trigger (`state`, `numeric_state`, `time` or `event`), optional conditions, and the actions to
+ * run as `response_template`.
+ */
+router.post(
+  "/api/rules",
+  withAuth(async (request, env, ctx) => {
+    const parsed = RuleInputSchema.safeParse(await request.json().catch(() => ({})));
+    if (!parsed.success) {
+      return json({ error: "Invalid payload", issues: parsed.error.format() }, { status: 400 });
+    }
+
+    const rule = await new RuleEngine(env).create(parsed.data);
+    ctx.waitUntil(reloadRules(env));
+    return json({ rule }, { status: 201 });
+  }),
+);
+
+/**
+ * GET /api/rules/:id
+ * Retrieves a rule.
+ */
+router.get(
+  "/api/rules/:id",
+  withAuth(async (request, env) => {
+    const id = idParam(request);
+    if (id === null) {
+      return json({ error: "id parameter must be an integer" }, { status: 400 });
+    }
+
+    const rule = await new RuleEngine(env).get(id);
+    if (!rule) {
+      return json({ error: "Rule not found" }, { status: 404 });
+    }
+    return json({ rule });
+  }),
+);
+
+/**
+ * PUT /api/rules/:id
+ * Replaces a rule.
+ */
+router.put(
+  "/api/rules/:id",
+  withAuth(async (request, env, ctx) => {
+    const id = idParam(request);
+    if (id === null) {
+      return json({ error: "id parameter must be an integer" }, { status: 400 });
+    }
+    const parsed = RuleInputSchema.safeParse(await request.json().catch(() => ({})));
+    if (!parsed.success) {
+      return json({ error: "Invalid payload", issues: parsed.error.format() }, { status: 400 });
+    }
+
+    const rule = await new RuleEngine(env).replace(id, parsed.data);
+    if (!rule) {
+      return json({ error: "Rule not found" }, { status: 404 });
+    }
+    ctx.waitUntil(reloadRules(env));
+    return json({ rule });
+  }),
+);
+
+/**
+ * DELETE /api/rules/:id
+ * Deletes a rule and its execution history.
+ */
+router.delete(
+  "/api/rules/:id",
+  withAuth(async (request, env, ctx) => {
+    const id = idParam(request);
+    if (id === null) {
+      return json({ error: "id parameter must be an integer" }, { status: 400 });
+    }
+
+    if (!(await new RuleEngine(env).delete(id))) {
+      return json({ error: "Rule not found" }, { status: 404 });
+    }
+    ctx.waitUntil(reloadRules(env));
+    return json({ success: true });
+  }),
+);
+
+/**
+ * POST /api/rules/:id/enable and POST /api/rules/:id/disable
+ * Enables or disables a rule without changing it.
+ */
+for (const action of ["enable", "disable"] as const) {
+  router.post(
+    `/api/rules/:id/${action}`,
+    withAuth(async (request, env, ctx) => {
+      const id = idParam(request);
+      if (id === null) {
+        return json({ error: "id parameter must be an integer" }, { status: 400 });
+      }
+
+      const rule = await new RuleEngine(env).setEnabled(id, action === "enable");
+      if (!rule) {
+        return json({ error: "Rule not found" }, { status: 404 });
+      }
+      ctx.waitUntil(reloadRules(env));
+      return json({ rule });
+    }),
+  );
+}
+
+/**
+ * GET /api/rules/:id/history
+ * Lists a rule's most recent executions, newest first, including runs skipped because a condition did not hold.
+ */
+router.get(
+  "/api/rules/:id/history",
+  withAuth(async (request, env) => {
+    const id = idParam(request);
+    if (id === null) {
+      return json({ error: "id parameter must be an integer" }, { status: 400 });
+    }
+    const limit = Number(new URL(request.url).searchParams.get("limit") ?? 50);
+    if (!Number.isInteger(limit) || limit < 1 || limit > 500) {
+      return json({ error: "limit must be an integer between 1 and 500" }, { status: 400 });
+    }
+
+    const engine = new RuleEngine(env);
+    if (!(await engine.get(id))) {
+      return json({ error: "Rule not found" }, { status: 404 });
+    }
+    return json({ executions: await engine.history(id, limit) });
+  }),
+);
+
+/**
+ * POST /api/rules/:id/run
+ * Runs a rule's actions now, ignoring its trigger and conditions, and returns the logged execution. An optional
+ * JSON body supplies the `trigger` variables the template is rendered with.
+ */
+router.post(
+  "/api/rules/:id/run",
+  withAuth(async (request, env) => {
+    const id = idParam(request);
+    if (id === null) {
+      return json({ error: "id parameter must be an integer" }, { status: 400 });
+    }
+    const body = (await request.json().catch(() => ({}))) as { trigger?: Record<string, unknown> };
+
+    const engine = new RuleEngine(env);
+    const rule = await engine.get(id);
+    if (!rule) {
+      return json({ error: "Rule not found" }, { status: 404 });
+    }
+    return json({ execution: await engine.run(rule, { platform: "manual", ...body.trigger }) });
+  }),
+);
+
 /**
  * POST /api/hooks/trigger
  * A webhook receiver to ingest external events, secured by a query parameter secret.
@@ -529,13 +1555,23 @@ router.post("/api/hooks/trigger", async (request, env, ctx) => {
       .bind(eventType, JSON.stringify(payload))
       .run(),
   );
+  // Webhook events never reach Home Assistant's event bus, so event rules are evaluated here.
+  ctx.waitUntil(
+    new RuleEngine(env)
+      .handleEvent(
+        { event_type: eventType, data: payload, origin: "worker", time_fired: new Date().toISOString() },
+        remoteStateLookup(env),
+      )
+      .catch((error) => console.error("Failed to evaluate rules", error)),
+  );
 
   return json({ received: true });
 });
 
 /**
  * GET /api/agent/memories/:sessionId
- * Retrieves the conversation history for a specific agent session.
+ * Retrieves a page of the transcript of a specific agent session, oldest turn first. Pass the returned
+ * `nextCursor` as `cursor` to continue.
  */
 router.get(
   "/api/agent/memories/:sessionId",
@@ -544,8 +1580,479 @@ router.get(
     if (!sessionId) {
       return new Response("Session not provided", { status: 400 });
     }
-    const memories = await env.MEMORY_KV.get<unknown[]>(`memory:${sessionId}`, { type: "json" });
-    return json({ sessionId, memories: memories ?? [] });
+    const url = new URL(request.url);
+    const cursor = url.searchParams.get("cursor");
+    const limit = url.searchParams.get("limit");
+    if ((cursor !== null && !/^\d+$/.test(cursor)) || (limit !== null && !/^\d+$/.test(limit))) {
+      return json({ error: "cursor and limit must be integers" }, { status: 400 });
+    }
+
+    const page = await new ConversationStore(env).page(sessionId, {
+      cursor: cursor === null ? undefined : Number(cursor),
+      limit: limit === null ? undefined : Number(limit),
+    });
+    return json({ sessionId, ...page });
+  }),
+);
+
+/**
+ * DELETE /api/agent/memories/:sessionId
+ * Deletes the transcript of a specific agent session. Long-term memories are managed separately.
+ */
+router.delete(
+  "/api/agent/memories/:sessionId",
+  withAuth(async (request, env) => {
+    const sessionId = request.params?.sessionId;
+    if (!sessionId) {
+      return new Response("Session not provided", { status: 400 });
+    }
+    const deleted = await new ConversationStore(env).delete(sessionId);
+    return json({ sessionId, deleted });
+  }),
+);
+
+/**
+ * POST /api/agent/memories/:sessionId/summarize
+ * Distills a session's older exchanges into long-term facts now instead of waiting for the cron trigger.
+ */
+router.post(
+  "/api/agent/memories/:sessionId/summarize",
+  withAuth(async (request, env) => {
+    const sessionId = request.params?.sessionId;
+    if (!sessionId) {
+      return new Response("Session not provided", { status: 400 });
+    }
+    const stored = await new LongTermMemory(env).summarize(sessionId);
+    return json({ sessionId, stored });
+  }),
+);
+
+/**
+ * GET /api/agent/long-term-memories
+ * Lists long-term memories. `sessionId` returns that session's facts together with the household's; `scope`
+ * restricts the list to `session` or `household` facts.
+ */
+router.get(
+  "/api/agent/long-term-memories",
+  withAuth(async (request, env) => {
+    const url = new URL(request.url);
+    const scope = url.searchParams.get("scope");
+    if (scope !== null && scope !== "session" && scope !== "household") {
+      return json({ error: "scope must be session or household" }, { status: 400 });
+    }
+    const memories = await new LongTermMemory(env).list({
+      sessionId: url.searchParams.get("sessionId") ?? undefined,
+      scope: scope ?? undefined,
+    });
+    return json({ memories });
+  }),
+);
+
+/**
+ * POST /api/agent/long-term-memories
+ * Stores a fact for a session, or for the whole household when no session is given.
+ */
+router.post(
+  "/api/agent/long-term-memories",
+  withAuth(async (request, env) => {
+    const MemorySchema = z.object({
+      content: z.string().min(1),
+      session_id: z.string().min(1).optional(),
+    });
+    const parsed = MemorySchema.safeParse(await request.json().catch(() => ({})));
+    if (!parsed.success) {
+      return json({ error: "Invalid payload", issues: parsed.error.format() }, { status: 400 });
+    }
+
+    const memory = await new LongTermMemory(env).remember(parsed.data.content, parsed.data.session_id ?? null);
+    return json(memory, { status: 201 });
+  }),
+);
+
+/**
+ * PATCH /api/agent/long-term-memories/:id
+ * Rewrites a long-term memory's content.
+ */
+router.patch(
+  "/api/agent/long-term-memories/:id",
+  withAuth(async (request, env) => {
+    const id = request.params?.id;
+    if (!id) {
+      return new Response("Memory not provided", { status: 400 });
+    }
+    const parsed = z
+      .object({ content: z.string().min(1) })
+      .safeParse(await request.json().catch(() => ({})));
+    if (!parsed.success) {
+      return json({ error: "Invalid payload", issues: parsed.error.format() }, { status: 400 });
+    }
+
+    const memory = await new LongTermMemory(env).update(id, parsed.data.content);
+    if (!memory) {
+      return json({ error: "Memory not found" }, { status: 404 });
+    }
+    return json(memory);
+  }),
+);
+
+/**
+ * DELETE /api/agent/long-term-memories/:id
+ * Deletes a long-term memory.
+ */
+router.delete(
+  "/api/agent/long-term-memories/:id",
+  withAuth(async (request, env) => {
+    const id = request.params?.id;
+    if (!id) {
+      return new Response("Memory not provided", { status: 400 });
+    }
+    if (!(await new LongTermMemory(env).delete(id))) {
+      return json({ error: "Memory not found" }, { status: 404 });
+    }
+    return json({ success: true });
+  }),
+);
+
+/**
+ * GET /api/cron
+ * Lists the cron jobs, including disabled ones, and the tasks they can run.
+ */
+router.get(
+  "/api/cron",
+  withAuth(async (request, env) => {
+    return json({ jobs: await new CronScheduler(env).list(), tasks: CRON_TASK_NAMES });
+  }),
+);
+
+/**
+ * POST /api/cron
+ * Creates a cron job that runs a registered task on a cron expression in the home's time zone.
+ */
+router.post(
+  "/api/cron",
+  withAuth(async (request, env) => {
+    const parsed = CronJobInputSchema.safeParse(await request.json().catch(() => ({})));
+    if (!parsed.success) {
+      return json({ error: "Invalid payload", issues: parsed.error.format() }, { status: 400 });
+    }
+
+    return json({ job: await new CronScheduler(env).create(parsed.data) }, { status: 201 });
+  }),
+);
+
+/**
+ * GET /api/cron/:id
+ * Retrieves a cron job and its most recent runs.
+ */
+router.get(
+  "/api/cron/:id",
+  withAuth(async (request, env) => {
+    const id = idParam(request);
+    if (id === null) {
+      return json({ error: "id parameter must be an integer" }, { status: 400 });
+    }
+
+    const scheduler = new CronScheduler(env);
+    const job = await scheduler.get(id);
+    if (!job) {
+      return json({ error: "Cron job not found" }, { status: 404 });
+    }
+    return json({ job, runs: await scheduler.runs(id) });
+  }),
+);
+
+/**
+ * PUT /api/cron/:id
+ * Replaces a cron job.
+ */
+router.put(
+  "/api/cron/:id",
+  withAuth(async (request, env) => {
+    const id = idParam(request);
+    if (id === null) {
+      return json({ error: "id parameter must be an integer" }, { status: 400 });
+    }
+    const parsed = CronJobInputSchema.safeParse(await request.json().catch(() => ({})));
+    if (!parsed.success) {
+      return json({ error: "Invalid payload", issues: parsed.error.format() }, { status: 400 });
+    }
+
+    const job = await new CronScheduler(env).replace(id, parsed.data);
+    if (!job) {
+      return json({ error: "Cron job not found" }, { status: 404 });
+    }
+    return json({ job });
+  }),
+);
+
+/**
+ * DELETE /api/cron/:id
+ * Deletes a cron job and its run history.
+ */
+router.delete(
+  "/api/cron/:id",
+  withAuth(async (request, env) => {
+    const id = idParam(request);
+    if (id === null) {
+      return json({ error: "id parameter must be an integer" }, { status: 400 });
+    }
+
+    if (!(await new CronScheduler(env).delete(id))) {
+      return json({ error: "Cron job not found" }, { status: 404 });
+    }
+    return json({ success: true });
+  }),
+);
+
+/**
+ * POST /api/cron/:id/run
+ * Runs a cron job now, whether or not it is enabled or due, and returns the logged run.
+ */
+router.post(
+  "/api/cron/:id/run",
+  withAuth(async (request, env) => {
+    const id = idParam(request);
+    if (id === null) {
+      return json({ error: "id parameter must be an integer" }, { status: 400 });
+    }
+
+    const scheduler = new CronScheduler(env);
+    const job = await scheduler.get(id);
+    if (!job) {
+      return json({ error: "Cron job not found" }, { status: 404 });
+    }
+    return json({ run: await scheduler.run(job) });
+  }),
+);
+
+/**
+ * GET /api/scenes
+ * Lists the saved scenes.
+ */
+router.get(
+  "/api/scenes",
+  withAuth(async (request, env) => {
+    return json({ scenes: await new SceneStore(env).list() });
+  }),
+);
+
+/**
+ * POST /api/scenes/capture
+ * Saves the states of selected entities, or of every entity in a `room`, as a named scene. `at` captures the states
+ * at a past time from the recorder; times without an offset are local to `TIME_ZONE`.
+ */
+router.post(
+  "/api/scenes/capture",
+  withAuth(async (request, env) => {
+    const SceneCaptureSchema = z
+      .object({
+        name: z.string().min(1),
+        entity_ids: z.array(z.string().regex(ENTITY_ID_PATTERN)).optional(),
+        room: z.string().min(1).optional(),
+        at: z.string().optional(),
+      })
+      .refine((payload) => payload.room || payload.entity_ids?.length, "room or entity_ids is required");
+
+    const parsed = SceneCaptureSchema.safeParse(await request.json().catch(() => ({})));
+    if (!parsed.success) {
+      return json({ error: "Invalid payload", issues: parsed.error.format() }, { status: 400 });
+    }
+    const at = parsed.data.at === undefined ? undefined : parseLocalTime(parsed.data.at, env.TIME_ZONE ?? "UTC");
+    if (at === null) {
+      return json({ error: "at must be a date and time, e.g. 2024-05-01T07:30" }, { status: 400 });
+    }
+
+    const { scene, missing } = await new SceneStore(env).capture({
+      name: parsed.data.name,
+      entityIds: parsed.data.entity_ids,
+      room: parsed.data.room,
+      at,
+    });
+    if (!scene) {
+      return json({ error: "None of the entities had a state to capture", missing }, { status: 422 });
+    }
+    return json({ scene, missing }, { status: 201 });
+  }),
+);
+
+/**
+ * GET /api/scenes/:id
+ * Retrieves a scene.
+ */
+router.get(
+  "/api/scenes/:id",
+  withAuth(async (request, env) => {
+    const id = idParam(request);
+    if (id === null) {
+      return json({ error: "id parameter must be an integer" }, { status: 400 });
+    }
+
+    const scene = await new SceneStore(env).get(id);
+    if (!scene) {
+      return json({ error: "Scene not found" }, { status: 404 });
+    }
+    return json({ scene });
+  }),
+);
+
+/**
+ * GET /api/scenes/:id/diff
+ * Previews what applying a scene would change: the current and saved settings of every entity that differs, and
+ * the service calls that would restore it.
+ */
+router.get(
+  "/api/scenes/:id/diff",
+  withAuth(async (request, env) => {
+    const id = idParam(request);
+    if (id === null) {
+      return json({ error: "id parameter must be an integer" }, { status: 400 });
+    }
+    const transition = new URL(request.url).searchParams.get("transition");
+    if (transition !== null && !(Number(transition) >= 0)) {
+      return json({ error: "transition must be a non-negative number" }, { status: 400 });
+    }
+
+    const scenes = new SceneStore(env);
+    const scene = await scenes.get(id);
+    if (!scene) {
+      return json({ error: "Scene not found" }, { status: 404 });
+    }
+    return json(await scenes.diff(scene.states, { transition: transition === null ? undefined : Number(transition) }));
+  }),
+);
+
+/**
+ * POST /api/scenes/:id/apply
+ * Restores a scene by calling services for the entities that differ from it, subject to the action policy.
+ * `transition` fades lights over that many seconds; `dry_run` only returns the diff.
+ */
+router.post(
+  "/api/scenes/:id/apply",
+  withAuth(async (request, env) => {
+    const id = idParam(request);
+    if (id === null) {
+      return json({ error: "id parameter must be an integer" }, { status: 400 });
+    }
+    const SceneApplySchema = z.object({
+      transition: z.number().min(0).max(300).optional(),
+      dry_run: z.boolean().default(false),
+    });
+    const parsed = SceneApplySchema.safeParse(await request.json().catch(() => ({})));
+    if (!parsed.success) {
+      return json({ error: "Invalid payload", issues: parsed.error.format() }, { status: 400 });
+    }
+
+    const scenes = new SceneStore(env);
+    const scene = await scenes.get(id);
+    if (!scene) {
+      return json({ error: "Scene not found" }, { status: 404 });
+    }
+    return json(await scenes.apply(scene.states, { transition: parsed.data.transition, dryRun: parsed.data.dry_run }));
+  }),
+);
+
+/**
+ * DELETE /api/scenes/:id
+ * Deletes a scene.
+ */
+router.delete(
+  "/api/scenes/:id",
+  withAuth(async (request, env) => {
+    const id = idParam(request);
+    if (id === null) {
+      return json({ error: "id parameter must be an integer" }, { status: 400 });
+    }
+
+    if (!(await new SceneStore(env).delete(id))) {
+      return json({ error: "Scene not found" }, { status: 404 });
+    }
+    return json({ success: true });
+  }),
+);
+
+/**
+ * Tells the Durable Object to reload the presence settings and re-evaluate presence, so changes apply immediately.
+ * @param {Env} env - The environment bindings.
+ * @returns {Promise<void>}
+ */
+const reloadPresence = async (env: Env): Promise<void> => {
+  await haWebsocketStub(env)
+    .fetch("https://do/presence/reload", { method: "POST" })
+    .catch((error) => console.error("Failed to reload presence", error));
+};
+
+/**
+ * GET /api/presence
+ * Returns who is home, per-room occupancy and the household mode, computed from the Durable Object's state cache.
+ */
+router.get(
+  "/api/presence",
+  withAuth(async (request, env) => {
+    const snapshot = await new PresenceEngine(env).current();
+    if (!snapshot) {
+      return json({ error: "Presence is unavailable until the state cache is seeded" }, { status: 503 });
+    }
+    return json(snapshot);
+  }),
+);
+
+/**
+ * GET /api/presence/settings
+ * Returns the presence settings and the manual mode override, if any.
+ */
+router.get(
+  "/api/presence/settings",
+  withAuth(async (request, env) => {
+    return json(await new PresenceEngine(env).settings());
+  }),
+);
+
+/**
+ * PUT /api/presence/settings
+ * Replaces the presence settings; omitted fields take their defaults.
+ */
+router.put(
+  "/api/presence/settings",
+  withAuth(async (request, env, ctx) => {
+    const parsed = PresenceSettingsSchema.safeParse(await request.json().catch(() => ({})));
+    if (!parsed.success) {
+      return json({ error: "Invalid payload", issues: parsed.error.format() }, { status: 400 });
+    }
+
+    await new PresenceEngine(env).saveSettings(parsed.data);
+    ctx.waitUntil(reloadPresence(env));
+    return json({ settings: parsed.data });
+  }),
+);
+
+/**
+ * POST /api/presence/mode
+ * Sets the household mode manually, optionally `until` a time local to `TIME_ZONE`, or returns to the computed mode
+ * when `mode` is null.
+ */
+router.post(
+  "/api/presence/mode",
+  withAuth(async (request, env, ctx) => {
+    const ModeOverrideSchema = z.object({
+      mode: z.enum(HOUSEHOLD_MODES).nullable(),
+      until: z.string().optional(),
+    });
+
+    const parsed = ModeOverrideSchema.safeParse(await request.json().catch(() => ({})));
+    if (!parsed.success) {
+      return json({ error: "Invalid payload", issues: parsed.error.format() }, { status: 400 });
+    }
+    const until = parsed.data.until === undefined ? undefined : parseLocalTime(parsed.data.until, env.TIME_ZONE ?? "UTC");
+    if (until === null) {
+      return json({ error: "until must be a date and time, e.g. 2024-05-01T07:30" }, { status: 400 });
+    }
+    if (until && until.getTime() <= Date.now()) {
+      return json({ error: "until must be in the future" }, { status: 400 });
+    }
+
+    await new PresenceEngine(env).setOverride(parsed.data.mode, until);
+    ctx.waitUntil(reloadPresence(env));
+    return json({ mode: parsed.data.mode, until: until?.toISOString() ?? null });
   }),
 );
 
@@ -557,7 +2064,7 @@ router.get(
   "/api/analytics/daily",
   withAuth(async (request, env) => {
     const { results } = await env.CONFIG_DB.prepare(
-      `SELECT task, configuration, created_at FROM cron_jobs WHERE enabled = 1 ORDER BY id DESC LIMIT 50`,
+      "SELECT id, name, cron, task, configuration, last_run_at FROM cron_jobs WHERE enabled = 1 ORDER BY id DESC LIMIT 50",
     ).all();
     const analytics = await env.RECORDER_DB.prepare(
       `SELECT event_type, COUNT(*) as count FROM events WHERE time_fired >= datetime('now', '-1 day') GROUP BY event_type`,
@@ -602,27 +2109,42 @@ export default {
    * @returns {Promise<void>}
    */
   async scheduled(controller: ScheduledController, env: Env, ctx: ExecutionContext): Promise<void> {
-    if (!controller.cron || controller.cron !== env.CRON_SCHEDULE) {
-      return;
-    }
-
-    const haClient = new HomeAssistantClient(env);
-    const energy = await env.RECORDER_DB.prepare(
-      `SELECT m.name, s.sum FROM statistics s JOIN statistics_meta m ON s.metadata_id = m.id
-       WHERE s.start >= datetime('now', '-1 day') AND m.statistic_id LIKE 'sensor.energy%'
-       ORDER BY s.start DESC`,
-    ).all();
-
-    const logs = await haClient.rest<string>("/api/error_log");
-
-    const report = {
-      generatedAt: new Date().toISOString(),
-      energy: energy.results,
-      errors: logs.data?.split("\n").slice(0, 50) ?? [],
-    };
+    // Every trigger compiles the statistics periods that have ended since the last run, then enforces retention
+    // so states are only purged once they have been downsampled.
+    ctx.waitUntil(
+      new StatisticsCompiler(env)
+        .compilePending()
+        .catch((error) => console.error("Failed to compile statistics", error))
+        .then(() => new RecorderPurger(env).purge())
+        .catch((error) => console.error("Failed to purge recorder", error)),
+    );
+    ctx.waitUntil(
+      new RecorderBackfill(env).resumePending().catch((error) => console.error("Failed to resume backfill", error)),
+    );
+    ctx.waitUntil(
+      new LongTermMemory(env).summarizePending().catch((error) => console.error("Failed to summarize memories", error)),
+    );
 
-    // Store the daily report in KV for 7 days.
-    ctx.waitUntil(env.MEMORY_KV.put(`daily-report:${report.generatedAt}`, JSON.stringify(report), { expirationTtl: 60 * 60 * 24 * 7 }));
+    // Time rules and cron jobs cover the minutes since the window of the previous tick, however long ago it ran.
+    const until = new Date(controller.scheduledTime);
+    const scheduler = new CronScheduler(env);
+    ctx.waitUntil(
+      scheduler
+        .claimTickWindow(until)
+        .then((after) =>
+          Promise.all([
+            new RuleEngine(env)
+              .runScheduled(after, until, remoteStateLookup(env))
+              .catch((error) => console.error("Failed to run time rules", error)),
+            scheduler.runDue(after, until).catch((error) => console.error("Failed to run cron jobs", error)),
+          ]),
+        )
+        .catch((error) => console.error("Failed to claim the scheduler window", error)),
+    );
+    // Re-evaluating presence catches mode changes that depend only on the clock, such as the sleep window.
+    ctx.waitUntil(
+      new PresenceEngine(env).current().catch((error) => console.error("Failed to evaluate presence", error)),
+    );
   },
 };
 // Export the Durable Object class for Wrangler to bind.
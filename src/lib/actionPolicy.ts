@@ -0,0 +1,470 @@
+/**
+ * @file This file contains the safety policy applied to Home Assistant service calls made by the agent and by
+ * automation installs. Policies in `CONFIG_DB` allow, deny or require confirmation for calls by domain, service and
+ * entity glob, optionally only during a time-of-day window.
+ */
+
+import type { Env } from "../types";
+import { HomeAssistantClient, type HomeAssistantRestResponse, SERVICE_NAME_PATTERN } from "./haClient";
+
+/** How long a pending action can be confirmed. */
+export const CONFIRMATION_TTL_SECONDS = 10 * 60;
+
+/** {@link CONFIRMATION_TTL_SECONDS} as an SQLite datetime modifier. */
+const CONFIRMATION_TTL = `+${CONFIRMATION_TTL_SECONDS} seconds`;
+
+/** What a policy does with a matching call. */
+export type PolicyEffect = "allow" | "deny" | "confirm";
+
+/** The order in which effects win when several entities of one call have different outcomes. */
+const SEVERITY: Record<PolicyEffect, number> = { allow: 0, confirm: 1, deny: 2 };
+
+/**
+ * A service call subject to the policy.
+ */
+export interface ServiceAction {
+  domain: string;
+  service: string;
+  /** The service data, including any `entity_id` target. */
+  data: Record<string, unknown>;
+}
+
+/**
+ * A row of `action_policies`.
+ */
+export interface ActionPolicyRule {
+  id: number;
+  name: string;
+  domainGlob: string;
+  serviceGlob: string;
+  entityGlob: string;
+  effect: PolicyEffect;
+  /** The local time (HH:MM) the policy starts applying each day, or null for all day. */
+  activeFrom: string | null;
+  /** The local time (HH:MM) the policy stops applying each day, or null for all day. */
+  activeUntil: string | null;
+  /** Policies with a higher priority win over more specific ones. */
+  priority: number;
+  enabled: boolean;
+}
+
+/**
+ * The policy outcome for a call.
+ */
+export interface PolicyDecision {
+  effect: PolicyEffect;
+  /** The policy that decided, or null when no policy matched and the call is allowed by default. */
+  policy: { id: number; name: string } | null;
+  /** The entity that decided the outcome, if the call has targets. */
+  entityId: string | null;
+  /** Why the call was held or blocked when no policy decided, e.g. an invalid service name. */
+  reason?: string;
+}
+
+/**
+ * The outcome of a guarded service call.
+ */
+export type GuardedCallResult =
+  | { status: "executed"; response: { status: number; data: unknown } }
+  | { status: "denied"; reason: string; policy: PolicyDecision["policy"] }
+  | { status: "pending_confirmation"; token: string; expiresAt: string; reason: string; policy: PolicyDecision["policy"] };
+
+/**
+ * The outcome of confirming a pending action.
+ */
+export type ConfirmationResult =
+  | { status: "executed"; action: ServiceAction; response: { status: number; data: unknown } }
+  | { status: "not_found" | "expired" | "already_confirmed" }
+  | { status: "denied"; reason: string };
+
+/** A row of `action_policies`. */
+type PolicyRow = {
+  id: number;
+  name: string;
+  domain_glob: string;
+  service_glob: string;
+  entity_glob: string;
+  effect: PolicyEffect;
+  active_from: string | null;
+  active_until: string | null;
+  priority: number;
+  enabled: number;
+};
+
+/**
+ * Tests a value against an SQLite-style glob (`*` and `?`, case-sensitive).
+ * @param {string} glob - The glob.
+ * @param {string} value - The value to test.
+ * @returns {boolean} True if the value matches.
+ */
+const matchesGlob = (glob: string, value: string): boolean => {
+  const pattern = glob.replace(/[.+^${}()|[\]\\]/g, "\\$&").replace(/\*/g, ".*").replace(/\?/g, ".");
+  return new RegExp(`^${pattern}$`).test(value);
+};
+
+/**
+ * Ranks a policy by how narrowly its globs match.
+ * @param {ActionPolicyRule} policy - The policy.
+ * @returns {number} The number of literal characters across its globs.
+ */
+const specificity = (policy: ActionPolicyRule): number =>
+  [policy.domainGlob, policy.serviceGlob, policy.entityGlob].join("").replace(/[*?]/g, "").length;
+
+/**
+ * The targets of a call, as given in its service data or its `target`.
+ */
+type CallTargets = {
+  entityIds: string[];
+  areaIds: string[];
+  deviceIds: string[];
+  /** Targets that cannot be expanded to entities, such as floors, labels or `all`. */
+  unexpandable: string[];
+};
+
+/**
+ * Reads a target field, which may be a string, a comma-separated string or a list.
+ * @param {unknown} value - The field.
+ * @returns {string[]} The IDs.
+ */
+const idList = (value: unknown): string[] =>
+  [value]
+    .flat()
+    .filter((item): item is string => typeof item === "string")
+    .flatMap((item) => item.split(","))
+    .map((item) => item.trim())
+    .filter(Boolean);
+
+/**
+ * Collects the targets of a call from the service data and from a nested `target`.
+ * @param {Record<string, unknown>} data - The service data.
+ * @returns {CallTargets} The targets.
+ */
+const callTargets = (data: Record<string, unknown>): CallTargets => {
+  const scopes = [data, typeof data.target === "object" && data.target !== null ? (data.target as Record<string, unknown>) : {}];
+  const field = (key: string) => scopes.flatMap((scope) => idList(scope[key]));
+  const entityIds = field("entity_id").filter((entityId) => entityId !== "none");
+  return {
+    entityIds: entityIds.filter((entityId) => entityId !== "all"),
+    areaIds: field("area_id"),
+    deviceIds: field("device_id"),
+    unexpandable: [
+      ...(entityIds.includes("all") ? ["entity_id all"] : []),
+      ...field("floor_id").map((id) => `floor ${id}`),
+      ...field("label_id").map((id) => `label ${id}`),
+    ],
+  };
+};
+
+/**
+ * Enforces action policies and carries out confirmed actions.
+ */
+export class ActionPolicy {
+  /**
+   * Initializes a new instance of the ActionPolicy.
+   * @param {Env} env - The Cloudflare Worker environment bindings.
+   */
+  constructor(private readonly env: Env) {}
+
+  /**
+   * Lists the stored policies.
+   * @returns {Promise<ActionPolicyRule[]>} The policies, highest priority first.
+   */
+  async listPolicies(): Promise<ActionPolicyRule[]> {
+    const { results } = await this.env.CONFIG_DB.prepare(
+      "SELECT * FROM action_policies ORDER BY priority DESC, id",
+    ).all<PolicyRow>();
+    return results.map((row) => ({
+      id: row.id,
+      name: row.name,
+      domainGlob: row.domain_glob,
+      serviceGlob: row.service_glob,
+      entityGlob: row.entity_glob,
+      effect: row.effect,
+      activeFrom: row.active_from,
+      activeUntil: row.active_until,
+      priority: row.priority,
+      enabled: row.enabled === 1,
+    }));
+  }
+
+  /**
+   * Creates a policy.
+   * @param {Omit<ActionPolicyRule, "id">} policy - The policy to store.
+   * @returns {Promise<number>} The new policy ID.
+   */
+  async createPolicy(policy: Omit<ActionPolicyRule, "id">): Promise<number> {
+    const row = await this.env.CONFIG_DB.prepare(
+      `INSERT INTO action_policies(name, domain_glob, service_glob, entity_glob, effect, active_from, active_until, priority, enabled)
+       VALUES (?1, ?2, ?3, ?4, ?5, ?6, ?7, ?8, ?9) RETURNING id`,
+    )
+      .bind(
+        policy.name,
+        policy.domainGlob,
+        policy.serviceGlob,
+        policy.entityGlob,
+        policy.effect,
+        policy.activeFrom,
+        policy.activeUntil,
+        policy.priority,
+        policy.enabled ? 1 : 0,
+      )
+      .first<{ id: number }>();
+    if (!row) {
+      throw new Error("Failed to create action policy");
+    }
+    return row.id;
+  }
+
+  /**
+   * Deletes a policy.
+   * @param {number} id - The policy ID.
+   * @returns {Promise<boolean>} True if a policy was deleted.
+   */
+  async deletePolicy(id: number): Promise<boolean> {
+    const result = await this.env.CONFIG_DB.prepare("DELETE FROM action_policies WHERE id = ?1").bind(id).run();
+    return result.meta.changes > 0;
+  }
+
+  /**
+   * Decides what happens to a call. Area and device targets are expanded to their entities, and generic
+   * `homeassistant` services are also checked against the policies of each entity's own domain. Each target entity
+   * is governed by the matching active policy with the highest priority, then the most specific globs, then the
+   * strictest effect; the strictest outcome across targets wins. Calls no policy matches are allowed, unless some
+   * targets could not be expanded, which require confirmation.
+   * @param {ServiceAction} action - The call.
+   * @param {Date | null} [now=new Date()] - The time used for time-of-day windows, or null to apply every policy
+   * whatever its window, for calls that may run at any time (e.g. installed automations).
+   * @returns {Promise<PolicyDecision>} The decision.
+   */
+  async evaluate(action: ServiceAction, now: Date | null = new Date()): Promise<PolicyDecision> {
+    if (!SERVICE_NAME_PATTERN.test(action.domain) || !SERVICE_NAME_PATTERN.test(action.service)) {
+      return { effect: "deny", policy: null, entityId: null, reason: "is not a valid service name" };
+    }
+    const time = now ? this.localTime(now) : null;
+    const policies = (await this.listPolicies()).filter(
+      (policy) =>
+        policy.enabled &&
+        matchesGlob(policy.serviceGlob, action.service) &&
+        (time === null || this.isActive(policy, time)),
+    );
+
+    const { entityIds, unexpanded } = await this.expandTargets(callTargets(action.data));
+    let decision: PolicyDecision = { effect: "allow", policy: null, entityId: null };
+    for (const entityId of entityIds.length > 0 ? entityIds : [""]) {
+      const domains =
+        action.domain === "homeassistant" && entityId ? [action.domain, entityId.split(".")[0]] : [action.domain];
+      const [policy] = policies
+        .filter(
+          (candidate) =>
+            domains.some((domain) => matchesGlob(candidate.domainGlob, domain)) &&
+            matchesGlob(candidate.entityGlob, entityId),
+        )
+        .sort(
+          (a, b) =>
+            b.priority - a.priority || specificity(b) - specificity(a) || SEVERITY[b.effect] - SEVERITY[a.effect],
+        );
+      if (policy && SEVERITY[policy.effect] > SEVERITY[decision.effect]) {
+        decision = { effect: policy.effect, policy: { id: policy.id, name: policy.name }, entityId: entityId || null };
+      }
+    }
+    if (unexpanded.length > 0 && decision.effect === "allow") {
+      return { effect: "confirm", policy: null, entityId: null, reason: `targets ${unexpanded.join(", ")} cannot be checked` };
+    }
+    return decision;
+  }
+
+  /**
+   * Calls a service if the policy allows it. Calls that need confirmation are stored with a token instead.
+   * @param {ServiceAction} action - The call.
+   * @param {string} source - Who asked for the call (e.g., "agent", "automation_install").
+   * @returns {Promise<GuardedCallResult>} The outcome.
+   */
+  async execute(action: ServiceAction, source: string): Promise<GuardedCallResult> {
+    const decision = await this.evaluate(action);
+    const target = decision.entityId ? ` on ${decision.entityId}` : "";
+
+    if (decision.effect === "deny") {
+      return {
+        status: "denied",
+        reason: decision.policy
+          ? `${action.domain}.${action.service}${target} is blocked by policy "${decision.policy.name}"`
+          : `${action.domain}.${action.service}${target} ${decision.reason}`,
+        policy: decision.policy,
+      };
+    }
+
+    if (decision.effect === "confirm") {
+      const reason = decision.policy
+        ? `${action.domain}.${action.service}${target} requires confirmation (policy "${decision.policy.name}")`
+        : `${action.domain}.${action.service}${target} requires confirmation (${decision.reason})`;
+      const pending = await this.env.CONFIG_DB.prepare(
+        `INSERT INTO pending_actions(token, domain, service, service_data, source, policy_id, reason, expires_at)
+         VALUES (?1, ?2, ?3, json(?4), ?5, ?6, ?7, datetime('now', ?8)) RETURNING token, expires_at`,
+      )
+        .bind(
+          crypto.randomUUID(),
+          action.domain,
+          action.service,
+          JSON.stringify(action.data),
+          source,
+          decision.policy?.id ?? null,
+          reason,
+          CONFIRMATION_TTL,
+        )
+        .first<{ token: string; expires_at: string }>();
+      if (!pending) {
+        throw new Error("Failed to store pending action");
+      }
+      return {
+        status: "pending_confirmation",
+        token: pending.token,
+        expiresAt: pending.expires_at,
+        reason,
+        policy: decision.policy,
+      };
+    }
+
+    const response = await this.call(action);
+    return { status: "executed", response: { status: response.status, data: response.data } };
+  }
+
+  /**
+   * Carries out a pending action. Each token can be used once before it expires, and the action is checked
+   * again so that a policy changed to `deny` in the meantime still blocks it.
+   * @param {string} token - The confirmation token.
+   * @returns {Promise<ConfirmationResult>} The outcome.
+   */
+  async confirm(token: string): Promise<ConfirmationResult> {
+    const claimed = await this.env.CONFIG_DB.prepare(
+      `UPDATE pending_actions SET status = 'confirmed', confirmed_at = CURRENT_TIMESTAMP
+       WHERE token = ?1 AND status = 'pending' AND expires_at > datetime('now')
+       RETURNING domain, service, service_data`,
+    )
+      .bind(token)
+      .first<{ domain: string; service: string; service_data: string | null }>();
+
+    if (!claimed) {
+      const existing = await this.env.CONFIG_DB.prepare("SELECT status FROM pending_actions WHERE token = ?1")
+        .bind(token)
+        .first<{ status: string }>();
+      if (!existing) return { status: "not_found" };
+      return { status: existing.status === "pending" ? "expired" : "already_confirmed" };
+    }
+
+    const action: ServiceAction = {
+      domain: claimed.domain,
+      service: claimed.service,
+      data: JSON.parse(claimed.service_data ?? "{}"),
+    };
+    const decision = await this.evaluate(action);
+    if (decision.effect === "deny") {
+      await this.finish(token, "denied", null);
+      return {
+        status: "denied",
+        reason: decision.policy ? `Blocked by policy "${decision.policy.name}"` : `Blocked: ${decision.reason}`,
+      };
+    }
+
+    const response = await this.call(action);
+    await this.finish(token, response.status < 400 ? "executed" : "failed", response.data);
+    return { status: "executed", action, response: { status: response.status, data: response.data } };
+  }
+
+  /**
+   * Expands area and device targets to their entities with Home Assistant's entity and device registries, read over
+   * the Durable Object's WebSocket. Entities without their own area inherit their device's area.
+   * @private
+   * @param {CallTargets} targets - The targets of a call.
+   * @returns {Promise<{ entityIds: string[]; unexpanded: string[] }>} The target entities, and the targets that could
+   * not be expanded.
+   */
+  private async expandTargets(targets: CallTargets): Promise<{ entityIds: string[]; unexpanded: string[] }> {
+    const { entityIds, areaIds, deviceIds, unexpandable } = targets;
+    if (areaIds.length === 0 && deviceIds.length === 0) {
+      return { entityIds, unexpanded: unexpandable };
+    }
+
+    const stub = this.env.HA_WEBSOCKET_DO.get(this.env.HA_WEBSOCKET_DO.idFromName("ha-core"));
+    const command = async <T>(type: string): Promise<T> => {
+      const response = await stub.fetch("https://do/command", { method: "POST", body: JSON.stringify({ type }) });
+      if (!response.ok) throw new Error(`${type} failed with status ${response.status}`);
+      return ((await response.json()) as { result: T }).result;
+    };
+    try {
+      const [entries, devices] = await Promise.all([
+        command<{ entity_id: string; area_id: string | null; device_id: string | null }[]>("config/entity_registry/list"),
+        command<{ id: string; area_id: string | null }[]>("config/device_registry/list"),
+      ]);
+      const deviceAreas = new Map(devices.map((device) => [device.id, device.area_id]));
+      const expanded = entries
+        .filter((entry) => {
+          const areaId = entry.area_id ?? (entry.device_id ? deviceAreas.get(entry.device_id) : null);
+          return (entry.device_id && deviceIds.includes(entry.device_id)) || (areaId && areaIds.includes(areaId));
+        })
+        .map((entry) => entry.entity_id);
+      return { entityIds: [...new Set([...entityIds, ...expanded])], unexpanded: unexpandable };
+    } catch (error) {
+      console.warn("Entity registry unavailable, holding area and device targets", error);
+      return {
+        entityIds,
+        unexpanded: [
+          ...unexpandable,
+          ...areaIds.map((id) => `area ${id}`),
+          ...deviceIds.map((id) => `device ${id}`),
+        ],
+      };
+    }
+  }
+
+  /**
+   * Calls the service through the Home Assistant REST API.
+   * @private
+   * @param {ServiceAction} action - The call.
+   * @returns {Promise<HomeAssistantRestResponse>} The Home Assistant response.
+   */
+  private call(action: ServiceAction): Promise<HomeAssistantRestResponse> {
+    return new HomeAssistantClient(this.env).callService(action.domain, action.service, action.data);
+  }
+
+  /**
+   * Records the final status of a pending action.
+   * @private
+   * @param {string} token - The confirmation token.
+   * @param {string} status - The final status.
+   * @param {unknown} result - The Home Assistant response data.
+   * @returns {Promise<void>}
+   */
+  private async finish(token: string, status: string, result: unknown): Promise<void> {
+    await this.env.CONFIG_DB.prepare("UPDATE pending_actions SET status = ?2, result = json(?3) WHERE token = ?1")
+      .bind(token, status, JSON.stringify(result ?? null))
+      .run();
+  }
+
+  /**
+   * Formats a time as HH:MM in the home's time zone.
+   * @private
+   * @param {Date} now - The time.
+   * @returns {string} The local time of day.
+   */
+  private localTime(now: Date): string {
+    return new Intl.DateTimeFormat("en-GB", {
+      timeZone: this.env.TIME_ZONE ?? "UTC",
+      hour: "2-digit",
+      minute: "2-digit",
+      hourCycle: "h23",
+    }).format(now);
+  }
+
+  /**
+   * Checks whether a policy's time-of-day window includes a time. Windows may wrap past midnight (e.g., 22:00–06:00).
+   * @private
+   * @param {ActionPolicyRule} policy - The policy.
+   * @param {string} time - The local time of day (HH:MM).
+   * @returns {boolean} True if the policy applies at that time.
+   */
+  private isActive(policy: ActionPolicyRule, time: string): boolean {
+    const from = policy.activeFrom ?? "00:00";
+    const until = policy.activeUntil ?? "24:00";
+    return from <= until ? time >= from && time < until : time >= from || time < until;
+  }
+}
@@ -1,6 +1,39 @@
 import { z } from "zod";
-import type { Env } from "../types";
+import type { Env, HomeAssistantConversationResult } from "../types";
+import { ConversationStore, type ConversationTurn } from "./conversation";
+import { formatLocalTime } from "./cron";
 import { HomeAssistantClient } from "./haClient";
+import { LongTermMemory } from "./memory";
+import { ModelRegistry } from "./models";
+import { PresenceEngine, describePresence } from "./presence";
+import { AGENT_TOOL_NAMES, type AgentToolName, type ToolCallResult, runTool, toolDefinitions } from "./tools";
+
+/** The maximum number of model turns that may call tools before the agent must answer. */
+const MAX_TOOL_STEPS = 5;
+
+/** The number of past exchanges replayed to the model as chat messages. */
+const HISTORY_EXCHANGES = 5;
+
+/** How long a session's Home Assistant conversation ID is kept; Home Assistant ends idle conversations after five minutes. */
+const HA_CONVERSATION_TTL_SECONDS = 300;
+
+/** Home Assistant's built-in conversation agent, whose intent matching can be checked without running it. */
+const HA_CONVERSATION_AGENT_ID = "conversation.home_assistant";
+
+/**
+ * Home Assistant intents that only read state. Home Assistant runs matched intents itself, bypassing the action
+ * policy, so only these are left to it; prompts matching any other intent go to the model and its guarded tools.
+ */
+const READ_ONLY_INTENTS = new Set(["HassGetState", "HassGetCurrentDate", "HassGetCurrentTime", "HassGetWeather"]);
+
+/**
+ * How a prompt is answered: `llm` always uses the model, `ha_first` tries Home Assistant's own intent matching first
+ * for intents that only read state, and escalates to the model when no such intent matched or the intent failed.
+ */
+export type AgentRouting = "llm" | "ha_first";
+
+/** Which path answered a prompt. */
+export type AgentRoute = "home_assistant" | "llm";
 
 /**
  * Represents a single memory record for the agent's conversation history.
@@ -26,12 +59,174 @@ const AgentRequestSchema = z.object({
   sessionId: z.string().optional(),
   context: z.record(z.any()).optional(),
   instructions: z.string().optional(),
-  tools: z.array(z.string()).optional(),
+  tools: z.array(z.enum(AGENT_TOOL_NAMES)).optional(),
+  /** Overrides `CHAT_MODEL` for this request; must be one of the allowed chat models. */
+  model: z.string().optional(),
+  routing: z.enum(["llm", "ha_first"]).optional(),
 });
 
+/**
+ * A chat message exchanged with the model, including tool calls and their results.
+ */
+export interface AgentMessage {
+  role: "system" | "user" | "assistant" | "tool";
+  content: string;
+  name?: string;
+  tool_call_id?: string;
+  tool_calls?: { id: string; type: "function"; function: { name: string; arguments: string } }[];
+}
+
+/** A tool call as returned by Workers AI, either in the flat or the OpenAI-compatible format. */
+type RawToolCall = {
+  id?: string;
+  name?: string;
+  arguments?: unknown;
+  function?: { name: string; arguments: unknown };
+};
+
+/** A tool call made by the model, with its arguments parsed. */
+export type ModelToolCall = { id: string; name: string; arguments: unknown };
+
+/**
+ * A tool defined by the caller rather than the agent. The agent does not run it: calling one ends the exchange and
+ * returns the call, and the caller sends the result back as a `tool` message in `followUp`.
+ */
+export interface ClientTool {
+  type: "function";
+  function: { name: string; description?: string; parameters?: Record<string, unknown> };
+}
+
+/**
+ * One exchange with the agent.
+ */
+export interface AgentConversation {
+  prompt: string;
+  /** The session whose transcript is replayed and extended; without one nothing is remembered. */
+  sessionId?: string;
+  context?: Record<string, unknown>;
+  instructions?: string;
+  /** The agent tools the model may call; all of them when omitted. */
+  tools?: AgentToolName[];
+  /** Overrides `CHAT_MODEL`; must be one of the allowed chat models. */
+  model?: string;
+  /** Whether Home Assistant's intent matching is tried before the model (default `llm`). */
+  routing?: AgentRouting;
+  /** Earlier messages supplied by the caller, used instead of the session's stored transcript. */
+  history?: AgentMessage[];
+  /** Messages after the prompt, i.e. client tool calls and their results, when an exchange is resumed. */
+  followUp?: AgentMessage[];
+  clientTools?: ClientTool[];
+}
+
+/**
+ * The outcome of an exchange with the agent.
+ */
+export interface AgentReply {
+  message: string;
+  /** The agent tools that were run. */
+  toolCalls: ToolCallResult[];
+  /** Client tools the model called; the exchange continues once their results are sent back. */
+  pendingToolCalls: ModelToolCall[];
+  /** The model that answered, or null when Home Assistant did. */
+  model: string | null;
+  route: AgentRoute;
+  /** The Home Assistant conversation ID, when Home Assistant's conversation agent was asked. */
+  conversationId: string | null;
+  /** The ID of the saved exchange, or null without a session. */
+  memoryId: string | null;
+  /** The long-term facts recalled for the prompt. */
+  memories: AgentMemoryRecord[];
+}
+
+/** The output of a Workers AI chat model. */
+type AiChatOutput = { response?: string; result?: string; tool_calls?: RawToolCall[] };
+
+/**
+ * An event reported while the agent works, sent to streaming clients as a server-sent event named after its type.
+ */
+export type AgentStreamEvent =
+  | { type: "token"; data: { text: string } }
+  | { type: "tool_start"; data: { id: string; name: string; arguments: unknown } }
+  | { type: "tool_end"; data: ToolCallResult & { id: string } }
+  | { type: "service_call_start"; data: { id: string; domain?: string; service?: string } }
+  | { type: "service_call_end"; data: { id: string; domain?: string; service?: string; ok: boolean } }
+  | {
+      type: "done";
+      data: {
+        message: string;
+        toolCalls: ToolCallResult[];
+        memoryId: string | null;
+        model: string | null;
+        route: AgentRoute;
+        conversationId: string | null;
+      };
+    }
+  | { type: "error"; data: { error: string } };
+
+/**
+ * Reads a streamed Workers AI response, reporting each text chunk as it arrives.
+ * @param {ReadableStream<Uint8Array>} stream - The model's server-sent event stream.
+ * @param {(text: string) => void} onToken - Receives each text chunk.
+ * @returns {Promise<AiChatOutput>} The accumulated text and any tool calls.
+ */
+const readModelStream = async (stream: ReadableStream<Uint8Array>, onToken: (text: string) => void): Promise<AiChatOutput> => {
+  const reader = stream.getReader();
+  const decoder = new TextDecoder();
+  const toolCalls: RawToolCall[] = [];
+  let response = "";
+  let buffer = "";
+
+  for (;;) {
+    const { value, done } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true });
+    const lines = buffer.split("\n");
+    buffer = lines.pop() ?? "";
+
+    for (const line of lines) {
+      const payload = line.startsWith("data:") ? line.slice("data:".length).trim() : "";
+      if (!payload || payload === "[DONE]") continue;
+      let chunk: AiChatOutput;
+      try {
+        chunk = JSON.parse(payload) as AiChatOutput;
+      } catch {
+        continue;
+      }
+      if (chunk.response) {
+        response += chunk.response;
+        onToken(chunk.response);
+      }
+      if (chunk.tool_calls) {
+        toolCalls.push(...chunk.tool_calls);
+      }
+    }
+  }
+
+  return { response, tool_calls: toolCalls };
+};
+
+/**
+ * Normalizes the tool calls returned by the model, parsing arguments sent as JSON strings.
+ * @param {RawToolCall[] | undefined} calls - The raw tool calls.
+ * @returns {ModelToolCall[]} The tool calls with parsed arguments.
+ */
+const normalizeToolCalls = (calls: RawToolCall[] | undefined): ModelToolCall[] =>
+  (calls ?? []).map((call) => {
+    const rawArguments = call.function?.arguments ?? call.arguments ?? {};
+    let parsedArguments: unknown = rawArguments;
+    if (typeof rawArguments === "string") {
+      try {
+        parsedArguments = JSON.parse(rawArguments);
+      } catch {
+        parsedArguments = {};
+      }
+    }
+    return { id: call.id ?? crypto.randomUUID(), name: call.function?.name ?? call.name ?? "", arguments: parsedArguments };
+  });
+
 /**
  * Orchestrates interactions between a user, an AI model, and a Home Assistant instance.
- * It manages conversation memory, context assembly, and command execution.
+ * It manages conversation memory, context assembly, and tool execution.
  */
 export class HassAgent {
   /**
@@ -41,132 +236,396 @@ export class HassAgent {
   constructor(private readonly env: Env) {}
 
   /**
-   * Fetches conversation history for a given session from KV storage.
+   * Loads a session's recent exchanges as chat messages, including the tool calls and results they made.
    * @private
    * @param {string | undefined} sessionId - The unique identifier for the conversation session.
-   * @returns {Promise<AgentMemoryRecord[]>} A promise that resolves to an array of memory records.
+   * @returns {Promise<AgentMessage[]>} The past messages, oldest first.
    */
-  private async fetchMemories(sessionId: string | undefined): Promise<AgentMemoryRecord[]> {
+  private async loadHistory(sessionId: string | undefined): Promise<AgentMessage[]> {
     if (!sessionId) return [];
-    const raw = await this.env.MEMORY_KV.get<AgentMemoryRecord[]>(`memory:${sessionId}`, { type: "json" });
-    return raw ?? [];
+    const turns = await new ConversationStore(this.env).recent(sessionId, HISTORY_EXCHANGES);
+    return turns.map((turn: ConversationTurn): AgentMessage => {
+      if (turn.role === "tool") {
+        return { role: "tool", name: turn.name ?? undefined, tool_call_id: turn.toolCallId ?? undefined, content: turn.content };
+      }
+      if (turn.role === "assistant" && Array.isArray(turn.payload)) {
+        return { role: "assistant", content: turn.content, tool_calls: turn.payload as AgentMessage["tool_calls"] };
+      }
+      return { role: turn.role, content: turn.content };
+    });
   }
 
   /**
-   * Persists a new memory record to a session's conversation history in KV storage.
+   * Saves an exchange to the session's transcript: the user's prompt and context, every tool call and result,
+   * and the final reply.
    * @private
    * @param {string | undefined} sessionId - The unique identifier for the conversation session.
-   * @param {AgentMemoryRecord} memory - The memory record to save.
-   * @returns {Promise<void>}
+   * @param {string} prompt - The user's prompt.
+   * @param {Record<string, unknown>} context - The context sent with the prompt.
+   * @param {AgentMessage[]} steps - The tool-calling messages the exchange produced.
+   * @param {string | null} message - The agent's reply, or null when the exchange ended in client tool calls.
+   * @returns {Promise<string | null>} The ID of the saved exchange, or null without a session.
    */
-  private async persistMemory(sessionId: string | undefined, memory: AgentMemoryRecord): Promise<void> {
-    if (!sessionId) return;
-    const current = await this.fetchMemories(sessionId);
-    current.push(memory);
-    // Persist for 30 days.
-    await this.env.MEMORY_KV.put(`memory:${sessionId}`, JSON.stringify(current), { expirationTtl: 60 * 60 * 24 * 30 });
+  private async recordExchange(
+    sessionId: string | undefined,
+    prompt: string,
+    context: Record<string, unknown>,
+    steps: AgentMessage[],
+    message: string | null,
+  ): Promise<string | null> {
+    if (!sessionId) return null;
+    return new ConversationStore(this.env).append(sessionId, [
+      { role: "user", content: prompt, payload: context },
+      // The nudge asking for an answer once the tool budget runs out is not part of the conversation.
+      ...steps
+        .filter((step) => step.role === "assistant" || step.role === "tool")
+        .map((step) => ({
+          role: step.role as "assistant" | "tool",
+          content: step.content,
+          name: step.name,
+          toolCallId: step.tool_call_id,
+          payload: step.tool_calls,
+        })),
+      ...(message === null ? [] : [{ role: "assistant" as const, content: message }]),
+    ]);
   }
 
   /**
    * Handles an incoming chat request from a user.
-   * This method validates the request, assembles a prompt with context and memory,
-   * invokes the AI model, persists the response, and triggers any detected commands.
+   * This method validates the request and runs one exchange through `converse`.
+   * With `stream` set, the reply is a `text/event-stream` of model tokens and tool activity instead of JSON.
    * @param {unknown} request - The raw request body, expected to match AgentRequestSchema.
-   * @returns {Promise<Response>} A promise that resolves to a JSON response for the client.
+   * @param {{ stream?: boolean }} [options={}] - Whether to stream the reply as server-sent events.
+   * @returns {Promise<Response>} A promise that resolves to a JSON or event-stream response for the client.
    */
-  async chat(request: unknown): Promise<Response> {
+  async chat(request: unknown, options: { stream?: boolean } = {}): Promise<Response> {
     const parsed = AgentRequestSchema.safeParse(request);
     if (!parsed.success) {
       return new Response(JSON.stringify({ error: parsed.error.message }), { status: 400 });
     }
 
-    const { prompt, sessionId, context, instructions, tools } = parsed.data;
-    const ha = new HomeAssistantClient(this.env);
+    const { model } = parsed.data;
+    const models = new ModelRegistry(this.env);
+    if (model && !models.isAllowed("chat", model)) {
+      return new Response(JSON.stringify({ error: `Model ${model} is not allowed`, allowed: models.allowed("chat") }), {
+        status: 400,
+      });
+    }
+
+    if (options.stream) {
+      return this.streamChat(parsed.data);
+    }
+
+    const reply = await this.converse(parsed.data);
+    return new Response(
+      JSON.stringify({
+        message: reply.message,
+        toolCalls: reply.toolCalls,
+        memoryId: reply.memoryId,
+        model: reply.model,
+        route: reply.route,
+        conversationId: reply.conversationId,
+        memories: reply.memories,
+      }),
+      {
+        headers: { "Content-Type": "application/json" },
+      },
+    );
+  }
+
+  /**
+   * Runs one exchange: assembles the system prompt, recalled facts and history around the prompt, then lets the
+   * model call the enabled tools, feeding each result back until it produces a final answer or calls a client tool.
+   * With `ha_first` routing, Home Assistant's conversation agent gets prompts that match a read-only intent first
+   * and the model only runs when it cannot handle them; prompts that would change something always reach the model,
+   * whose service calls go through the action policy. The exchange is saved to the session's transcript. `input.model` must already be validated
+   * against the model registry.
+   * @param {AgentConversation} input - The prompt and its surroundings.
+   * @param {(event: AgentStreamEvent) => void} [emit] - Receives progress events when streaming.
+   * @returns {Promise<AgentReply>} The reply.
+   */
+  async converse(input: AgentConversation, emit?: (event: AgentStreamEvent) => void): Promise<AgentReply> {
+    const { prompt, sessionId, instructions } = input;
+    const haContext = input.context ?? {};
+
+    let conversationId: string | null = null;
+    if (input.routing === "ha_first" && !input.followUp?.length && (await this.matchesReadOnlyIntent(prompt))) {
+      const handled = await this.askHomeAssistant(prompt, sessionId);
+      conversationId = handled.conversationId;
+      if (handled.message !== null) {
+        emit?.({ type: "token", data: { text: handled.message } });
+        const memoryId = await this.recordExchange(sessionId, prompt, haContext, [], handled.message);
+        return {
+          message: handled.message,
+          toolCalls: [],
+          pendingToolCalls: [],
+          model: null,
+          route: "home_assistant",
+          conversationId,
+          memoryId,
+          memories: [],
+        };
+      }
+    }
 
-    const memories = await this.fetchMemories(sessionId);
-    const haContext = context ?? {};
+    const history = input.history ?? (await this.loadHistory(sessionId));
+    // Recall and presence are best effort; a failed embedding call or an unseeded state cache should not stop the
+    // agent from answering.
+    const [facts, presence] = await Promise.all([
+      new LongTermMemory(this.env).recall(prompt, sessionId).catch(() => []),
+      new PresenceEngine(this.env).current().catch(() => null),
+    ]);
 
-    // Assemble the system prompt with base instructions, user-provided instructions, and recent memory.
+    // Assemble the system prompt with base instructions, the local time, who is home, user-provided instructions
+    // and recalled facts. The time lets the model turn phrases like "this morning" into tool arguments, and presence
+    // answers questions like "am I the last one out?".
+    const timeZone = this.env.TIME_ZONE ?? "UTC";
     const systemPrompt = [
       this.env.AGENT_SYSTEM_PROMPT,
+      `The current local time is ${formatLocalTime(new Date(), timeZone)} (${timeZone}).`,
+      presence ? describePresence(presence, timeZone) : undefined,
       instructions,
-      memories.length > 0
-        ? `Recent short term memory: ${memories.slice(-5).map((m) => `${m.createdAt}: ${m.content}`).join("\n")}`
-        : undefined,
+      facts.length > 0 ? `Known facts about the household:\n${facts.map((fact) => `- ${fact.content}`).join("\n")}` : undefined,
     ]
       .filter(Boolean)
       .join("\n\n");
 
-    const aiInput = {
-      messages: [
-        { role: "system", content: systemPrompt },
-        {
-          role: "user",
-          content: `Prompt: ${prompt}\n\nContext: ${JSON.stringify(haContext)}\n\nAvailable tools: ${tools?.join(", ") ?? "none"}`,
-        },
-      ],
-    } satisfies Record<string, unknown>;
-
-    const aiResponse = (await this.env.AI.run("@cf/meta/llama-3-8b-instruct", aiInput)) as { result?: string };
-    const message = aiResponse.result ?? "";
-
-    if (sessionId) {
-      await this.persistMemory(sessionId, {
-        id: crypto.randomUUID(),
-        type: "short",
-        content: message,
-        createdAt: new Date().toISOString(),
+    const messages: AgentMessage[] = [
+      { role: "system", content: systemPrompt },
+      ...history,
+      { role: "user", content: `Prompt: ${prompt}\n\nContext: ${JSON.stringify(haContext)}` },
+      ...(input.followUp ?? []),
+    ];
+
+    const result = await this.runToolLoop(
+      messages,
+      input.tools ?? AGENT_TOOL_NAMES,
+      input.model,
+      input.clientTools ?? [],
+      emit,
+    );
+    const memoryId = await this.recordExchange(
+      sessionId,
+      prompt,
+      haContext,
+      messages.slice(history.length + 2),
+      // A turn that ends in client tool calls has no reply yet.
+      result.pendingToolCalls.length > 0 ? null : result.message,
+    );
+    return { ...result, route: "llm", conversationId, memoryId, memories: facts };
+  }
+
+  /**
+   * Checks, without running anything, whether Home Assistant's built-in agent would answer a prompt with an intent
+   * that only reads state. Failures count as no match, so the prompt goes to the model.
+   * @private
+   * @param {string} prompt - The user's prompt.
+   * @returns {Promise<boolean>} True if the matched intent is read-only.
+   */
+  private async matchesReadOnlyIntent(prompt: string): Promise<boolean> {
+    const stub = this.env.HA_WEBSOCKET_DO.get(this.env.HA_WEBSOCKET_DO.idFromName("ha-core"));
+    try {
+      const response = await stub.fetch("https://do/command", {
+        method: "POST",
+        body: JSON.stringify({ type: "conversation/agent/homeassistant/debug", sentences: [prompt] }),
       });
+      if (!response.ok) return false;
+      const body = (await response.json()) as { result?: { results?: ({ intent?: { name?: string } } | null)[] } };
+      const intent = body.result?.results?.[0]?.intent?.name;
+      return intent !== undefined && READ_ONLY_INTENTS.has(intent);
+    } catch {
+      return false;
     }
+  }
+
+  /**
+   * Passes a prompt to Home Assistant's built-in conversation agent, continuing the session's Home Assistant conversation.
+   * @private
+   * @param {string} prompt - The user's prompt.
+   * @param {string | undefined} sessionId - The unique identifier for the conversation session.
+   * @returns {Promise<{ message: string | null; conversationId: string | null }>} Home Assistant's answer, or a null
+   * message when no intent matched, the intent failed or Home Assistant could not be reached.
+   */
+  private async askHomeAssistant(
+    prompt: string,
+    sessionId: string | undefined,
+  ): Promise<{ message: string | null; conversationId: string | null }> {
+    const key = sessionId ? `ha-conversation:${sessionId}` : null;
+    const previousId = key ? await this.env.MEMORY_KV.get(key) : null;
 
-    // Check if the AI response looks like a command and handle it.
-    if (/turn (on|off)/i.test(message)) {
-      await this.handlePotentialCommand(message, ha);
+    let result: HomeAssistantConversationResult;
+    try {
+      const response = await new HomeAssistantClient(this.env).converse(prompt, {
+        agent_id: HA_CONVERSATION_AGENT_ID,
+        ...(previousId ? { conversation_id: previousId } : {}),
+      });
+      if (response.status >= 400) {
+        return { message: null, conversationId: previousId };
+      }
+      result = response.data;
+    } catch {
+      return { message: null, conversationId: previousId };
     }
 
-    return new Response(
-      JSON.stringify({
-        message,
-        memories,
-      }),
-      {
-        headers: { "Content-Type": "application/json" },
-      },
-    );
+    const conversationId = result.conversation_id ?? previousId;
+    if (key && conversationId) {
+      await this.env.MEMORY_KV.put(key, conversationId, { expirationTtl: HA_CONVERSATION_TTL_SECONDS });
+    }
+    const speech = result.response?.speech?.plain?.speech;
+    if (result.response?.response_type === "error" || !speech) {
+      return { message: null, conversationId };
+    }
+    return { message: speech, conversationId };
+  }
+
+  /**
+   * Runs the agent in the background, writing its progress to a server-sent event stream.
+   * The stream ends with a `done` event carrying the ID of the saved exchange as `memoryId`, or an `error` event.
+   * @private
+   * @param {AgentConversation} input - The prompt and its surroundings.
+   * @returns {Response} The `text/event-stream` response.
+   */
+  private streamChat(input: AgentConversation): Response {
+    const { readable, writable } = new TransformStream<Uint8Array, Uint8Array>();
+    const writer = writable.getWriter();
+    const encoder = new TextEncoder();
+    const emit = (event: AgentStreamEvent): void => {
+      void writer.write(encoder.encode(`event: ${event.type}\ndata: ${JSON.stringify(event.data)}\n\n`));
+    };
+
+    const run = async (): Promise<void> => {
+      try {
+        const reply = await this.converse(input, emit);
+        emit({
+          type: "done",
+          data: {
+            message: reply.message,
+            toolCalls: reply.toolCalls,
+            memoryId: reply.memoryId,
+            model: reply.model,
+            route: reply.route,
+            conversationId: reply.conversationId,
+          },
+        });
+      } catch (error) {
+        emit({ type: "error", data: { error: (error as Error).message } });
+      } finally {
+        await writer.close();
+      }
+    };
+    void run();
+
+    return new Response(readable, {
+      headers: { "Content-Type": "text/event-stream", "Cache-Control": "no-cache" },
+    });
   }
 
   /**
-   * Parses the AI's response to detect and execute a Home Assistant command.
-   * It identifies the target entity and action (e.g., turn on/off), calls the
-   * relevant Home Assistant service, and logs the action as a new rule.
+   * Runs the model until it answers without calling a tool, executing every tool call it makes along the way.
+   * When `emit` is given, the model's tokens are streamed and tool activity is reported as it happens.
    * @private
-   * @param {string} message - The response message from the AI model.
-   * @param {HomeAssistantClient} ha - An instance of the Home Assistant client.
-   * @returns {Promise<void>}
+   * @param {AgentMessage[]} messages - The conversation so far; tool calls and results are appended to it.
+   * @param {AgentToolName[]} tools - The tools the model may call.
+   * @param {string | undefined} requestedModel - The requested chat model, or undefined for `CHAT_MODEL`.
+   * @param {ClientTool[]} clientTools - Tools the caller runs; calling one ends the loop.
+   * @param {(event: AgentStreamEvent) => void} [emit] - Receives progress events when streaming.
+   * @returns {Promise<Pick<AgentReply, "message" | "toolCalls" | "pendingToolCalls" | "model">>} The final answer,
+   * the tool calls made, any client tool calls awaiting results and the model that answered.
    */
-  private async handlePotentialCommand(message: string, ha: HomeAssistantClient): Promise<void> {
-    const sanitized = message.toLowerCase();
-    // Find an entity profile where the nickname matches the target in the AI's response.
-    const result = await this.env.CONFIG_DB.prepare(
-      `SELECT entity_id, nickname FROM entity_profiles WHERE lower(nickname) = lower(?) LIMIT 1`,
-    )
-      .bind(message.match(/"([^"]+)"/)?.[1] ?? sanitized.replace(/.*\bturn (?:on|off) (?:the )?/, ""))
-      .first<{ entity_id: string; nickname: string }>();
-
-    if (!result?.entity_id) return;
-
-    const domain = result.entity_id.split(".")[0];
-    const action = sanitized.includes("turn on") ? "turn_on" : sanitized.includes("turn off") ? "turn_off" : undefined;
-    if (!action) return;
-
-    // Execute the service call and log the action as a rule for future reference.
-    await ha.callService(domain, action, { entity_id: result.entity_id });
-    await this.env.CONFIG_DB.prepare(
-      `INSERT INTO agent_rules(rule_name, trigger_type, trigger_config, response_template, last_triggered)
-       VALUES (?, 'agent_command', json(?), ?, CURRENT_TIMESTAMP)
-       ON CONFLICT(rule_name) DO UPDATE SET last_triggered = CURRENT_TIMESTAMP`,
-    )
-      .bind(`last_action_${result.entity_id}`, JSON.stringify({ entity: result.entity_id, action }), message)
-      .run();
+  private async runToolLoop(
+    messages: AgentMessage[],
+    tools: AgentToolName[],
+    requestedModel: string | undefined,
+    clientTools: ClientTool[],
+    emit?: (event: AgentStreamEvent) => void,
+  ): Promise<Pick<AgentReply, "message" | "toolCalls" | "pendingToolCalls" | "model">> {
+    const definitions = [...toolDefinitions(tools), ...clientTools];
+    const clientToolNames = new Set(clientTools.map((tool) => tool.function.name));
+    const toolCalls: ToolCallResult[] = [];
+    let model = requestedModel;
+
+    for (let step = 0; step < MAX_TOOL_STEPS; step++) {
+      const { model: answeredBy, output } = await this.complete(
+        { messages, ...(definitions.length > 0 ? { tools: definitions } : {}) },
+        model,
+        emit,
+      );
+      // Later steps stay on the model that answered, so a fallback is not mixed with the model that failed.
+      model = answeredBy;
+      const calls = normalizeToolCalls(output.tool_calls);
+      const text = output.response ?? output.result ?? "";
+      if (calls.length === 0) {
+        return { message: text, toolCalls, pendingToolCalls: [], model: answeredBy };
+      }
+
+      messages.push({
+        role: "assistant",
+        content: text,
+        tool_calls: calls.map((call) => ({
+          id: call.id,
+          type: "function",
+          function: { name: call.name, arguments: JSON.stringify(call.arguments) },
+        })),
+      });
+      for (const call of calls) {
+        if (clientToolNames.has(call.name)) continue;
+        emit?.({ type: "tool_start", data: { id: call.id, name: call.name, arguments: call.arguments } });
+        const service = call.name === "call_service" ? (call.arguments as { domain?: string; service?: string }) : null;
+        if (service) {
+          emit?.({ type: "service_call_start", data: { id: call.id, domain: service.domain, service: service.service } });
+        }
+
+        const result = await runTool(tools, call.name, call.arguments, this.env);
+        toolCalls.push(result);
+        messages.push({
+          role: "tool",
+          name: call.name,
+          tool_call_id: call.id,
+          content: JSON.stringify(result.ok ? result.result : { error: result.result }),
+        });
+
+        if (service) {
+          emit?.({
+            type: "service_call_end",
+            data: { id: call.id, domain: service.domain, service: service.service, ok: result.ok },
+          });
+        }
+        emit?.({ type: "tool_end", data: { id: call.id, ...result } });
+      }
+
+      const pendingToolCalls = calls.filter((call) => clientToolNames.has(call.name));
+      if (pendingToolCalls.length > 0) {
+        return { message: text, toolCalls, pendingToolCalls, model: answeredBy };
+      }
+    }
+
+    // The step budget ran out; ask for an answer without offering tools again.
+    messages.push({ role: "system", content: "Summarize what was done and answer the user without calling tools." });
+    const { model: answeredBy, output } = await this.complete({ messages }, model, emit);
+    return { message: output.response ?? output.result ?? "", toolCalls, pendingToolCalls: [], model: answeredBy };
+  }
+
+  /**
+   * Runs one model turn through the model registry, streaming its tokens to `emit` when given.
+   * @private
+   * @param {Record<string, unknown>} input - The model input.
+   * @param {string | undefined} model - The requested chat model, or undefined for `CHAT_MODEL`.
+   * @param {(event: AgentStreamEvent) => void} [emit] - Receives a `token` event per streamed chunk.
+   * @returns {Promise<{ model: string; output: AiChatOutput }>} The model that answered and its complete output.
+   */
+  private async complete(
+    input: Record<string, unknown>,
+    model: string | undefined,
+    emit?: (event: AgentStreamEvent) => void,
+  ): Promise<{ model: string; output: AiChatOutput }> {
+    const models = new ModelRegistry(this.env);
+    if (!emit) {
+      return models.run<AiChatOutput>("chat", input, model);
+    }
+    const streamed = await models.run<ReadableStream<Uint8Array>>("chat", { ...input, stream: true }, model);
+    return {
+      model: streamed.model,
+      output: await readModelStream(streamed.output, (text) => emit({ type: "token", data: { text } })),
+    };
   }
 }
@@ -0,0 +1,446 @@
+/**
+ * @file This file contains resumable jobs that fill gaps in the D1 recorder replica from Home Assistant's
+ * `/api/history/period` REST endpoint and the `recorder/statistics_during_period` WebSocket command.
+ */
+
+import type { Env, HomeAssistantState } from "../types";
+import { HomeAssistantClient } from "./haClient";
+import { fromRecorderTimestamp, toRecorderTimestamp } from "./recorder";
+
+/** The default width of each window requested from Home Assistant. */
+const DEFAULT_CHUNK_HOURS = 6;
+
+/** The number of windows a single run imports before yielding to the next run. */
+const DEFAULT_MAX_CHUNKS = 8;
+
+/** The length of a long-term statistics period. */
+const HOURLY_PERIOD_MS = 60 * 60 * 1000;
+
+/** A job marked as running whose last progress is older than this is considered abandoned and may be resumed. */
+const STALE_RUN_MS = 10 * 60 * 1000;
+
+/** The lifecycle of a backfill job. */
+export type BackfillStatus = "pending" | "running" | "completed" | "failed";
+
+/**
+ * A backfill job and its progress.
+ */
+export interface BackfillJob {
+  jobId: string;
+  /** The entities to import; statistics are imported for those that have long-term statistics. */
+  entityIds: string[];
+  /** The start of the window, as an ISO 8601 timestamp. */
+  start: string;
+  /** The end of the window, as an ISO 8601 timestamp. */
+  end: string;
+  /** The width of each window requested from Home Assistant. */
+  chunkHours: number;
+  /** Whether hourly statistics are imported along with states. */
+  includeStatistics: boolean;
+  /** Everything before this ISO 8601 timestamp has been imported. */
+  cursor: string;
+  status: BackfillStatus;
+  /** The share of the window imported so far, from 0 to 1. */
+  progress: number;
+  /** The number of state rows inserted (rows already in the replica are not counted). */
+  statesImported: number;
+  /** The number of hourly statistics rows inserted. */
+  statisticsImported: number;
+  /** Why the last run failed, if it did. */
+  error: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * The parameters of a new backfill job.
+ */
+export interface BackfillRequest {
+  entityIds: string[];
+  start: Date;
+  end: Date;
+  chunkHours?: number;
+  includeStatistics?: boolean;
+}
+
+/** A row of the `recorder_backfill_jobs` table. */
+type JobRow = {
+  job_id: string;
+  entity_ids: string;
+  start_time: string;
+  end_time: string;
+  chunk_hours: number;
+  include_statistics: number;
+  cursor: string;
+  status: BackfillStatus;
+  states_imported: number;
+  statistics_imported: number;
+  error: string | null;
+  created_at: string;
+  updated_at: string;
+};
+
+/** A row returned by `recorder/statistics_during_period`; newer Home Assistant versions send epoch milliseconds. */
+type StatisticsRow = {
+  start: number | string;
+  mean?: number | null;
+  min?: number | null;
+  max?: number | null;
+  last_reset?: number | string | null;
+  state?: number | null;
+  sum?: number | null;
+};
+
+/** An entry returned by `recorder/get_statistics_metadata`. */
+type StatisticsMetadata = {
+  statistic_id: string;
+  name?: string | null;
+  source?: string;
+  statistics_unit_of_measurement?: string | null;
+  has_mean?: boolean;
+  has_sum?: boolean;
+};
+
+/**
+ * Creates, runs and reports on backfill jobs. Each run imports a bounded number of windows and records its
+ * cursor after every window, so an interrupted job resumes where it stopped. Inserts rely on the replica's
+ * unique constraints, so windows may safely be imported twice.
+ */
+export class RecorderBackfill {
+  /**
+   * Initializes a new instance of the RecorderBackfill.
+   * @param {Env} env - The Cloudflare Worker environment bindings.
+   */
+  constructor(private readonly env: Env) {}
+
+  /**
+   * Creates a pending backfill job.
+   * @param {BackfillRequest} request - The window and entities to import.
+   * @returns {Promise<BackfillJob>} The new job.
+   */
+  async create(request: BackfillRequest): Promise<BackfillJob> {
+    const jobId = crypto.randomUUID();
+    const start = toRecorderTimestamp(request.start);
+    await this.env.RECORDER_DB.prepare(
+      `INSERT INTO recorder_backfill_jobs(job_id, entity_ids, start_time, end_time, chunk_hours, include_statistics, cursor)
+       VALUES (?1, ?2, ?3, ?4, ?5, ?6, ?3)`,
+    )
+      .bind(
+        jobId,
+        JSON.stringify([...new Set(request.entityIds)]),
+        start,
+        toRecorderTimestamp(request.end),
+        request.chunkHours ?? DEFAULT_CHUNK_HOURS,
+        request.includeStatistics === false ? 0 : 1,
+      )
+      .run();
+
+    const job = await this.get(jobId);
+    if (!job) {
+      throw new Error(`Failed to create backfill job ${jobId}`);
+    }
+    return job;
+  }
+
+  /**
+   * Loads a job.
+   * @param {string} jobId - The job ID.
+   * @returns {Promise<BackfillJob | null>} The job, or null if it does not exist.
+   */
+  async get(jobId: string): Promise<BackfillJob | null> {
+    const row = await this.env.RECORDER_DB.prepare("SELECT * FROM recorder_backfill_jobs WHERE job_id = ?1")
+      .bind(jobId)
+      .first<JobRow>();
+    return row ? this.toJob(row) : null;
+  }
+
+  /**
+   * Runs a job for up to `maxChunks` windows. Completed jobs and jobs already running elsewhere are left untouched.
+   * @param {string} jobId - The job ID.
+   * @param {number} [maxChunks=DEFAULT_MAX_CHUNKS] - The number of windows to import in this run.
+   * @returns {Promise<BackfillJob | null>} The job after the run, or null if it does not exist.
+   */
+  async run(jobId: string, maxChunks = DEFAULT_MAX_CHUNKS): Promise<BackfillJob | null> {
+    if (!(await this.claim(jobId))) {
+      return this.get(jobId);
+    }
+
+    const job = await this.get(jobId);
+    if (!job) return null;
+
+    const end = Date.parse(job.end);
+    let cursor = Date.parse(job.cursor);
+    try {
+      for (let chunk = 0; chunk < maxChunks && cursor < end; chunk++) {
+        const chunkEnd = Math.min(cursor + job.chunkHours * 60 * 60 * 1000, end);
+        const states = await this.importHistory(job.entityIds, new Date(cursor), new Date(chunkEnd));
+        const statistics = job.includeStatistics
+          ? await this.importStatistics(job.entityIds, new Date(cursor), new Date(chunkEnd))
+          : 0;
+        cursor = chunkEnd;
+        await this.env.RECORDER_DB.prepare(
+          `UPDATE recorder_backfill_jobs SET cursor = ?2, states_imported = states_imported + ?3,
+           statistics_imported = statistics_imported + ?4, updated_at = CURRENT_TIMESTAMP WHERE job_id = ?1`,
+        )
+          .bind(jobId, toRecorderTimestamp(cursor), states, statistics)
+          .run();
+      }
+      await this.setStatus(jobId, cursor >= end ? "completed" : "pending", null);
+    } catch (error) {
+      console.error(`Backfill job ${jobId} failed`, error);
+      await this.setStatus(jobId, "failed", (error as Error).message);
+    }
+
+    return this.get(jobId);
+  }
+
+  /**
+   * Continues the oldest unfinished job. Called from the scheduled handler so long backfills progress
+   * without the caller keeping a request open.
+   * @returns {Promise<BackfillJob | null>} The job that was advanced, if any.
+   */
+  async resumePending(): Promise<BackfillJob | null> {
+    const row = await this.env.RECORDER_DB.prepare(
+      "SELECT job_id FROM recorder_backfill_jobs WHERE status = 'pending' ORDER BY created_at LIMIT 1",
+    ).first<{ job_id: string }>();
+    return row ? this.run(row.job_id) : null;
+  }
+
+  /**
+   * Marks a job as running unless it is finished or another run holds it.
+   * Failed jobs can be claimed again, which is how they are resumed.
+   * @private
+   * @param {string} jobId - The job ID.
+   * @returns {Promise<boolean>} True if this run now owns the job.
+   */
+  private async claim(jobId: string): Promise<boolean> {
+    const result = await this.env.RECORDER_DB.prepare(
+      `UPDATE recorder_backfill_jobs SET status = 'running', error = NULL, updated_at = CURRENT_TIMESTAMP
+       WHERE job_id = ?1 AND (status IN ('pending', 'failed') OR (status = 'running' AND updated_at < ?2))`,
+    )
+      .bind(jobId, toRecorderTimestamp(Date.now() - STALE_RUN_MS))
+      .run();
+    return result.meta.changes > 0;
+  }
+
+  /**
+   * Records the outcome of a run.
+   * @private
+   * @param {string} jobId - The job ID.
+   * @param {BackfillStatus} status - The new status.
+   * @param {string | null} error - The failure message, if any.
+   * @returns {Promise<void>}
+   */
+  private async setStatus(jobId: string, status: BackfillStatus, error: string | null): Promise<void> {
+    await this.env.RECORDER_DB.prepare(
+      "UPDATE recorder_backfill_jobs SET status = ?2, error = ?3, updated_at = CURRENT_TIMESTAMP WHERE job_id = ?1",
+    )
+      .bind(jobId, status, error)
+      .run();
+  }
+
+  /**
+   * Imports the state changes of a window from `/api/history/period`.
+   * @private
+   * @param {string[]} entityIds - The entities to import.
+   * @param {Date} start - The start of the window.
+   * @param {Date} end - The end of the window.
+   * @returns {Promise<number>} The number of state rows inserted.
+   */
+  private async importHistory(entityIds: string[], start: Date, end: Date): Promise<number> {
+    const response = await new HomeAssistantClient(this.env).rest<HomeAssistantState[][]>(
+      `/api/history/period/${start.toISOString()}`,
+      {
+        query: {
+          filter_entity_id: entityIds.join(","),
+          end_time: end.toISOString(),
+          significant_changes_only: "0",
+        },
+      },
+    );
+    if (response.status !== 200 || !Array.isArray(response.data)) {
+      throw new Error(`Home Assistant history request failed with status ${response.status}`);
+    }
+
+    // Home Assistant reports the state in effect at the start of the window as of the start time; that row
+    // is not a real change, so only states updated after the start are imported.
+    const states = response.data.flat().filter((state) => Date.parse(state.last_updated) > start.getTime());
+    if (states.length === 0) return 0;
+
+    const statements = states.map((state) => {
+      const lastUpdated = toRecorderTimestamp(state.last_updated);
+      return this.env.RECORDER_DB.prepare(
+        `INSERT OR IGNORE INTO states(entity_id, state, attributes, event_id, last_changed, last_updated, old_state_id)
+         VALUES (?1, ?2, ?3, NULL, ?4, ?5,
+           (SELECT state_id FROM states WHERE entity_id = ?1 AND last_updated < ?5 ORDER BY last_updated DESC LIMIT 1))`,
+      ).bind(
+        state.entity_id,
+        state.state,
+        JSON.stringify(state.attributes ?? {}),
+        toRecorderTimestamp(state.last_changed),
+        lastUpdated,
+      );
+    });
+    // Rows recorded after the window now have an older predecessor, so their links are recomputed.
+    statements.push(
+      this.env.RECORDER_DB.prepare(
+        `UPDATE states SET old_state_id = (SELECT p.state_id FROM states p WHERE p.entity_id = states.entity_id
+           AND p.last_updated < states.last_updated ORDER BY p.last_updated DESC LIMIT 1)
+         WHERE state_id IN (SELECT (SELECT s.state_id FROM states s WHERE s.entity_id = e.value AND s.last_updated >= ?2
+           ORDER BY s.last_updated LIMIT 1) FROM json_each(?1) e)`,
+      ).bind(JSON.stringify(entityIds), toRecorderTimestamp(end)),
+    );
+
+    const results = await this.env.RECORDER_DB.batch(statements);
+    return results.slice(0, states.length).reduce((total, result) => total + result.meta.changes, 0);
+  }
+
+  /**
+   * Imports the hourly statistics of a window with `recorder/statistics_during_period`, creating
+   * `statistics_meta` rows from `recorder/get_statistics_metadata`. Rows are marked as backfilled, and sums are
+   * rebased onto the replica's own series (see `sumOffset`); a sum that cannot be rebased is left out.
+   * @private
+   * @param {string[]} statisticIds - The statistic IDs to import (entity IDs for recorder statistics).
+   * @param {Date} start - The start of the window.
+   * @param {Date} end - The end of the window.
+   * @returns {Promise<number>} The number of statistics rows inserted.
+   */
+  private async importStatistics(statisticIds: string[], start: Date, end: Date): Promise<number> {
+    const periods = await this.command<Record<string, StatisticsRow[]>>({
+      type: "recorder/statistics_during_period",
+      start_time: start.toISOString(),
+      end_time: end.toISOString(),
+      statistic_ids: statisticIds,
+      period: "hour",
+      types: ["mean", "min", "max", "last_reset", "state", "sum"],
+    });
+    const found = Object.keys(periods).filter((statisticId) => periods[statisticId].length > 0);
+    if (found.length === 0) return 0;
+
+    const metadata = await this.command<StatisticsMetadata[]>({
+      type: "recorder/get_statistics_metadata",
+      statistic_ids: found,
+    });
+
+    const metadataStatements: D1PreparedStatement[] = [];
+    const rowStatements: D1PreparedStatement[] = [];
+    for (const meta of metadata) {
+      metadataStatements.push(
+        this.env.RECORDER_DB.prepare(
+          `INSERT INTO statistics_meta(statistic_id, unit_of_measurement, source, name, has_mean, has_sum)
+           VALUES (?1, ?2, ?3, ?4, ?5, ?6) ON CONFLICT(statistic_id) DO NOTHING`,
+        ).bind(
+          meta.statistic_id,
+          meta.statistics_unit_of_measurement ?? null,
+          meta.source ?? "recorder",
+          meta.name ?? null,
+          meta.has_mean ? 1 : 0,
+          meta.has_sum ? 1 : 0,
+        ),
+      );
+      const rows = periods[meta.statistic_id] ?? [];
+      const offset = meta.has_sum ? await this.sumOffset(meta.statistic_id, rows) : 0;
+      for (const row of rows) {
+        rowStatements.push(
+          this.env.RECORDER_DB.prepare(
+            `INSERT INTO statistics(metadata_id, start, mean, min, max, last_reset, state, sum, backfilled)
+             SELECT id, ?2, ?3, ?4, ?5, ?6, ?7, ?8, 1 FROM statistics_meta WHERE statistic_id = ?1
+             ON CONFLICT(metadata_id, start) DO NOTHING`,
+          ).bind(
+            meta.statistic_id,
+            toRecorderTimestamp(row.start),
+            row.mean ?? null,
+            row.min ?? null,
+            row.max ?? null,
+            row.last_reset ? toRecorderTimestamp(row.last_reset) : null,
+            row.state ?? null,
+            typeof row.sum === "number" && offset !== null ? row.sum + offset : null,
+          ),
+        );
+      }
+    }
+
+    const results = await this.env.RECORDER_DB.batch([...metadataStatements, ...rowStatements]);
+    return results.slice(metadataStatements.length).reduce((total, result) => total + result.meta.changes, 0);
+  }
+
+  /**
+   * Finds what to add to Home Assistant's sums of a statistic so they continue the replica's series. Home Assistant's
+   * sum is a running total since it first recorded the statistic, while the compiler's starts from zero, so the two
+   * are compared at the earliest hour the compiler produced. Without a compiled hour the totals are kept as they
+   * are, and the compiler continues from them.
+   * @private
+   * @param {string} statisticId - The statistic ID.
+   * @param {StatisticsRow[]} rows - The imported rows, checked first for the compared hour.
+   * @returns {Promise<number | null>} The offset, or null if Home Assistant has no sum for the compared hour.
+   */
+  private async sumOffset(statisticId: string, rows: StatisticsRow[]): Promise<number | null> {
+    const anchor = await this.env.RECORDER_DB.prepare(
+      `SELECT s.start, s.sum FROM statistics s JOIN statistics_meta m ON m.id = s.metadata_id
+       WHERE m.statistic_id = ?1 AND s.backfilled = 0 AND s.sum IS NOT NULL ORDER BY s.start LIMIT 1`,
+    )
+      .bind(statisticId)
+      .first<{ start: string; sum: number }>();
+    if (!anchor) return 0;
+
+    let remote = rows.find((row) => toRecorderTimestamp(row.start) === anchor.start);
+    if (!remote) {
+      const anchorStart = Date.parse(fromRecorderTimestamp(anchor.start));
+      const periods = await this.command<Record<string, StatisticsRow[]>>({
+        type: "recorder/statistics_during_period",
+        start_time: new Date(anchorStart).toISOString(),
+        end_time: new Date(anchorStart + HOURLY_PERIOD_MS).toISOString(),
+        statistic_ids: [statisticId],
+        period: "hour",
+        types: ["sum"],
+      });
+      remote = periods[statisticId]?.[0];
+    }
+    return typeof remote?.sum === "number" ? anchor.sum - remote.sum : null;
+  }
+
+  /**
+   * Sends a WebSocket command through the Durable Object's Home Assistant connection.
+   * @private
+   * @template T The expected type of the command's result.
+   * @param {Record<string, unknown>} command - The command, without a message ID.
+   * @returns {Promise<T>} The command's result.
+   */
+  private async command<T>(command: Record<string, unknown>): Promise<T> {
+    const stub = this.env.HA_WEBSOCKET_DO.get(this.env.HA_WEBSOCKET_DO.idFromName("ha-core"));
+    const response = await stub.fetch("https://do/command", { method: "POST", body: JSON.stringify(command) });
+    const body = (await response.json()) as { result?: T; error?: string };
+    if (!response.ok) {
+      throw new Error(`${String(command.type)} failed: ${body.error ?? response.status}`);
+    }
+    return body.result as T;
+  }
+
+  /**
+   * Converts a database row into a job.
+   * @private
+   * @param {JobRow} row - The row.
+   * @returns {BackfillJob} The job.
+   */
+  private toJob(row: JobRow): BackfillJob {
+    const start = Date.parse(fromRecorderTimestamp(row.start_time));
+    const end = Date.parse(fromRecorderTimestamp(row.end_time));
+    const cursor = Date.parse(fromRecorderTimestamp(row.cursor));
+    return {
+      jobId: row.job_id,
+      entityIds: JSON.parse(row.entity_ids),
+      start: fromRecorderTimestamp(row.start_time),
+      end: fromRecorderTimestamp(row.end_time),
+      chunkHours: row.chunk_hours,
+      includeStatistics: row.include_statistics === 1,
+      cursor: fromRecorderTimestamp(row.cursor),
+      status: row.status,
+      progress: end > start ? Math.min(1, (cursor - start) / (end - start)) : 1,
+      statesImported: row.states_imported,
+      statisticsImported: row.statistics_imported,
+      error: row.error,
+      createdAt: row.created_at,
+      updatedAt: row.updated_at,
+    };
+  }
+}
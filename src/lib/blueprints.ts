@@ -0,0 +1,529 @@
+/**
+ * @file This file contains automation blueprints: automation templates with declared inputs that are validated,
+ * rendered and installed into Home Assistant through its automation config API, with every installed automation
+ * tracked back to its blueprint.
+ */
+
+import { z } from "zod";
+import type { Env } from "../types";
+import { ActionPolicy, type ServiceAction } from "./actionPolicy";
+import { ENTITY_ID_PATTERN, type HomeAssistantRestResponse, HomeAssistantClient } from "./haClient";
+
+/** The keys of Home Assistant script actions that hold nested actions. */
+const NESTED_ACTION_KEYS = ["sequence", "then", "else", "default", "choose", "parallel", "repeat"];
+
+/**
+ * Checks whether a value is an `{"!input": "name"}` reference.
+ * @param {unknown} value - The value.
+ * @returns {value is { "!input": string }} True if the value is a reference.
+ */
+const isInputReference = (value: unknown): value is { "!input": string } =>
+  Boolean(value) &&
+  typeof value === "object" &&
+  !Array.isArray(value) &&
+  Object.keys(value as object).length === 1 &&
+  typeof (value as Record<string, unknown>)["!input"] === "string";
+
+/**
+ * Lists the inputs an automation template refers to.
+ * @param {unknown} template - The template.
+ * @returns {string[]} The referenced input names.
+ */
+const inputReferences = (template: unknown): string[] => {
+  if (isInputReference(template)) return [template["!input"]];
+  if (Array.isArray(template)) return template.flatMap(inputReferences);
+  if (template && typeof template === "object") return Object.values(template).flatMap(inputReferences);
+  return [];
+};
+
+/**
+ * Replaces every input reference in an automation template with the input's value.
+ * @param {unknown} template - The template.
+ * @param {Record<string, unknown>} inputs - The input values.
+ * @returns {unknown} The rendered automation.
+ */
+const substituteInputs = (template: unknown, inputs: Record<string, unknown>): unknown => {
+  if (isInputReference(template)) return inputs[template["!input"]];
+  if (Array.isArray(template)) return template.map((item) => substituteInputs(item, inputs));
+  if (template && typeof template === "object") {
+    return Object.fromEntries(Object.entries(template).map(([key, value]) => [key, substituteInputs(value, inputs)]));
+  }
+  return template;
+};
+
+/**
+ * Collects the service calls an automation's actions can make, including those nested in `choose`, `if`, `repeat`,
+ * `parallel` and `sequence` blocks. Device actions (`device_id` with a `domain` and `type`) count as a call of
+ * `domain.type` on the device.
+ * @param {unknown} actions - The `actions` (or `action`) of an automation, or a nested part of them.
+ * @param {ServiceAction[]} [calls=[]] - Receives the calls.
+ * @returns {ServiceAction[]} The calls.
+ */
+const serviceCalls = (actions: unknown, calls: ServiceAction[] = []): ServiceAction[] => {
+  if (Array.isArray(actions)) {
+    for (const action of actions) serviceCalls(action, calls);
+    return calls;
+  }
+  if (!actions || typeof actions !== "object") return calls;
+
+  const step = actions as Record<string, unknown>;
+  const name = step.action ?? step.service;
+  if (typeof name === "string") {
+    const [domain, service = ""] = name.split(".", 2);
+    const data = step.data && typeof step.data === "object" ? step.data : {};
+    const target = step.target && typeof step.target === "object" ? step.target : {};
+    calls.push({ domain, service, data: { ...data, ...target } });
+  } else if (!("condition" in step) && step.device_id && typeof step.domain === "string" && typeof step.type === "string") {
+    calls.push({ domain: step.domain, service: step.type, data: { device_id: step.device_id } });
+  }
+  for (const key of NESTED_ACTION_KEYS) {
+    serviceCalls(step[key], calls);
+  }
+  return calls;
+};
+
+/**
+ * Zod schema for a declared blueprint input. The selectors mirror Home Assistant's blueprint selectors.
+ */
+const BlueprintInputSchema = z.object({
+  name: z.string().optional(),
+  description: z.string().optional(),
+  /** Used when an instance omits the input; inputs without a default are required. */
+  default: z.unknown().optional(),
+  selector: z.union([
+    z.object({
+      entity: z
+        .object({
+          /** Restricts the entity to these domains. */
+          domain: z.union([z.string(), z.array(z.string())]).optional(),
+          /** Accepts a list of entities. */
+          multiple: z.boolean().optional(),
+        })
+        .default({}),
+    }),
+    z.object({
+      number: z
+        .object({
+          min: z.number().optional(),
+          max: z.number().optional(),
+          step: z.number().positive().optional(),
+          unit_of_measurement: z.string().optional(),
+        })
+        .default({}),
+    }),
+    z.object({ time: z.object({}).default({}) }),
+    z.object({ text: z.object({}).default({}) }),
+    z.object({ boolean: z.object({}).default({}) }),
+  ]),
+});
+
+/**
+ * Zod schema for creating or replacing a blueprint. `ha_payload` is the automation, in which `{"!input": "name"}`
+ * stands for the value of an input, like the `!input` tag of Home Assistant blueprints.
+ */
+export const BlueprintPayloadSchema = z
+  .object({
+    name: z.string().min(1),
+    description: z.string().optional(),
+    inputs: z.record(z.string().regex(/^\w+$/), BlueprintInputSchema).default({}),
+    ha_payload: z
+      .record(z.unknown())
+      .refine((payload) => "trigger" in payload || "triggers" in payload, "ha_payload needs a trigger")
+      .refine((payload) => "action" in payload || "actions" in payload, "ha_payload needs an action"),
+    worker_payload: z.unknown().optional(),
+  })
+  .superRefine((payload, ctx) => {
+    for (const reference of inputReferences(payload.ha_payload)) {
+      if (!(reference in payload.inputs)) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["ha_payload"], message: `Undeclared input ${reference}` });
+      }
+    }
+  });
+
+/**
+ * Zod schema for installing or updating an automation from a blueprint.
+ */
+export const BlueprintInstanceSchema = z.object({
+  /** The value of each declared input. */
+  inputs: z.record(z.unknown()).default({}),
+  /** The automation's name in Home Assistant; defaults to the blueprint's `alias` or name. */
+  alias: z.string().min(1).optional(),
+  /** Installs even though action policies require confirmation for some of the automation's actions. */
+  confirm: z.boolean().optional(),
+});
+
+export type BlueprintInput = z.infer<typeof BlueprintInputSchema>;
+export type BlueprintPayload = z.infer<typeof BlueprintPayloadSchema>;
+export type BlueprintInstanceInput = z.infer<typeof BlueprintInstanceSchema>;
+
+/**
+ * A stored blueprint.
+ */
+export interface AutomationBlueprint {
+  id: number;
+  name: string;
+  description: string | null;
+  inputs: Record<string, BlueprintInput>;
+  haPayload: Record<string, unknown>;
+  workerPayload: unknown;
+  createdAt: string;
+  updatedAt: string | null;
+}
+
+/**
+ * A Home Assistant automation installed from a blueprint.
+ */
+export interface BlueprintInstance {
+  /** The automation's ID in Home Assistant's automation config. */
+  automationId: string;
+  blueprintId: number;
+  alias: string;
+  /** The validated input values, defaults included. */
+  inputs: Record<string, unknown>;
+  /** The rendered automation as sent to Home Assistant. */
+  config: Record<string, unknown>;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * The outcome of rendering a blueprint.
+ */
+export type RenderResult =
+  | { status: "rendered"; inputs: Record<string, unknown>; config: Record<string, unknown> }
+  | { status: "invalid"; issues: z.ZodFormattedError<Record<string, unknown>> };
+
+/**
+ * The outcome of installing, updating or uninstalling an automation.
+ */
+export type InstallResult =
+  | { status: "installed" | "uninstalled"; instance: BlueprintInstance }
+  | { status: "invalid"; issues: z.ZodFormattedError<Record<string, unknown>> }
+  | { status: "denied" | "confirmation_required"; reasons: string[] }
+  | { status: "rejected"; response: Pick<HomeAssistantRestResponse, "status" | "data"> };
+
+/** A row of `automation_blueprints`. */
+type BlueprintRow = {
+  id: number;
+  name: string;
+  description: string | null;
+  inputs: string | null;
+  ha_payload: string | null;
+  worker_payload: string | null;
+  created_at: string;
+  updated_at: string | null;
+};
+
+/** A row of `blueprint_instances`. */
+type InstanceRow = {
+  automation_id: string;
+  blueprint_id: number;
+  alias: string;
+  inputs: string;
+  config: string;
+  created_at: string;
+  updated_at: string;
+};
+
+/**
+ * Builds the schema an input's value must satisfy.
+ * @param {BlueprintInput} input - The declared input.
+ * @returns {z.ZodTypeAny} The value schema.
+ */
+const inputValueSchema = (input: BlueprintInput): z.ZodTypeAny => {
+  const { selector } = input;
+  let schema: z.ZodTypeAny;
+  if ("entity" in selector) {
+    const domains = selector.entity.domain === undefined ? null : [selector.entity.domain].flat();
+    const entityId = z
+      .string()
+      .regex(ENTITY_ID_PATTERN, "Expected an entity ID")
+      .refine((value) => !domains || domains.includes(value.split(".")[0]), `Expected a ${domains?.join(" or ")} entity`);
+    schema = selector.entity.multiple ? z.array(entityId).min(1) : entityId;
+  } else if ("number" in selector) {
+    const { min, max } = selector.number;
+    schema = z.number().refine((value) => (min === undefined || value >= min) && (max === undefined || value <= max), {
+      message: `Expected a number${min !== undefined ? ` >= ${min}` : ""}${max !== undefined ? ` <= ${max}` : ""}`,
+    });
+  } else if ("time" in selector) {
+    schema = z.string().regex(/^([01]\d|2[0-3]):[0-5]\d(:[0-5]\d)?$/, "Expected HH:MM or HH:MM:SS");
+  } else if ("boolean" in selector) {
+    schema = z.boolean();
+  } else {
+    schema = z.string();
+  }
+  return input.default === undefined ? schema : schema.default(input.default);
+};
+
+/**
+ * Stores automation blueprints and installs automations from them.
+ */
+export class AutomationBlueprints {
+  /**
+   * Initializes a new instance of AutomationBlueprints.
+   * @param {Env} env - The Cloudflare Worker environment bindings.
+   */
+  constructor(private readonly env: Env) {}
+
+  /**
+   * Lists every blueprint.
+   * @returns {Promise<AutomationBlueprint[]>} The blueprints, ordered by ID.
+   */
+  async list(): Promise<AutomationBlueprint[]> {
+    const { results } = await this.env.CONFIG_DB.prepare("SELECT * FROM automation_blueprints ORDER BY id").all<BlueprintRow>();
+    return results.map((row) => this.toBlueprint(row));
+  }
+
+  /**
+   * Reads a blueprint.
+   * @param {number} id - The blueprint ID.
+   * @returns {Promise<AutomationBlueprint | null>} The blueprint, or null if it does not exist.
+   */
+  async get(id: number): Promise<AutomationBlueprint | null> {
+    const row = await this.env.CONFIG_DB.prepare("SELECT * FROM automation_blueprints WHERE id = ?1")
+      .bind(id)
+      .first<BlueprintRow>();
+    return row ? this.toBlueprint(row) : null;
+  }
+
+  /**
+   * Creates a blueprint.
+   * @param {BlueprintPayload} payload - The validated blueprint.
+   * @returns {Promise<AutomationBlueprint>} The stored blueprint.
+   */
+  async create(payload: BlueprintPayload): Promise<AutomationBlueprint> {
+    const row = await this.env.CONFIG_DB.prepare(
+      `INSERT INTO automation_blueprints(name, description, inputs, ha_payload, worker_payload)
+       VALUES (?1, ?2, json(?3), json(?4), json(?5)) RETURNING *`,
+    )
+      .bind(
+        payload.name,
+        payload.description ?? null,
+        JSON.stringify(payload.inputs),
+        JSON.stringify(payload.ha_payload),
+        JSON.stringify(payload.worker_payload ?? {}),
+      )
+      .first<BlueprintRow>();
+    return this.toBlueprint(row as BlueprintRow);
+  }
+
+  /**
+   * Replaces a blueprint and reinstalls every automation installed from it with its stored inputs.
+   * @param {number} id - The blueprint ID.
+   * @param {BlueprintPayload} payload - The validated blueprint.
+   * @returns {Promise<{ blueprint: AutomationBlueprint; reinstalled: Array<{ automationId: string } & InstallResult> } | null>}
+   * The stored blueprint and the outcome per automation, or null if the blueprint does not exist.
+   */
+  async update(
+    id: number,
+    payload: BlueprintPayload,
+  ): Promise<{ blueprint: AutomationBlueprint; reinstalled: Array<{ automationId: string } & InstallResult> } | null> {
+    const row = await this.env.CONFIG_DB.prepare(
+      `UPDATE automation_blueprints SET name = ?1, description = ?2, inputs = json(?3), ha_payload = json(?4),
+       worker_payload = json(?5), updated_at = CURRENT_TIMESTAMP WHERE id = ?6 RETURNING *`,
+    )
+      .bind(
+        payload.name,
+        payload.description ?? null,
+        JSON.stringify(payload.inputs),
+        JSON.stringify(payload.ha_payload),
+        JSON.stringify(payload.worker_payload ?? {}),
+        id,
+      )
+      .first<BlueprintRow>();
+    if (!row) return null;
+
+    const blueprint = this.toBlueprint(row);
+    const reinstalled: Array<{ automationId: string } & InstallResult> = [];
+    for (const instance of await this.instances(id)) {
+      const result = await this.install(blueprint, { inputs: instance.inputs, alias: instance.alias }, instance.automationId);
+      reinstalled.push({ automationId: instance.automationId, ...result });
+    }
+    return { blueprint, reinstalled };
+  }
+
+  /**
+   * Deletes a blueprint that has no installed automations.
+   * @param {number} id - The blueprint ID.
+   * @returns {Promise<"deleted" | "not_found" | "in_use">} The outcome; `in_use` if automations were installed from it.
+   */
+  async delete(id: number): Promise<"deleted" | "not_found" | "in_use"> {
+    if ((await this.instances(id)).length > 0) return "in_use";
+    const result = await this.env.CONFIG_DB.prepare("DELETE FROM automation_blueprints WHERE id = ?1").bind(id).run();
+    return result.meta.changes > 0 ? "deleted" : "not_found";
+  }
+
+  /**
+   * Lists the automations installed from a blueprint.
+   * @param {number} id - The blueprint ID.
+   * @returns {Promise<BlueprintInstance[]>} The installed automations.
+   */
+  async instances(id: number): Promise<BlueprintInstance[]> {
+    const { results } = await this.env.CONFIG_DB.prepare(
+      "SELECT * FROM blueprint_instances WHERE blueprint_id = ?1 ORDER BY created_at",
+    )
+      .bind(id)
+      .all<InstanceRow>();
+    return results.map((row) => this.toInstance(row));
+  }
+
+  /**
+   * Reads an installed automation.
+   * @param {string} automationId - The automation ID.
+   * @returns {Promise<BlueprintInstance | null>} The automation, or null if it was not installed from a blueprint.
+   */
+  async instance(automationId: string): Promise<BlueprintInstance | null> {
+    const row = await this.env.CONFIG_DB.prepare("SELECT * FROM blueprint_instances WHERE automation_id = ?1")
+      .bind(automationId)
+      .first<InstanceRow>();
+    return row ? this.toInstance(row) : null;
+  }
+
+  /**
+   * Validates input values against a blueprint's declared inputs and renders the automation.
+   * @param {AutomationBlueprint} blueprint - The blueprint.
+   * @param {BlueprintInstanceInput} instance - The input values and alias.
+   * @returns {RenderResult} The rendered automation, or the validation issues.
+   */
+  render(blueprint: AutomationBlueprint, instance: BlueprintInstanceInput): RenderResult {
+    const schema = z
+      .object(Object.fromEntries(Object.entries(blueprint.inputs).map(([name, input]) => [name, inputValueSchema(input)])))
+      .strict();
+    const parsed = schema.safeParse(instance.inputs);
+    if (!parsed.success) {
+      return { status: "invalid", issues: parsed.error.format() };
+    }
+
+    const config = substituteInputs(blueprint.haPayload, parsed.data) as Record<string, unknown>;
+    return {
+      status: "rendered",
+      inputs: parsed.data,
+      config: {
+        ...config,
+        alias: instance.alias ?? config.alias ?? blueprint.name,
+        description: config.description ?? blueprint.description ?? `Installed from blueprint "${blueprint.name}"`,
+      },
+    };
+  }
+
+  /**
+   * Renders a blueprint and creates or updates the automation in Home Assistant, then records where it came from.
+   * Home Assistant runs the automation's actions later without asking the action policy, so every service call they
+   * can make is checked now: denied calls block the install, and calls that need confirmation block it unless the
+   * instance is installed with `confirm` set.
+   * @param {AutomationBlueprint} blueprint - The blueprint.
+   * @param {BlueprintInstanceInput} instance - The input values, alias and confirmation.
+   * @param {string} [automationId] - The automation to update; a new automation is created when omitted.
+   * @returns {Promise<InstallResult>} The installed automation, the validation issues, the policy outcome, or Home
+   * Assistant's rejection.
+   */
+  async install(blueprint: AutomationBlueprint, instance: BlueprintInstanceInput, automationId?: string): Promise<InstallResult> {
+    const rendered = this.render(blueprint, instance);
+    if (rendered.status === "invalid") return rendered;
+
+    const review = await this.reviewActions(rendered.config);
+    if (review.denied.length > 0) {
+      return { status: "denied", reasons: review.denied };
+    }
+    if (review.confirm.length > 0 && !instance.confirm) {
+      return { status: "confirmation_required", reasons: review.confirm };
+    }
+
+    const id = automationId ?? crypto.randomUUID().replace(/-/g, "");
+    const response = await new HomeAssistantClient(this.env).rest(`/api/config/automation/config/${encodeURIComponent(id)}`, {
+      method: "POST",
+      body: JSON.stringify({ id, ...rendered.config }),
+    });
+    if (response.status >= 400) {
+      return { status: "rejected", response: { status: response.status, data: response.data } };
+    }
+
+    const row = await this.env.CONFIG_DB.prepare(
+      `INSERT INTO blueprint_instances(automation_id, blueprint_id, alias, inputs, config)
+       VALUES (?1, ?2, ?3, json(?4), json(?5))
+       ON CONFLICT(automation_id) DO UPDATE SET blueprint_id = excluded.blueprint_id, alias = excluded.alias,
+         inputs = excluded.inputs, config = excluded.config, updated_at = CURRENT_TIMESTAMP
+       RETURNING *`,
+    )
+      .bind(id, blueprint.id, rendered.config.alias, JSON.stringify(rendered.inputs), JSON.stringify(rendered.config))
+      .first<InstanceRow>();
+    return { status: "installed", instance: this.toInstance(row as InstanceRow) };
+  }
+
+  /**
+   * Deletes an installed automation from Home Assistant and forgets it. An automation already missing from Home
+   * Assistant is forgotten as well.
+   * @param {BlueprintInstance} instance - The installed automation.
+   * @returns {Promise<InstallResult>} `uninstalled`, or Home Assistant's rejection.
+   */
+  async uninstall(instance: BlueprintInstance): Promise<InstallResult> {
+    const response = await new HomeAssistantClient(this.env).rest(
+      `/api/config/automation/config/${encodeURIComponent(instance.automationId)}`,
+      { method: "DELETE" },
+    );
+    if (response.status >= 400 && response.status !== 404) {
+      return { status: "rejected", response: { status: response.status, data: response.data } };
+    }
+    await this.env.CONFIG_DB.prepare("DELETE FROM blueprint_instances WHERE automation_id = ?1")
+      .bind(instance.automationId)
+      .run();
+    return { status: "uninstalled", instance };
+  }
+
+  /**
+   * Checks every service call a rendered automation can make against the action policies. Policies limited to a
+   * time of day apply whatever the time, since the automation can fire at any time.
+   * @private
+   * @param {Record<string, unknown>} config - The rendered automation.
+   * @returns {Promise<{ denied: string[]; confirm: string[] }>} Why calls are blocked or need confirmation.
+   */
+  private async reviewActions(config: Record<string, unknown>): Promise<{ denied: string[]; confirm: string[] }> {
+    const policy = new ActionPolicy(this.env);
+    const review: { denied: string[]; confirm: string[] } = { denied: [], confirm: [] };
+    for (const call of serviceCalls(config.actions ?? config.action)) {
+      const decision = await policy.evaluate(call, null);
+      if (decision.effect === "allow") continue;
+      const target = decision.entityId ? ` on ${decision.entityId}` : "";
+      const why = decision.policy ? `policy "${decision.policy.name}"` : decision.reason;
+      review[decision.effect === "deny" ? "denied" : "confirm"].push(`${call.domain}.${call.service}${target}: ${why}`);
+    }
+    return review;
+  }
+
+  /**
+   * Converts a row into a blueprint. Blueprints stored before inputs were declared have none.
+   * @private
+   * @param {BlueprintRow} row - The row.
+   * @returns {AutomationBlueprint} The blueprint.
+   */
+  private toBlueprint(row: BlueprintRow): AutomationBlueprint {
+    return {
+      id: row.id,
+      name: row.name,
+      description: row.description,
+      inputs: row.inputs ? JSON.parse(row.inputs) : {},
+      haPayload: row.ha_payload ? JSON.parse(row.ha_payload) : {},
+      workerPayload: row.worker_payload ? JSON.parse(row.worker_payload) : null,
+      createdAt: row.created_at,
+      updatedAt: row.updated_at,
+    };
+  }
+
+  /**
+   * Converts a row into an installed automation.
+   * @private
+   * @param {InstanceRow} row - The row.
+   * @returns {BlueprintInstance} The installed automation.
+   */
+  private toInstance(row: InstanceRow): BlueprintInstance {
+    return {
+      automationId: row.automation_id,
+      blueprintId: row.blueprint_id,
+      alias: row.alias,
+      inputs: JSON.parse(row.inputs),
+      config: JSON.parse(row.config),
+      createdAt: row.created_at,
+      updatedAt: row.updated_at,
+    };
+  }
+}
@@ -0,0 +1,109 @@
+/**
+ * @file This file contains camera analysis with the vision model, for single cameras and for scheduled sweeps
+ * across every camera.
+ */
+
+import type { Env, HomeAssistantState } from "../types";
+import { HomeAssistantClient } from "./haClient";
+import { ModelRegistry } from "./models";
+
+/** The prompt used when a caller does not provide one. */
+export const DEFAULT_CAMERA_PROMPT = "Analyze scene";
+
+/** How long sweep results are kept in KV. */
+const SWEEP_TTL_SECONDS = 60 * 60 * 24 * 7;
+
+/**
+ * The vision model's analysis of one camera image.
+ */
+export interface CameraAnalysis {
+  entityId: string;
+  /** The model that produced the analysis. */
+  model: string;
+  result: unknown;
+}
+
+/**
+ * The outcome of a sweep across cameras.
+ */
+export interface CameraSweep {
+  sweptAt: string;
+  analyses: CameraAnalysis[];
+  /** Cameras whose image could not be fetched or analyzed. */
+  failures: { entityId: string; error: string }[];
+}
+
+/**
+ * Fetches camera images from Home Assistant and describes them with the vision model.
+ */
+export class CameraAnalyzer {
+  /**
+   * Initializes a new instance of the CameraAnalyzer.
+   * @param {Env} env - The Cloudflare Worker environment bindings.
+   */
+  constructor(private readonly env: Env) {}
+
+  /**
+   * Analyzes the current image of a camera.
+   * @param {string} entityId - The camera entity.
+   * @param {{ prompt?: string; metadata?: Record<string, unknown>; model?: string }} [options={}] - The prompt, extra
+   * model input and an allowlisted vision model overriding `VISION_MODEL`.
+   * @returns {Promise<CameraAnalysis>} The analysis.
+   */
+  async analyze(
+    entityId: string,
+    options: { prompt?: string; metadata?: Record<string, unknown>; model?: string } = {},
+  ): Promise<CameraAnalysis> {
+    const imageResponse = await new HomeAssistantClient(this.env).streamCamera(entityId);
+    if (!imageResponse.ok) {
+      throw new Error(`Home Assistant returned ${imageResponse.status} for ${entityId}`);
+    }
+    const buffer = await imageResponse.arrayBuffer();
+    const base64 = btoa(String.fromCharCode(...new Uint8Array(buffer)));
+
+    const { model, output: result } = await new ModelRegistry(this.env).run(
+      "vision",
+      {
+        prompt: options.prompt ?? DEFAULT_CAMERA_PROMPT,
+        image: [{ data: base64, mime: imageResponse.headers.get("Content-Type") ?? "image/jpeg" }],
+        metadata: options.metadata,
+      },
+      options.model,
+    );
+    return { entityId, model, result };
+  }
+
+  /**
+   * Analyzes several cameras one after another and stores the results in KV under `camera-sweep:<time>` for 7 days.
+   * @param {{ entityIds?: string[]; prompt?: string; model?: string }} [options={}] - The cameras, every `camera`
+   * entity by default, plus the prompt and model.
+   * @returns {Promise<CameraSweep>} The analyses and failures.
+   */
+  async sweep(options: { entityIds?: string[]; prompt?: string; model?: string } = {}): Promise<CameraSweep> {
+    const entityIds = options.entityIds ?? (await this.cameras());
+    const sweep: CameraSweep = { sweptAt: new Date().toISOString(), analyses: [], failures: [] };
+    for (const entityId of entityIds) {
+      try {
+        sweep.analyses.push(await this.analyze(entityId, { prompt: options.prompt, model: options.model }));
+      } catch (error) {
+        sweep.failures.push({ entityId, error: (error as Error).message });
+      }
+    }
+    await this.env.MEMORY_KV.put(`camera-sweep:${sweep.sweptAt}`, JSON.stringify(sweep), {
+      expirationTtl: SWEEP_TTL_SECONDS,
+    });
+    return sweep;
+  }
+
+  /**
+   * Lists every camera entity from the Durable Object's state cache.
+   * @private
+   * @returns {Promise<string[]>} The camera entity IDs.
+   */
+  private async cameras(): Promise<string[]> {
+    const stub = this.env.HA_WEBSOCKET_DO.get(this.env.HA_WEBSOCKET_DO.idFromName("ha-core"));
+    const response = await stub.fetch("https://do/states?domain=camera");
+    const { states } = (await response.json()) as { states: HomeAssistantState[] };
+    return states.map((state) => state.entity_id);
+  }
+}
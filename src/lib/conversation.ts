@@ -0,0 +1,229 @@
+/**
+ * @file This file contains the agent's conversation store: role-tagged transcripts of every session kept in
+ * `CONFIG_DB`, with the tool calls and results each exchange produced.
+ */
+
+import type { Env } from "../types";
+
+/** The default number of turns returned per page. */
+const DEFAULT_PAGE_SIZE = 50;
+
+/** The maximum number of turns returned per page. */
+const MAX_PAGE_SIZE = 200;
+
+/** Who a conversation turn came from. */
+export type ConversationRole = "user" | "assistant" | "tool";
+
+/**
+ * A stored conversation turn.
+ */
+export interface ConversationTurn {
+  /** The turn's position in the store; also the pagination cursor. */
+  id: number;
+  sessionId: string;
+  /** Groups a user turn with the tool calls and reply it produced. */
+  exchangeId: string;
+  role: ConversationRole;
+  /** The prompt, the reply, or the JSON-encoded tool result. */
+  content: string;
+  /** The tool name, for tool results. */
+  name: string | null;
+  /** The ID of the tool call a tool result answers. */
+  toolCallId: string | null;
+  /** The request context of user turns, the tool calls of assistant turns, or the arguments of tool results. */
+  payload: unknown;
+  createdAt: string;
+}
+
+/**
+ * A turn to append to a session.
+ */
+export type NewConversationTurn = Pick<ConversationTurn, "role" | "content"> &
+  Partial<Pick<ConversationTurn, "name" | "toolCallId" | "payload">>;
+
+/**
+ * A page of a session's transcript, oldest turn first.
+ */
+export interface ConversationPage {
+  turns: ConversationTurn[];
+  /** Pass as `cursor` to fetch the next page, or null when this is the last page. */
+  nextCursor: number | null;
+}
+
+/** A row of `conversation_turns`. */
+type TurnRow = {
+  id: number;
+  session_id: string;
+  exchange_id: string;
+  role: ConversationRole;
+  content: string;
+  name: string | null;
+  tool_call_id: string | null;
+  payload: string | null;
+  created_at: string;
+};
+
+/**
+ * Reads and writes conversation transcripts. Turns are only ever inserted, so concurrent requests in the same
+ * session cannot overwrite each other.
+ */
+export class ConversationStore {
+  /**
+   * Initializes a new instance of the ConversationStore.
+   * @param {Env} env - The Cloudflare Worker environment bindings.
+   */
+  constructor(private readonly env: Env) {}
+
+  /**
+   * Appends an exchange to a session. The turns are written in one batch, so they stay contiguous even when
+   * other requests append to the same session at the same time.
+   * @param {string} sessionId - The session ID.
+   * @param {NewConversationTurn[]} turns - The exchange's turns, in order.
+   * @returns {Promise<string>} The exchange ID.
+   */
+  async append(sessionId: string, turns: NewConversationTurn[]): Promise<string> {
+    const exchangeId = crypto.randomUUID();
+    const statement = this.env.CONFIG_DB.prepare(
+      `INSERT INTO conversation_turns(session_id, exchange_id, role, content, name, tool_call_id, payload)
+       VALUES (?1, ?2, ?3, ?4, ?5, ?6, json(?7))`,
+    );
+    await this.env.CONFIG_DB.batch(
+      turns.map((turn) =>
+        statement.bind(
+          sessionId,
+          exchangeId,
+          turn.role,
+          turn.content,
+          turn.name ?? null,
+          turn.toolCallId ?? null,
+          turn.payload === undefined ? null : JSON.stringify(turn.payload),
+        ),
+      ),
+    );
+    return exchangeId;
+  }
+
+  /**
+   * Returns a page of a session's transcript.
+   * @param {string} sessionId - The session ID.
+   * @param {{ cursor?: number; limit?: number }} [options={}] - Start after this turn ID; the page size.
+   * @returns {Promise<ConversationPage>} The turns and the cursor of the next page.
+   */
+  async page(sessionId: string, options: { cursor?: number; limit?: number } = {}): Promise<ConversationPage> {
+    const limit = Math.min(Math.max(options.limit ?? DEFAULT_PAGE_SIZE, 1), MAX_PAGE_SIZE);
+    // Fetch one extra row to learn whether another page follows.
+    const { results } = await this.env.CONFIG_DB.prepare(
+      "SELECT * FROM conversation_turns WHERE session_id = ?1 AND id > ?2 ORDER BY id LIMIT ?3",
+    )
+      .bind(sessionId, options.cursor ?? 0, limit + 1)
+      .all<TurnRow>();
+    const turns = results.slice(0, limit).map((row) => this.toTurn(row));
+    return { turns, nextCursor: results.length > limit ? turns[turns.length - 1].id : null };
+  }
+
+  /**
+   * Returns the turns of a session's most recent exchanges, ready to replay as chat history.
+   * Exchanges that ended in client-side tool calls have no results for those calls, and chat backends reject
+   * unanswered tool calls, so they are left out of the assistant turns, and turns left with nothing are dropped.
+   * @param {string} sessionId - The session ID.
+   * @param {number} exchanges - The number of exchanges.
+   * @returns {Promise<ConversationTurn[]>} The turns, oldest first.
+   */
+  async recent(sessionId: string, exchanges: number): Promise<ConversationTurn[]> {
+    const { results } = await this.env.CONFIG_DB.prepare(
+      `SELECT * FROM conversation_turns WHERE session_id = ?1 AND exchange_id IN (
+         SELECT exchange_id FROM conversation_turns WHERE session_id = ?1 AND role = 'user' ORDER BY id DESC LIMIT ?2
+       ) ORDER BY id`,
+    )
+      .bind(sessionId, exchanges)
+      .all<TurnRow>();
+    const turns = results.map((row) => this.toTurn(row));
+
+    const answered = new Set(turns.filter((turn) => turn.role === "tool").map((turn) => turn.toolCallId));
+    return turns.flatMap((turn) => {
+      if (turn.role !== "assistant" || !Array.isArray(turn.payload)) return [turn];
+      const calls = (turn.payload as { id?: string }[]).filter((call) => answered.has(call.id ?? null));
+      if (calls.length > 0) return [{ ...turn, payload: calls }];
+      return turn.content ? [{ ...turn, payload: null }] : [];
+    });
+  }
+
+  /**
+   * Returns the turns that have not been summarized yet, leaving out the most recent exchanges.
+   * @param {string} sessionId - The session ID.
+   * @param {number} keepExchanges - The number of recent exchanges to leave out.
+   * @returns {Promise<ConversationTurn[]>} The turns, oldest first.
+   */
+  async unsummarized(sessionId: string, keepExchanges: number): Promise<ConversationTurn[]> {
+    const { results } = await this.env.CONFIG_DB.prepare(
+      `SELECT * FROM conversation_turns WHERE session_id = ?1 AND summarized = 0 AND exchange_id NOT IN (
+         SELECT exchange_id FROM conversation_turns WHERE session_id = ?1 AND role = 'user' ORDER BY id DESC LIMIT ?2
+       ) ORDER BY id`,
+    )
+      .bind(sessionId, keepExchanges)
+      .all<TurnRow>();
+    return results.map((row) => this.toTurn(row));
+  }
+
+  /**
+   * Marks a session's turns up to and including a turn as summarized.
+   * @param {string} sessionId - The session ID.
+   * @param {number} throughId - The last summarized turn.
+   * @returns {Promise<void>}
+   */
+  async markSummarized(sessionId: string, throughId: number): Promise<void> {
+    await this.env.CONFIG_DB.prepare(
+      "UPDATE conversation_turns SET summarized = 1 WHERE session_id = ?1 AND id <= ?2 AND summarized = 0",
+    )
+      .bind(sessionId, throughId)
+      .run();
+  }
+
+  /**
+   * Finds sessions with more unsummarized exchanges than a threshold.
+   * @param {number} minExchanges - Only sessions with more unsummarized exchanges than this are returned.
+   * @param {number} limit - The maximum number of sessions.
+   * @returns {Promise<string[]>} The session IDs.
+   */
+  async sessionsToSummarize(minExchanges: number, limit: number): Promise<string[]> {
+    const { results } = await this.env.CONFIG_DB.prepare(
+      `SELECT session_id FROM conversation_turns WHERE summarized = 0 AND role = 'user'
+       GROUP BY session_id HAVING COUNT(*) > ?1 ORDER BY MIN(id) LIMIT ?2`,
+    )
+      .bind(minExchanges, limit)
+      .all<{ session_id: string }>();
+    return results.map((row) => row.session_id);
+  }
+
+  /**
+   * Deletes a session's transcript.
+   * @param {string} sessionId - The session ID.
+   * @returns {Promise<number>} The number of turns deleted.
+   */
+  async delete(sessionId: string): Promise<number> {
+    const result = await this.env.CONFIG_DB.prepare("DELETE FROM conversation_turns WHERE session_id = ?1")
+      .bind(sessionId)
+      .run();
+    return result.meta.changes;
+  }
+
+  /**
+   * Converts a row into a conversation turn.
+   * @private
+   * @param {TurnRow} row - The row.
+   * @returns {ConversationTurn} The turn.
+   */
+  private toTurn(row: TurnRow): ConversationTurn {
+    return {
+      id: row.id,
+      sessionId: row.session_id,
+      exchangeId: row.exchange_id,
+      role: row.role,
+      content: row.content,
+      name: row.name,
+      toolCallId: row.tool_call_id,
+      payload: row.payload === null ? null : JSON.parse(row.payload),
+      createdAt: row.created_at,
+    };
+  }
+}
@@ -0,0 +1,175 @@
+/**
+ * @file This file contains a matcher for five-field cron expressions (minute, hour, day of month, month, day of
+ * week), evaluated in the home's local time, and helpers for converting between UTC and local wall-clock time.
+ */
+
+/** The allowed range of each cron field, in order. */
+const FIELD_RANGES: [number, number][] = [
+  [0, 59],
+  [0, 23],
+  [1, 31],
+  [1, 12],
+  [0, 7],
+];
+
+/** Maps `Intl` weekday names to cron day numbers. */
+const WEEKDAYS: Record<string, number> = { Sun: 0, Mon: 1, Tue: 2, Wed: 3, Thu: 4, Fri: 5, Sat: 6 };
+
+/**
+ * Expands one cron field into the values it matches.
+ * @param {string} field - The field, e.g. `*`, `*\/15`, `1-5` or `0,30`.
+ * @param {[number, number]} range - The field's allowed range.
+ * @returns {Set<number> | null} The matched values, or null if the field is invalid.
+ */
+const expandField = (field: string, [min, max]: [number, number]): Set<number> | null => {
+  const values = new Set<number>();
+  for (const part of field.split(",")) {
+    const match = part.match(/^(\*|(\d+)(?:-(\d+))?)(?:\/(\d+))?$/);
+    if (!match) return null;
+    const start = match[1] === "*" ? min : Number(match[2]);
+    const end = match[1] === "*" ? max : match[3] !== undefined ? Number(match[3]) : match[4] ? max : start;
+    const step = match[4] ? Number(match[4]) : 1;
+    if (start < min || end > max || start > end || step < 1) return null;
+    for (let value = start; value <= end; value += step) {
+      values.add(value);
+    }
+  }
+  return values;
+};
+
+/**
+ * Parses a cron expression into the values each field matches.
+ * @param {string} expression - The cron expression.
+ * @returns {Set<number>[] | null} One set per field, or null if the expression is invalid.
+ */
+const parseCron = (expression: string): Set<number>[] | null => {
+  const fields = expression.trim().split(/\s+/);
+  if (fields.length !== FIELD_RANGES.length) return null;
+  const parsed = fields.map((field, index) => expandField(field, FIELD_RANGES[index]));
+  if (parsed.some((values) => values === null)) return null;
+  const sets = parsed as Set<number>[];
+  // Both 0 and 7 mean Sunday.
+  if (sets[4].has(7)) sets[4].add(0);
+  return sets;
+};
+
+/**
+ * Checks whether a cron expression is valid.
+ * @param {string} expression - The cron expression.
+ * @returns {boolean} True if the expression has five valid fields.
+ */
+export const isValidCron = (expression: string): boolean => parseCron(expression) !== null;
+
+/**
+ * Checks whether a cron expression matches the minute containing a time. As in standard cron, when both the day
+ * of month and the day of week are restricted, either may match.
+ * @param {string} expression - The cron expression.
+ * @param {Date} date - The time.
+ * @param {string} [timeZone="UTC"] - The IANA time zone the expression is written in.
+ * @returns {boolean} True if the expression matches; false if it does not or is invalid.
+ */
+export const cronMatches = (expression: string, date: Date, timeZone = "UTC"): boolean => {
+  const fields = parseCron(expression);
+  if (!fields) return false;
+
+  const parts = Object.fromEntries(
+    new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      minute: "numeric",
+      hour: "numeric",
+      day: "numeric",
+      month: "numeric",
+      weekday: "short",
+      hourCycle: "h23",
+    })
+      .formatToParts(date)
+      .map((part) => [part.type, part.value]),
+  );
+  const [minutes, hours, days, months, weekdays] = fields;
+  // Like Vixie cron, a field starting with `*` (including steps such as `*\/2`) does not restrict the day.
+  const dayOfMonthRestricted = !expression.trim().split(/\s+/)[2].startsWith("*");
+  const dayOfWeekRestricted = !expression.trim().split(/\s+/)[4].startsWith("*");
+  const dayOfMonthMatches = days.has(Number(parts.day));
+  const dayOfWeekMatches = weekdays.has(WEEKDAYS[parts.weekday]);
+
+  return (
+    minutes.has(Number(parts.minute)) &&
+    hours.has(Number(parts.hour)) &&
+    months.has(Number(parts.month)) &&
+    (dayOfMonthRestricted && dayOfWeekRestricted
+      ? dayOfMonthMatches || dayOfWeekMatches
+      : dayOfMonthMatches && dayOfWeekMatches)
+  );
+};
+
+/**
+ * Checks whether a cron expression matches any minute in a window, for schedulers that wake up every few minutes.
+ * @param {string} expression - The cron expression.
+ * @param {Date} after - The start of the window (exclusive).
+ * @param {Date} until - The end of the window (inclusive).
+ * @param {string} [timeZone="UTC"] - The IANA time zone the expression is written in.
+ * @returns {boolean} True if some minute in the window matches.
+ */
+export const cronMatchesBetween = (expression: string, after: Date, until: Date, timeZone = "UTC"): boolean => {
+  const minute = 60 * 1000;
+  for (let time = Math.floor(after.getTime() / minute) * minute + minute; time <= until.getTime(); time += minute) {
+    if (cronMatches(expression, new Date(time), timeZone)) return true;
+  }
+  return false;
+};
+
+/**
+ * Reads the wall-clock date and time of an instant in a time zone.
+ * @param {Date} date - The instant.
+ * @param {string} timeZone - The IANA time zone.
+ * @returns {Record<string, string>} The `year`, `month`, `day`, `hour`, `minute` and `second` parts, zero-padded.
+ */
+const wallClockParts = (date: Date, timeZone: string): Record<string, string> =>
+  Object.fromEntries(
+    new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      year: "numeric",
+      month: "2-digit",
+      day: "2-digit",
+      hour: "2-digit",
+      minute: "2-digit",
+      second: "2-digit",
+      hourCycle: "h23",
+    })
+      .formatToParts(date)
+      .map((part) => [part.type, part.value]),
+  );
+
+/**
+ * Formats an instant as local wall-clock time, e.g. `2024-05-01T07:30`.
+ * @param {Date} date - The instant.
+ * @param {string} [timeZone="UTC"] - The IANA time zone.
+ * @returns {string} The local date and time, without an offset.
+ */
+export const formatLocalTime = (date: Date, timeZone = "UTC"): string => {
+  const parts = wallClockParts(date, timeZone);
+  return `${parts.year}-${parts.month}-${parts.day}T${parts.hour}:${parts.minute}`;
+};
+
+/**
+ * Parses a date and time. Times with a `Z` or offset are absolute; times without one are local wall-clock time in
+ * the time zone.
+ * @param {string} text - The time, e.g. `2024-05-01T07:30` or `2024-05-01T05:30:00Z`.
+ * @param {string} [timeZone="UTC"] - The IANA time zone of times without an offset.
+ * @returns {Date | null} The instant, or null if the text is not a date and time.
+ */
+export const parseLocalTime = (text: string, timeZone = "UTC"): Date | null => {
+  if (/(Z|[+-]\d{2}:?\d{2})$/i.test(text)) {
+    const date = new Date(text);
+    return Number.isNaN(date.getTime()) ? null : date;
+  }
+  const match = text.match(/^(\d{4})-(\d{2})-(\d{2})[T ](\d{2}):(\d{2})(?::(\d{2}))?$/);
+  if (!match) return null;
+  const [, year, month, day, hour, minute, second] = match.map(Number);
+  const wallClock = Date.UTC(year, month - 1, day, hour, minute, second || 0);
+  // Shift by the zone's offset at that moment; the offset is read back from the formatted instant.
+  const parts = wallClockParts(new Date(wallClock), timeZone);
+  const offset =
+    Date.UTC(+parts.year, +parts.month - 1, +parts.day, +parts.hour, +parts.minute, +parts.second) - wallClock;
+  return new Date(wallClock - offset);
+};
@@ -0,0 +1,370 @@
+/**
+ * @file This file contains the entity resolver, which turns spoken names like "kitchen lights" into entity IDs
+ * using entity profiles, Home Assistant friendly names and the entity, device and area registries.
+ */
+
+import type { Env, HomeAssistantState } from "../types";
+import { HomeAssistantClient } from "./haClient";
+
+/** The minimum score a candidate needs to count as a match. */
+const MATCH_THRESHOLD = 0.7;
+
+/** A singular request is ambiguous when the runner-up scores within this margin of the best match. */
+const AMBIGUITY_MARGIN = 0.08;
+
+/** A plural request matches every candidate scoring within this margin of the best match. */
+const PLURAL_MARGIN = 0.2;
+
+/** Two tokens are considered the same word when their edit-distance similarity reaches this value. */
+const TOKEN_SIMILARITY = 0.75;
+
+/** The number of candidates returned alongside the matches. */
+const MAX_CANDIDATES = 5;
+
+/** How long registry data is cached in KV, in seconds. */
+const REGISTRY_CACHE_TTL = 10 * 60;
+
+/** The KV key of the cached registry data. */
+const REGISTRY_CACHE_KEY = "entity-resolver:registry";
+
+/** Words that carry no meaning for matching. */
+const STOP_WORDS = new Set(["the", "a", "an", "my", "in", "on", "of", "at", "please", "all", "both", "every", "and"]);
+
+/** Words that make a request target every matching entity. */
+const PLURAL_WORDS = new Set(["all", "both", "every"]);
+
+/** Everyday words for entity domains, so "lamp" finds lights and "blinds" finds covers. */
+const DOMAIN_WORDS: Record<string, string[]> = {
+  light: ["light", "lamp", "bulb"],
+  switch: ["switch", "plug", "outlet"],
+  fan: ["fan"],
+  cover: ["cover", "blind", "shade", "curtain", "shutter", "garage"],
+  lock: ["lock"],
+  climate: ["climate", "thermostat", "heating", "heater", "ac"],
+  media_player: ["media", "player", "tv", "television", "speaker"],
+  camera: ["camera"],
+  vacuum: ["vacuum", "robot"],
+  sensor: ["sensor", "temperature", "humidity"],
+};
+
+/**
+ * A matched entity.
+ */
+export interface ResolvedEntity {
+  entityId: string;
+  /** The display name of the entity. */
+  name: string;
+  /** The room or area the entity is in, if known. */
+  area: string | null;
+  /** How well the entity matches the query, from 0 to 1. */
+  score: number;
+  /** The name or alias that produced the score. */
+  matchedOn: string;
+}
+
+/**
+ * The outcome of resolving a query.
+ */
+export interface ResolutionResult {
+  query: string;
+  /** `resolved` when the targets are clear, `ambiguous` when the user must choose, `not_found` otherwise. */
+  status: "resolved" | "ambiguous" | "not_found";
+  /** Whether the query refers to several entities ("lights", "all fans"). */
+  plural: boolean;
+  /** The entities to act on; empty unless resolved. */
+  entities: ResolvedEntity[];
+  /** The best-scoring candidates. */
+  candidates: ResolvedEntity[];
+  /** The question to ask the user when the query is ambiguous or matched nothing. */
+  question?: string;
+}
+
+/** Entity and area registry data relevant to matching. */
+type RegistryData = {
+  /** Registry entries keyed by entity ID. */
+  entities: Record<string, { name: string | null; aliases: string[]; areaId: string | null }>;
+  /** Areas keyed by area ID. */
+  areas: Record<string, { name: string; aliases: string[] }>;
+};
+
+/** Everything known about an entity for matching. */
+type EntityCandidate = {
+  entityId: string;
+  domain: string;
+  name: string;
+  names: string[];
+  area: string | null;
+  locationTokens: string[];
+};
+
+/**
+ * Reduces a word to its singular form.
+ * @param {string} token - A lower-case word.
+ * @returns {string} The singular form.
+ */
+const singularize = (token: string): string => {
+  if (token.length <= 3 || token.endsWith("ss")) return token;
+  if (token.endsWith("ies")) return `${token.slice(0, -3)}y`;
+  if (/(ch|sh|x)es$/.test(token)) return token.slice(0, -2);
+  if (token.endsWith("s")) return token.slice(0, -1);
+  return token;
+};
+
+/**
+ * Splits text into normalized, singular tokens.
+ * @param {string} text - The text to split.
+ * @returns {string[]} The tokens.
+ */
+const tokenize = (text: string): string[] =>
+  text
+    .toLowerCase()
+    .replace(/[_.]/g, " ")
+    .replace(/[^\p{L}\p{N}\s]/gu, "")
+    .split(/\s+/)
+    .filter(Boolean)
+    .map(singularize);
+
+/**
+ * Computes the Levenshtein distance between two strings.
+ * @param {string} a - The first string.
+ * @param {string} b - The second string.
+ * @returns {number} The number of single-character edits turning `a` into `b`.
+ */
+const editDistance = (a: string, b: string): number => {
+  let previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+    }
+    previous = current;
+  }
+  return previous[b.length];
+};
+
+/**
+ * Scores how alike two tokens are; short tokens must match exactly.
+ * @param {string} a - The first token.
+ * @param {string} b - The second token.
+ * @returns {number} The similarity from 0 to 1, or 0 below the token similarity threshold.
+ */
+const tokenSimilarity = (a: string, b: string): number => {
+  if (a === b) return 1;
+  if (a.length <= 3 || b.length <= 3) return 0;
+  const similarity = 1 - editDistance(a, b) / Math.max(a.length, b.length);
+  return similarity >= TOKEN_SIMILARITY ? similarity : 0;
+};
+
+/**
+ * Resolves spoken entity names against everything known about the home's entities.
+ */
+export class EntityResolver {
+  /**
+   * Initializes a new instance of the EntityResolver.
+   * @param {Env} env - The Cloudflare Worker environment bindings.
+   */
+  constructor(private readonly env: Env) {}
+
+  /**
+   * Resolves a query like "kitchen lights" or "the hallway lamp" to entities.
+   * @param {string} query - The spoken name.
+   * @param {{ domain?: string }} [options={}] - Restrict matches to a domain.
+   * @returns {Promise<ResolutionResult>} The matches, or a clarifying question.
+   */
+  async resolve(query: string, options: { domain?: string } = {}): Promise<ResolutionResult> {
+    const tokens = tokenize(query).filter((token) => !STOP_WORDS.has(token));
+    const plural = query
+      .toLowerCase()
+      .split(/\s+/)
+      .map((word) => word.replace(/[^\p{L}\p{N}]/gu, ""))
+      .some((word) => PLURAL_WORDS.has(word) || singularize(word) !== word);
+
+    const candidates = (await this.loadCandidates()).filter(
+      (candidate) => !options.domain || candidate.domain === options.domain,
+    );
+    const scored = candidates
+      .map((candidate) => this.score(candidate, tokens))
+      .sort((a, b) => b.score - a.score);
+
+    const best = scored[0];
+    const top = scored.slice(0, MAX_CANDIDATES);
+    if (!best || best.score < MATCH_THRESHOLD) {
+      return {
+        query,
+        status: "not_found",
+        plural,
+        entities: [],
+        candidates: top.filter((candidate) => candidate.score > 0),
+        question: `I couldn't find anything called "${query}". Which device do you mean?`,
+      };
+    }
+
+    if (plural) {
+      // A group named exactly like the query (e.g. a "Kitchen Lights" light group) stands for its members.
+      const floor = best.score === 1 ? 1 : Math.max(MATCH_THRESHOLD, best.score - PLURAL_MARGIN);
+      const entities = scored.filter((candidate) => candidate.score >= floor);
+      return { query, status: "resolved", plural, entities, candidates: top };
+    }
+
+    const close = scored.filter((candidate) => candidate.score >= best.score - AMBIGUITY_MARGIN);
+    if (close.length > 1) {
+      const options = close.slice(0, MAX_CANDIDATES).map((candidate) => candidate.name);
+      return {
+        query,
+        status: "ambiguous",
+        plural,
+        entities: [],
+        candidates: close.slice(0, MAX_CANDIDATES),
+        question: `Which one do you mean: ${options.slice(0, -1).join(", ")} or ${options[options.length - 1]}?`,
+      };
+    }
+
+    return { query, status: "resolved", plural, entities: [best], candidates: top };
+  }
+
+  /**
+   * Scores a candidate against the query: only an exact name or alias match scores 1; otherwise each query token is
+   * matched against the candidate's name, location and domain words, with a small bonus for covering the whole name.
+   * @private
+   * @param {EntityCandidate} candidate - The entity to score.
+   * @param {string[]} tokens - The query tokens without stop words.
+   * @returns {ResolvedEntity} The scored entity.
+   */
+  private score(candidate: EntityCandidate, tokens: string[]): ResolvedEntity {
+    const result = { entityId: candidate.entityId, name: candidate.name, area: candidate.area };
+    const normalizedQuery = tokens.join(" ");
+    const domainWords = DOMAIN_WORDS[candidate.domain] ?? [candidate.domain];
+
+    let best: ResolvedEntity = { ...result, score: 0, matchedOn: candidate.name };
+    for (const name of candidate.names) {
+      const nameTokens = tokenize(name).filter((token) => !STOP_WORDS.has(token));
+      if (nameTokens.join(" ") === normalizedQuery) {
+        return { ...result, score: 1, matchedOn: name };
+      }
+      if (tokens.length === 0) continue;
+
+      const vocabulary = [...nameTokens, ...candidate.locationTokens, ...domainWords];
+      const tokenScores = tokens.map((token) => Math.max(0, ...vocabulary.map((word) => tokenSimilarity(token, word))));
+      const matchedNameTokens = nameTokens.filter((word) => tokens.some((token) => tokenSimilarity(token, word) > 0));
+      const coverage = nameTokens.length > 0 ? matchedNameTokens.length / nameTokens.length : 0;
+      const score = Math.min(
+        0.99,
+        0.9 * (tokenScores.reduce((sum, value) => sum + value, 0) / tokens.length) + 0.1 * coverage,
+      );
+      if (score > best.score) {
+        best = { ...result, score: Math.round(score * 1000) / 1000, matchedOn: name };
+      }
+    }
+    return best;
+  }
+
+  /**
+   * Gathers every entity with its names and location from the state cache, entity profiles and registries.
+   * @private
+   * @returns {Promise<EntityCandidate[]>} The entities to match against.
+   */
+  private async loadCandidates(): Promise<EntityCandidate[]> {
+    const [states, profiles, registry] = await Promise.all([
+      this.loadStates(),
+      this.env.CONFIG_DB.prepare("SELECT entity_id, nickname, room, aliases FROM entity_profiles").all<{
+        entity_id: string;
+        nickname: string | null;
+        room: string | null;
+        aliases: string | null;
+      }>(),
+      this.loadRegistry(),
+    ]);
+    const profilesById = new Map(profiles.results.map((profile) => [profile.entity_id, profile]));
+
+    return states.map((state) => {
+      const profile = profilesById.get(state.entity_id);
+      const entry = registry.entities[state.entity_id];
+      const area = entry?.areaId ? registry.areas[entry.areaId] : undefined;
+      const friendlyName = state.attributes.friendly_name as string | undefined;
+      const names = [
+        profile?.nickname,
+        ...(profile?.aliases ? (JSON.parse(profile.aliases) as string[]) : []),
+        friendlyName,
+        entry?.name,
+        ...(entry?.aliases ?? []),
+        state.entity_id.split(".")[1],
+      ].filter((name): name is string => Boolean(name));
+
+      return {
+        entityId: state.entity_id,
+        domain: state.entity_id.split(".")[0],
+        name: profile?.nickname ?? friendlyName ?? state.entity_id,
+        names: [...new Set(names)],
+        area: profile?.room ?? area?.name ?? null,
+        locationTokens: [profile?.room, area?.name, ...(area?.aliases ?? [])]
+          .filter((value): value is string => Boolean(value))
+          .flatMap(tokenize),
+      };
+    });
+  }
+
+  /**
+   * Loads current states from the Durable Object's state cache, falling back to the REST API when it is empty.
+   * @private
+   * @returns {Promise<HomeAssistantState[]>} The current states.
+   */
+  private async loadStates(): Promise<HomeAssistantState[]> {
+    const stub = this.env.HA_WEBSOCKET_DO.get(this.env.HA_WEBSOCKET_DO.idFromName("ha-core"));
+    const cached = (await stub
+      .fetch("https://do/states")
+      .then((response) => response.json())
+      .catch(() => ({ states: [] }))) as { states: HomeAssistantState[] };
+    if (cached.states.length > 0) return cached.states;
+
+    const response = await new HomeAssistantClient(this.env).rest<HomeAssistantState[]>("/api/states");
+    return response.status === 200 ? response.data : [];
+  }
+
+  /**
+   * Loads entity and area registry data over the Durable Object's WebSocket, cached in KV. Resolution still works
+   * from names alone when Home Assistant is unreachable.
+   * @private
+   * @returns {Promise<RegistryData>} The registry data.
+   */
+  private async loadRegistry(): Promise<RegistryData> {
+    const cached = await this.env.MEMORY_KV.get<RegistryData>(REGISTRY_CACHE_KEY, { type: "json" });
+    if (cached) return cached;
+
+    const stub = this.env.HA_WEBSOCKET_DO.get(this.env.HA_WEBSOCKET_DO.idFromName("ha-core"));
+    const command = async <T>(type: string): Promise<T> => {
+      const response = await stub.fetch("https://do/command", { method: "POST", body: JSON.stringify({ type }) });
+      if (!response.ok) throw new Error(`${type} failed with status ${response.status}`);
+      return ((await response.json()) as { result: T }).result;
+    };
+
+    try {
+      const [entities, devices, areas] = await Promise.all([
+        command<{ entity_id: string; name: string | null; aliases?: string[]; area_id: string | null; device_id: string | null }[]>(
+          "config/entity_registry/list",
+        ),
+        command<{ id: string; area_id: string | null }[]>("config/device_registry/list"),
+        command<{ area_id: string; name: string; aliases?: string[] }[]>("config/area_registry/list"),
+      ]);
+      const deviceAreas = new Map(devices.map((device) => [device.id, device.area_id]));
+      const registry: RegistryData = {
+        entities: Object.fromEntries(
+          entities.map((entry) => [
+            entry.entity_id,
+            {
+              name: entry.name,
+              aliases: entry.aliases ?? [],
+              // Entities inherit their device's area unless they override it.
+              areaId: entry.area_id ?? (entry.device_id ? (deviceAreas.get(entry.device_id) ?? null) : null),
+            },
+          ]),
+        ),
+        areas: Object.fromEntries(areas.map((area) => [area.area_id, { name: area.name, aliases: area.aliases ?? [] }])),
+      };
+      await this.env.MEMORY_KV.put(REGISTRY_CACHE_KEY, JSON.stringify(registry), { expirationTtl: REGISTRY_CACHE_TTL });
+      return registry;
+    } catch (error) {
+      console.warn("Entity registry unavailable, resolving from names only", error);
+      return { entities: {}, areas: {} };
+    }
+  }
+}
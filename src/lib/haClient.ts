@@ -1,4 +1,13 @@
-import type { Env } from "../types";
+import type { Env, HomeAssistantConversationResult } from "../types";
+
+/** Matches a Home Assistant domain or service name. Anything else could change the REST path it is put into. */
+export const SERVICE_NAME_PATTERN = /^[a-z0-9_]+$/;
+
+/** Matches a Home Assistant entity ID such as `light.kitchen`. */
+export const ENTITY_ID_PATTERN = /^[a-z0-9_]+\.[a-z0-9_]+$/;
+
+/** Matches a Home Assistant event type such as `my_event` or `ios.action_fired`. */
+export const EVENT_TYPE_PATTERN = /^[A-Za-z0-9_]+(\.[A-Za-z0-9_]+)*$/;
 
 /**
  * Extends the standard RequestInit type to include an optional query object for building URL search parameters.
@@ -123,8 +132,12 @@ export class HomeAssistantClient {
    * @param {string} service - The service to call (e.g., "turn_on", "toggle").
    * @param {Record<string, unknown>} [payload={}] - The service data payload, often containing an `entity_id`.
    * @returns {Promise<HomeAssistantRestResponse>} The API response.
+   * @throws {Error} If the domain or service is not a valid name.
    */
   async callService(domain: string, service: string, payload: Record<string, unknown> = {}): Promise<HomeAssistantRestResponse> {
+    if (!SERVICE_NAME_PATTERN.test(domain) || !SERVICE_NAME_PATTERN.test(service)) {
+      throw new Error(`Invalid service ${domain}.${service}`);
+    }
     return this.rest(`/api/services/${domain}/${service}`, {
       method: "POST",
       body: JSON.stringify(payload),
@@ -136,8 +149,12 @@ export class HomeAssistantClient {
    * @param {string} eventType - The name of the event to fire.
    * @param {Record<string, unknown>} [payload={}] - The data payload for the event.
    * @returns {Promise<HomeAssistantRestResponse>} The API response.
+   * @throws {Error} If the event type is not a valid name.
    */
   async fireEvent(eventType: string, payload: Record<string, unknown> = {}): Promise<HomeAssistantRestResponse> {
+    if (!EVENT_TYPE_PATTERN.test(eventType)) {
+      throw new Error(`Invalid event type ${eventType}`);
+    }
     return this.rest(`/api/events/${eventType}`, {
       method: "POST",
       body: JSON.stringify(payload),
@@ -148,10 +165,14 @@ export class HomeAssistantClient {
    * Sends a text prompt to the Home Assistant conversation integration.
    * @param {string} prompt - The text to process (e.g., "Turn on the living room lights").
    * @param {Record<string, unknown>} [context] - Optional additional context for the conversation.
-   * @returns {Promise<HomeAssistantRestResponse>} The API response containing the conversation result.
+   * @returns {Promise<HomeAssistantRestResponse<HomeAssistantConversationResult>>} The API response containing the
+   * conversation result.
    */
-  async converse(prompt: string, context?: Record<string, unknown>): Promise<HomeAssistantRestResponse> {
-    return this.rest("/api/conversation/process", {
+  async converse(
+    prompt: string,
+    context?: Record<string, unknown>,
+  ): Promise<HomeAssistantRestResponse<HomeAssistantConversationResult>> {
+    return this.rest<HomeAssistantConversationResult>("/api/conversation/process", {
       method: "POST",
       body: JSON.stringify({ text: prompt, ...context }),
     });
@@ -0,0 +1,277 @@
+/**
+ * @file This file contains history and logbook queries over the D1 recorder replica.
+ * Responses follow the shapes of Home Assistant's `/api/history/period` and `/api/logbook` endpoints.
+ */
+
+import type { Env } from "../types";
+import { HomeAssistantClient } from "./haClient";
+import { RECORDER_CHECKPOINT_MS, RecorderIngestor, fromRecorderTimestamp, toRecorderTimestamp } from "./recorder";
+
+/**
+ * Domains whose attribute-only changes are significant, mirroring Home Assistant's recorder.
+ */
+const SIGNIFICANT_DOMAINS = new Set(["climate", "device_tracker", "humidifier", "thermostat", "water_heater"]);
+
+/**
+ * How far the cursor's confirmation may lag behind the end of a window before the replica counts as incomplete:
+ * one missed checkpoint of the Durable Object.
+ */
+const CONFIRMATION_TOLERANCE_MS = 2 * RECORDER_CHECKPOINT_MS;
+
+/** A row of the `states` table as read for history queries. */
+type StateRow = {
+  entity_id: string;
+  state: string | null;
+  attributes: string | null;
+  last_changed: string;
+  last_updated: string;
+};
+
+/**
+ * Options accepted by history queries, named after Home Assistant's query parameters.
+ */
+export interface HistoryOptions {
+  /** The entity IDs to return history for. */
+  entityIds: string[];
+  /** The start of the window. */
+  start: Date;
+  /** The end of the window. */
+  end: Date;
+  /** Return only `state` and `last_changed` for states other than the first and last. */
+  minimalResponse?: boolean;
+  /** Skip attribute-only changes, except for domains where those are significant. */
+  significantChangesOnly?: boolean;
+  /** Omit attributes entirely. */
+  noAttributes?: boolean;
+}
+
+/**
+ * Options accepted by logbook queries.
+ */
+export interface LogbookOptions {
+  /** The start of the window. */
+  start: Date;
+  /** The end of the window. */
+  end: Date;
+  /** Restrict the logbook to a single entity. */
+  entityId?: string;
+}
+
+/** A history state entry as returned by Home Assistant. */
+export type HistoryState = {
+  entity_id?: string;
+  state: string | null;
+  attributes?: Record<string, unknown>;
+  last_changed: string;
+  last_updated?: string;
+};
+
+/** A logbook entry as returned by Home Assistant. */
+export interface LogbookEntry {
+  when: string;
+  name: string;
+  entity_id?: string;
+  state?: string | null;
+  message?: string;
+  domain?: string;
+  context_id?: string | null;
+  context_user_id?: string | null;
+}
+
+/**
+ * The result of a query, along with where the data came from.
+ * @template T The shape of the data.
+ */
+export interface HistoryResult<T> {
+  /** Whether the data was read from the replica or proxied from Home Assistant. */
+  source: "replica" | "home_assistant";
+  /** The query result. */
+  data: T;
+}
+
+/**
+ * Answers history and logbook queries from the recorder replica, falling back to Home Assistant
+ * when the replica does not cover the requested window.
+ */
+export class RecorderHistory {
+  /**
+   * Initializes a new instance of the RecorderHistory.
+   * @param {Env} env - The Cloudflare Worker environment bindings.
+   */
+  constructor(private readonly env: Env) {}
+
+  /**
+   * Returns the state history of the requested entities, one array per entity, like `/api/history/period`.
+   * @param {HistoryOptions} options - The query options.
+   * @param {boolean} [allowFallback=true] - Whether to proxy to Home Assistant when the replica has a gap.
+   * @returns {Promise<HistoryResult<HistoryState[][]>>} The history and its source.
+   */
+  async history(options: HistoryOptions, allowFallback = true): Promise<HistoryResult<HistoryState[][]>> {
+    if (allowFallback && !(await this.covers(options.start, options.end, options.entityIds))) {
+      const response = await new HomeAssistantClient(this.env).rest<HistoryState[][]>(
+        `/api/history/period/${options.start.toISOString()}`,
+        {
+          query: {
+            filter_entity_id: options.entityIds.join(","),
+            end_time: options.end.toISOString(),
+            minimal_response: options.minimalResponse ? "" : undefined,
+            significant_changes_only: options.significantChangesOnly ? undefined : "0",
+            no_attributes: options.noAttributes ? "" : undefined,
+          },
+        },
+      );
+      if (response.status === 200) {
+        return { source: "home_assistant", data: response.data };
+      }
+    }
+
+    const start = toRecorderTimestamp(options.start);
+    const end = toRecorderTimestamp(options.end);
+    const data: HistoryState[][] = [];
+
+    for (const entityId of options.entityIds) {
+      const initial = await this.env.RECORDER_DB.prepare(
+        `SELECT entity_id, state, attributes, last_changed, last_updated FROM states
+         WHERE entity_id = ?1 AND last_updated <= ?2 ORDER BY last_updated DESC LIMIT 1`,
+      )
+        .bind(entityId, start)
+        .first<StateRow>();
+      const { results } = await this.env.RECORDER_DB.prepare(
+        `SELECT entity_id, state, attributes, last_changed, last_updated FROM states
+         WHERE entity_id = ?1 AND last_updated > ?2 AND last_updated < ?3 ORDER BY last_updated`,
+      )
+        .bind(entityId, start, end)
+        .all<StateRow>();
+
+      const significantAttributes = SIGNIFICANT_DOMAINS.has(entityId.split(".")[0]);
+      const rows = results.filter(
+        (row) => !options.significantChangesOnly || significantAttributes || row.last_changed === row.last_updated,
+      );
+      // Like Home Assistant, the state in effect at the start of the window is reported as of the start time.
+      if (initial) {
+        rows.unshift({ ...initial, last_changed: start, last_updated: start });
+      }
+      if (rows.length === 0) continue;
+
+      data.push(
+        rows.map((row, index) => {
+          const isEdge = index === 0 || index === rows.length - 1;
+          if (options.minimalResponse && !isEdge) {
+            return { state: row.state, last_changed: fromRecorderTimestamp(row.last_changed) };
+          }
+          return {
+            entity_id: row.entity_id,
+            state: row.state,
+            attributes: options.noAttributes ? {} : JSON.parse(row.attributes ?? "{}"),
+            last_changed: fromRecorderTimestamp(row.last_changed),
+            last_updated: fromRecorderTimestamp(row.last_updated),
+          };
+        }),
+      );
+    }
+
+    return { source: "replica", data };
+  }
+
+  /**
+   * Returns logbook entries for state changes and `logbook_entry` events, like `/api/logbook`.
+   * @param {LogbookOptions} options - The query options.
+   * @param {boolean} [allowFallback=true] - Whether to proxy to Home Assistant when the replica has a gap.
+   * @returns {Promise<HistoryResult<LogbookEntry[]>>} The logbook entries and their source.
+   */
+  async logbook(options: LogbookOptions, allowFallback = true): Promise<HistoryResult<LogbookEntry[]>> {
+    const entityIds = options.entityId ? [options.entityId] : [];
+    if (allowFallback && !(await this.covers(options.start, options.end, entityIds))) {
+      const response = await new HomeAssistantClient(this.env).rest<LogbookEntry[]>(
+        `/api/logbook/${options.start.toISOString()}`,
+        { query: { entity: options.entityId, end_time: options.end.toISOString() } },
+      );
+      if (response.status === 200) {
+        return { source: "home_assistant", data: response.data };
+      }
+    }
+
+    const start = toRecorderTimestamp(options.start);
+    const end = toRecorderTimestamp(options.end);
+
+    const states = await this.env.RECORDER_DB.prepare(
+      `SELECT s.entity_id, s.state, s.attributes, s.last_changed, e.context_id, e.context_user_id
+       FROM states s
+       LEFT JOIN events e ON s.event_id = e.event_id
+       WHERE s.last_updated > ?1 AND s.last_updated < ?2 AND s.last_changed = s.last_updated
+         AND (?3 IS NULL OR s.entity_id = ?3)
+       ORDER BY s.last_updated`,
+    )
+      .bind(start, end, options.entityId ?? null)
+      .all<StateRow & { context_id: string | null; context_user_id: string | null }>();
+
+    const events = await this.env.RECORDER_DB.prepare(
+      `SELECT event_data, time_fired, context_id, context_user_id FROM events
+       WHERE event_type = 'logbook_entry' AND time_fired > ?1 AND time_fired < ?2
+       ORDER BY time_fired`,
+    )
+      .bind(start, end)
+      .all<{ event_data: string; time_fired: string; context_id: string | null; context_user_id: string | null }>();
+
+    const entries: LogbookEntry[] = states.results.map((row) => {
+      const attributes = JSON.parse(row.attributes ?? "{}") as { friendly_name?: string };
+      return {
+        when: fromRecorderTimestamp(row.last_changed),
+        name: attributes.friendly_name ?? row.entity_id,
+        entity_id: row.entity_id,
+        state: row.state,
+        context_id: row.context_id,
+        context_user_id: row.context_user_id,
+      };
+    });
+
+    for (const row of events.results) {
+      const data = JSON.parse(row.event_data) as { name?: string; message?: string; entity_id?: string; domain?: string };
+      if (options.entityId && data.entity_id !== options.entityId) continue;
+      entries.push({
+        when: fromRecorderTimestamp(row.time_fired),
+        name: data.name ?? "",
+        message: data.message,
+        entity_id: data.entity_id,
+        domain: data.domain,
+        context_id: row.context_id,
+        context_user_id: row.context_user_id,
+      });
+    }
+
+    entries.sort((a, b) => a.when.localeCompare(b.when));
+    return { source: "replica", data: entries };
+  }
+
+  /**
+   * Checks whether the replica covers a window: it must hold data from before the start (for each requested entity,
+   * or for any entity when none are given), and the Durable Object must have confirmed, while connected, that
+   * ingestion was complete up to the end. Confirmations do not depend on events arriving, so quiet homes are covered.
+   * @param {Date} start - The start of the window.
+   * @param {Date} end - The end of the window.
+   * @param {string[]} [entityIds=[]] - The entities the query is about; entities first recorded after the start
+   * are not covered even when others are.
+   * @returns {Promise<boolean>} True if the replica can answer for the whole window.
+   */
+  async covers(start: Date, end: Date, entityIds: string[] = []): Promise<boolean> {
+    const from = toRecorderTimestamp(start);
+    const [recorded, cursor] = await Promise.all([
+      entityIds.length > 0
+        ? this.env.RECORDER_DB.prepare(
+            `SELECT COUNT(*) = 0 AS recorded FROM json_each(?1) e
+             WHERE NOT EXISTS (SELECT 1 FROM states WHERE entity_id = e.value AND last_updated <= ?2)`,
+          )
+            .bind(JSON.stringify(entityIds), from)
+            .first<{ recorded: number }>()
+        : this.env.RECORDER_DB.prepare("SELECT EXISTS (SELECT 1 FROM states WHERE last_updated <= ?1) AS recorded")
+            .bind(from)
+            .first<{ recorded: number }>(),
+      new RecorderIngestor(this.env).readCursor(),
+    ]);
+    if (!recorded?.recorded || !cursor?.confirmedAt) return false;
+
+    const confirmedUntil = Date.parse(fromRecorderTimestamp(cursor.confirmedAt));
+    const required = Math.min(end.getTime(), Date.now()) - CONFIRMATION_TOLERANCE_MS;
+    return confirmedUntil >= required;
+  }
+}
@@ -0,0 +1,309 @@
+/**
+ * @file This file contains the agent's long-term memory: a summarization pass that compacts old conversation
+ * turns into durable facts, and similarity search over those facts using Workers AI embeddings.
+ */
+
+import type { Env } from "../types";
+import type { AgentMemoryRecord } from "./agent";
+import { ConversationStore } from "./conversation";
+import { ModelRegistry } from "./models";
+
+/** The Workers AI model that embeds facts and prompts. */
+const EMBEDDING_MODEL = "@cf/baai/bge-base-en-v1.5";
+
+/** A session is summarized once it holds more unsummarized exchanges than this. */
+const SUMMARIZE_AFTER = 20;
+
+/** The number of most recent exchanges left out of a summarization pass. */
+const KEEP_RECENT = 10;
+
+/** A new fact this similar to an existing one replaces it instead of being stored twice. */
+const DUPLICATE_SIMILARITY = 0.92;
+
+/** Facts less similar than this to the prompt are not recalled. */
+const RECALL_SIMILARITY = 0.5;
+
+/** The number of sessions summarized per scheduled run. */
+const SESSIONS_PER_RUN = 5;
+
+/**
+ * Who a long-term memory applies to.
+ */
+export type MemoryScope = "session" | "household";
+
+/**
+ * A stored long-term memory.
+ */
+export interface LongTermMemoryRecord {
+  id: string;
+  /** The session the fact belongs to, or null for household-wide facts. */
+  sessionId: string | null;
+  scope: MemoryScope;
+  content: string;
+  /** Whether the fact was distilled from a conversation (`summary`) or written through the API (`manual`). */
+  source: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/** A row of `long_term_memories`. */
+type MemoryRow = {
+  id: string;
+  session_id: string | null;
+  content: string;
+  embedding: string | null;
+  source: string;
+  created_at: string;
+  updated_at: string;
+};
+
+/**
+ * Computes the cosine similarity of two vectors.
+ * @param {number[]} a - The first vector.
+ * @param {number[]} b - The second vector.
+ * @returns {number} The similarity from -1 to 1.
+ */
+const cosineSimilarity = (a: number[], b: number[]): number => {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA === 0 || normB === 0 ? 0 : dot / Math.sqrt(normA * normB);
+};
+
+/**
+ * Manages long-term memories stored in `CONFIG_DB`, with embeddings kept alongside each fact.
+ */
+export class LongTermMemory {
+  /**
+   * Initializes a new instance of the LongTermMemory.
+   * @param {Env} env - The Cloudflare Worker environment bindings.
+   */
+  constructor(private readonly env: Env) {}
+
+  /**
+   * Summarizes a few sessions that are due. Called from the scheduled handler.
+   * @returns {Promise<number>} The number of facts stored.
+   */
+  async summarizePending(): Promise<number> {
+    const sessions = await new ConversationStore(this.env).sessionsToSummarize(SUMMARIZE_AFTER, SESSIONS_PER_RUN);
+    let stored = 0;
+    for (const sessionId of sessions) {
+      stored += await this.summarize(sessionId);
+    }
+    return stored;
+  }
+
+  /**
+   * Distills a session's unsummarized exchanges, except the most recent ones, into long-term facts.
+   * The transcript itself is kept; its turns are only marked as summarized.
+   * @param {string} sessionId - The session ID.
+   * @returns {Promise<number>} The number of facts stored or updated.
+   */
+  async summarize(sessionId: string): Promise<number> {
+    const conversations = new ConversationStore(this.env);
+    const turns = await conversations.unsummarized(sessionId, KEEP_RECENT);
+    if (turns.length === 0) return 0;
+
+    const transcript = turns
+      .map((turn) =>
+        turn.role === "user"
+          ? `User: ${turn.content}`
+          : turn.role === "tool"
+            ? `Action: ${turn.name}(${JSON.stringify(turn.payload)})`
+            : `Assistant: ${turn.content}`,
+      )
+      .join("\n");
+    const { output } = await new ModelRegistry(this.env).run<{ response?: string }>("chat", {
+      messages: [
+        {
+          role: "system",
+          content:
+            "Extract lasting facts about the household from this smart home conversation: preferences, routines, " +
+            "people and devices (e.g. \"Alex prefers 68°F at night\"). Ignore one-off requests. Reply with only a JSON " +
+            'array of objects like {"fact": "...", "scope": "household" | "session"}, where "session" means the fact ' +
+            "only concerns the person in this conversation.",
+        },
+        { role: "user", content: transcript },
+      ],
+    });
+
+    const facts = this.parseFacts(output.response ?? "");
+    for (const fact of facts) {
+      await this.remember(fact.fact, fact.scope === "session" ? sessionId : null, "summary");
+    }
+    await conversations.markSummarized(sessionId, turns[turns.length - 1].id);
+    return facts.length;
+  }
+
+  /**
+   * Stores a fact, replacing a near-duplicate in the same scope so that updated preferences supersede old ones.
+   * @param {string} content - The fact.
+   * @param {string | null} sessionId - The session the fact belongs to, or null for the household.
+   * @param {string} [source="manual"] - Where the fact came from.
+   * @returns {Promise<LongTermMemoryRecord>} The stored memory.
+   */
+  async remember(content: string, sessionId: string | null, source = "manual"): Promise<LongTermMemoryRecord> {
+    const [embedding] = await this.embed([content]);
+    const duplicate = (await this.loadRows(sessionId, sessionId === null ? "household" : "session"))
+      .map((row) => ({ row, similarity: row.embedding ? cosineSimilarity(embedding, JSON.parse(row.embedding)) : 0 }))
+      .sort((a, b) => b.similarity - a.similarity)[0];
+
+    const id = duplicate && duplicate.similarity >= DUPLICATE_SIMILARITY ? duplicate.row.id : crypto.randomUUID();
+    const row = await this.env.CONFIG_DB.prepare(
+      `INSERT INTO long_term_memories(id, session_id, content, embedding, source) VALUES (?1, ?2, ?3, json(?4), ?5)
+       ON CONFLICT(id) DO UPDATE SET content = excluded.content, embedding = excluded.embedding,
+       source = excluded.source, updated_at = CURRENT_TIMESTAMP
+       RETURNING *`,
+    )
+      .bind(id, sessionId, content, JSON.stringify(embedding), source)
+      .first<MemoryRow>();
+    if (!row) {
+      throw new Error("Failed to store long-term memory");
+    }
+    return this.toRecord(row);
+  }
+
+  /**
+   * Finds the facts most relevant to a prompt among the session's and the household's memories.
+   * @param {string} prompt - The user's prompt.
+   * @param {string | undefined} sessionId - The current session, if any.
+   * @param {number} [limit=5] - The maximum number of facts.
+   * @returns {Promise<AgentMemoryRecord[]>} The recalled facts as `long` memory records, most relevant first.
+   */
+  async recall(prompt: string, sessionId: string | undefined, limit = 5): Promise<AgentMemoryRecord[]> {
+    const rows = await this.loadRows(sessionId ?? null);
+    if (rows.length === 0) return [];
+
+    const [query] = await this.embed([prompt]);
+    return rows
+      .map((row) => ({ row, score: row.embedding ? cosineSimilarity(query, JSON.parse(row.embedding)) : 0 }))
+      .filter(({ score }) => score >= RECALL_SIMILARITY)
+      .sort((a, b) => b.score - a.score)
+      .slice(0, limit)
+      .map(({ row, score }) => ({
+        id: row.id,
+        type: "long",
+        content: row.content,
+        createdAt: row.created_at,
+        metadata: { scope: row.session_id ? "session" : "household", score: Math.round(score * 1000) / 1000 },
+      }));
+  }
+
+  /**
+   * Lists long-term memories; without a filter, every session's and the household's.
+   * @param {{ sessionId?: string; scope?: MemoryScope }} [filter={}] - Restrict to a session's facts and/or a scope.
+   * @returns {Promise<LongTermMemoryRecord[]>} The memories, newest first.
+   */
+  async list(filter: { sessionId?: string; scope?: MemoryScope } = {}): Promise<LongTermMemoryRecord[]> {
+    const rows =
+      filter.sessionId === undefined && filter.scope === undefined
+        ? (await this.env.CONFIG_DB.prepare("SELECT * FROM long_term_memories ORDER BY updated_at DESC").all<MemoryRow>())
+            .results
+        : await this.loadRows(filter.sessionId ?? null, filter.scope);
+    return rows.map((row) => this.toRecord(row));
+  }
+
+  /**
+   * Rewrites a memory's content and re-embeds it.
+   * @param {string} id - The memory ID.
+   * @param {string} content - The new content.
+   * @returns {Promise<LongTermMemoryRecord | null>} The updated memory, or null if it does not exist.
+   */
+  async update(id: string, content: string): Promise<LongTermMemoryRecord | null> {
+    const [embedding] = await this.embed([content]);
+    const row = await this.env.CONFIG_DB.prepare(
+      `UPDATE long_term_memories SET content = ?2, embedding = json(?3), source = 'manual', updated_at = CURRENT_TIMESTAMP
+       WHERE id = ?1 RETURNING *`,
+    )
+      .bind(id, content, JSON.stringify(embedding))
+      .first<MemoryRow>();
+    return row ? this.toRecord(row) : null;
+  }
+
+  /**
+   * Deletes a memory.
+   * @param {string} id - The memory ID.
+   * @returns {Promise<boolean>} True if a memory was deleted.
+   */
+  async delete(id: string): Promise<boolean> {
+    const result = await this.env.CONFIG_DB.prepare("DELETE FROM long_term_memories WHERE id = ?1").bind(id).run();
+    return result.meta.changes > 0;
+  }
+
+  /**
+   * Loads memory rows. Without a scope, a session sees its own facts plus the household's.
+   * @private
+   * @param {string | null} sessionId - The session, or null for none.
+   * @param {MemoryScope} [scope] - Restrict to session or household facts.
+   * @returns {Promise<MemoryRow[]>} The rows, newest first.
+   */
+  private async loadRows(sessionId: string | null, scope?: MemoryScope): Promise<MemoryRow[]> {
+    const where =
+      scope === "household"
+        ? "session_id IS NULL"
+        : scope === "session"
+          ? sessionId === null
+            ? "session_id IS NOT NULL"
+            : "session_id = ?1"
+          : "(session_id IS NULL OR session_id = ?1)";
+    const { results } = await this.env.CONFIG_DB.prepare(
+      `SELECT * FROM long_term_memories WHERE ${where} ORDER BY updated_at DESC`,
+    )
+      .bind(...(where.includes("?1") ? [sessionId] : []))
+      .all<MemoryRow>();
+    return results;
+  }
+
+  /**
+   * Embeds texts with the Workers AI embedding model.
+   * @private
+   * @param {string[]} texts - The texts to embed.
+   * @returns {Promise<number[][]>} One vector per text.
+   */
+  private async embed(texts: string[]): Promise<number[][]> {
+    const output = (await this.env.AI.run(EMBEDDING_MODEL, { text: texts })) as { data: number[][] };
+    return output.data;
+  }
+
+  /**
+   * Extracts the facts from the summarization model's reply, tolerating text around the JSON array.
+   * @private
+   * @param {string} reply - The model's reply.
+   * @returns {{ fact: string; scope: MemoryScope }[]} The facts.
+   */
+  private parseFacts(reply: string): { fact: string; scope: MemoryScope }[] {
+    const match = reply.match(/\[[\s\S]*\]/);
+    if (!match) return [];
+    try {
+      const parsed = JSON.parse(match[0]) as { fact?: unknown; scope?: unknown }[];
+      return parsed
+        .filter((item) => typeof item?.fact === "string" && item.fact.trim().length > 0)
+        .map((item) => ({ fact: (item.fact as string).trim(), scope: item.scope === "session" ? "session" : "household" }));
+    } catch {
+      return [];
+    }
+  }
+
+  /**
+   * Converts a row into a memory record without its embedding.
+   * @private
+   * @param {MemoryRow} row - The row.
+   * @returns {LongTermMemoryRecord} The memory.
+   */
+  private toRecord(row: MemoryRow): LongTermMemoryRecord {
+    return {
+      id: row.id,
+      sessionId: row.session_id,
+      scope: row.session_id ? "session" : "household",
+      content: row.content,
+      source: row.source,
+      createdAt: row.created_at,
+      updatedAt: row.updated_at,
+    };
+  }
+}
@@ -0,0 +1,228 @@
+/**
+ * @file This file contains the model registry, which picks the Workers AI model for chat and vision calls from
+ * `CHAT_MODEL`/`VISION_MODEL`, falls back along a chain when a model fails or times out, and records how each
+ * model performs.
+ */
+
+import type { Env } from "../types";
+
+/** What a model is used for. */
+export type ModelKind = "chat" | "vision";
+
+/**
+ * The models a request may select. Chat models must support function calling, since the agent offers tools.
+ * The configured models are always allowed in addition to these.
+ */
+export const ALLOWED_MODELS: Record<ModelKind, readonly string[]> = {
+  chat: [
+    "@cf/meta/llama-3.3-70b-instruct-fp8-fast",
+    "@cf/meta/llama-4-scout-17b-16e-instruct",
+    "@hf/nousresearch/hermes-2-pro-mistral-7b",
+  ],
+  vision: ["@cf/unum/uform-gen2-qwen-500m", "@cf/llava-hf/llava-1.5-7b-hf"],
+};
+
+/** A model call that has not returned after this long is abandoned for the next model in the chain. */
+const MODEL_TIMEOUT_MS = 30_000;
+
+/**
+ * The models tried for a call, in order.
+ */
+export interface ModelSelection {
+  kind: ModelKind;
+  /** The requested override, or the configured model. */
+  primary: string;
+  /** The models tried when the primary fails. */
+  fallbacks: string[];
+}
+
+/**
+ * The recorded performance of a model.
+ */
+export interface ModelStats {
+  model: string;
+  kind: ModelKind;
+  calls: number;
+  failures: number;
+  /** The average latency of successful calls, or null before the first success. */
+  averageLatencyMs: number | null;
+  lastError: string | null;
+  lastUsedAt: string | null;
+}
+
+/**
+ * Splits a comma-separated list of model names.
+ * @param {string | undefined} value - The list.
+ * @returns {string[]} The model names.
+ */
+const parseModelList = (value: string | undefined): string[] =>
+  (value ?? "")
+    .split(",")
+    .map((model) => model.trim())
+    .filter(Boolean);
+
+/**
+ * Rejects when a promise has not settled in time.
+ * @template T The promise's value.
+ * @param {Promise<T>} promise - The promise.
+ * @param {number} ms - The time limit.
+ * @param {string} model - The model being called, for the error message.
+ * @returns {Promise<T>} The promise's value.
+ */
+const withTimeout = <T>(promise: Promise<T>, ms: number, model: string): Promise<T> =>
+  new Promise<T>((resolve, reject) => {
+    const timer = setTimeout(() => reject(new Error(`${model} timed out after ${ms} ms`)), ms);
+    promise.then(
+      (value) => {
+        clearTimeout(timer);
+        resolve(value);
+      },
+      (error) => {
+        clearTimeout(timer);
+        reject(error);
+      },
+    );
+  });
+
+/**
+ * Selects and runs Workers AI models for the worker's chat and vision features.
+ */
+export class ModelRegistry {
+  /**
+   * Initializes a new instance of the ModelRegistry.
+   * @param {Env} env - The Cloudflare Worker environment bindings.
+   */
+  constructor(private readonly env: Env) {}
+
+  /**
+   * Lists the models a request may select.
+   * @param {ModelKind} kind - The kind of model.
+   * @returns {string[]} The allowed models.
+   */
+  allowed(kind: ModelKind): string[] {
+    return [...new Set([...this.configured(kind), ...ALLOWED_MODELS[kind]])];
+  }
+
+  /**
+   * Checks whether a request may select a model.
+   * @param {ModelKind} kind - The kind of model.
+   * @param {string} model - The requested model.
+   * @returns {boolean} True if the model is allowed.
+   */
+  isAllowed(kind: ModelKind, model: string): boolean {
+    return this.allowed(kind).includes(model);
+  }
+
+  /**
+   * Resolves the models tried for a call: the override or configured model first, then the configured fallbacks.
+   * @param {ModelKind} kind - The kind of model.
+   * @param {string} [override] - A model requested by the caller; it must be allowed.
+   * @returns {ModelSelection} The selection.
+   */
+  select(kind: ModelKind, override?: string): ModelSelection {
+    if (override && !this.isAllowed(kind, override)) {
+      throw new Error(`Model ${override} is not allowed for ${kind}`);
+    }
+    const [configured, ...configuredFallbacks] = this.configured(kind);
+    const primary = override ?? configured;
+    return { kind, primary, fallbacks: [configured, ...configuredFallbacks].filter((model) => model !== primary) };
+  }
+
+  /**
+   * Runs a model, moving on to the next model in the chain when a call fails or times out.
+   * For streamed calls only obtaining the stream is covered; a stream that breaks midway is not retried.
+   * @template T The model's output type.
+   * @param {ModelKind} kind - The kind of model.
+   * @param {Record<string, unknown>} input - The model input.
+   * @param {string} [override] - A model requested by the caller; it must be allowed.
+   * @returns {Promise<{ model: string; output: T }>} The model that answered and its output.
+   */
+  async run<T = unknown>(kind: ModelKind, input: Record<string, unknown>, override?: string): Promise<{ model: string; output: T }> {
+    const { primary, fallbacks } = this.select(kind, override);
+    const errors: string[] = [];
+
+    for (const model of [primary, ...fallbacks]) {
+      const started = Date.now();
+      try {
+        const output = (await withTimeout(this.env.AI.run(model, input), MODEL_TIMEOUT_MS, model)) as T;
+        await this.record(model, kind, Date.now() - started, null);
+        return { model, output };
+      } catch (error) {
+        const message = (error as Error).message;
+        errors.push(`${model}: ${message}`);
+        await this.record(model, kind, Date.now() - started, message);
+      }
+    }
+    throw new Error(`All ${kind} models failed (${errors.join("; ")})`);
+  }
+
+  /**
+   * Reports the configured chain and recorded performance of each kind of model.
+   * @returns {Promise<Record<ModelKind, ModelSelection & { allowed: string[]; stats: ModelStats[] }>>} The report.
+   */
+  async status(): Promise<Record<ModelKind, ModelSelection & { allowed: string[]; stats: ModelStats[] }>> {
+    const { results } = await this.env.CONFIG_DB.prepare("SELECT * FROM model_stats ORDER BY model").all<{
+      model: string;
+      kind: ModelKind;
+      calls: number;
+      failures: number;
+      total_latency_ms: number;
+      last_error: string | null;
+      last_used_at: string | null;
+    }>();
+    const stats = results.map(
+      (row): ModelStats => ({
+        model: row.model,
+        kind: row.kind,
+        calls: row.calls,
+        failures: row.failures,
+        averageLatencyMs:
+          row.calls > row.failures ? Math.round(row.total_latency_ms / (row.calls - row.failures)) : null,
+        lastError: row.last_error,
+        lastUsedAt: row.last_used_at,
+      }),
+    );
+    const report = (kind: ModelKind) => ({
+      ...this.select(kind),
+      allowed: this.allowed(kind),
+      stats: stats.filter((entry) => entry.kind === kind),
+    });
+    return { chat: report("chat"), vision: report("vision") };
+  }
+
+  /**
+   * Returns the configured model followed by the configured fallbacks.
+   * @private
+   * @param {ModelKind} kind - The kind of model.
+   * @returns {string[]} The configured chain.
+   */
+  private configured(kind: ModelKind): string[] {
+    const [model, fallbacks] =
+      kind === "chat"
+        ? [this.env.CHAT_MODEL, this.env.CHAT_MODEL_FALLBACKS]
+        : [this.env.VISION_MODEL, this.env.VISION_MODEL_FALLBACKS];
+    return [...new Set([model, ...parseModelList(fallbacks)])];
+  }
+
+  /**
+   * Records the outcome of a model call. Failing to record never fails the call itself.
+   * @private
+   * @param {string} model - The model.
+   * @param {ModelKind} kind - The kind of model.
+   * @param {number} latencyMs - How long the call took.
+   * @param {string | null} error - The error, or null if the call succeeded.
+   * @returns {Promise<void>}
+   */
+  private async record(model: string, kind: ModelKind, latencyMs: number, error: string | null): Promise<void> {
+    await this.env.CONFIG_DB.prepare(
+      `INSERT INTO model_stats(model, kind, calls, failures, total_latency_ms, last_error, last_used_at)
+       VALUES (?1, ?2, 1, ?3, ?4, ?5, CURRENT_TIMESTAMP)
+       ON CONFLICT(model) DO UPDATE SET calls = calls + 1, failures = failures + excluded.failures,
+       total_latency_ms = total_latency_ms + excluded.total_latency_ms,
+       last_error = COALESCE(excluded.last_error, last_error), last_used_at = CURRENT_TIMESTAMP`,
+    )
+      .bind(model, kind, error === null ? 0 : 1, error === null ? latencyMs : 0, error)
+      .run()
+      .catch((recordError) => console.error("Failed to record model stats", recordError));
+  }
+}
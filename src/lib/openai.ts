@@ -0,0 +1,297 @@
+/**
+ * @file This file contains an OpenAI-compatible facade over the agent, so chat clients and Home Assistant's OpenAI
+ * conversation integration can use the worker as if it were the OpenAI chat completions API.
+ */
+
+import { z } from "zod";
+import type { Env } from "../types";
+import {
+  type AgentMessage,
+  type AgentReply,
+  type AgentStreamEvent,
+  type ClientTool,
+  HassAgent,
+  type ModelToolCall,
+} from "./agent";
+import { ModelRegistry } from "./models";
+import { AGENT_TOOL_NAMES, type AgentToolName } from "./tools";
+
+/** The model ID that selects the configured chat model chain. */
+export const DEFAULT_MODEL_ID = "hass-agent";
+
+/** The content of an OpenAI message: a string, or an array of parts of which only text parts are used. */
+const ContentSchema = z
+  .union([z.string(), z.array(z.object({ type: z.string(), text: z.string().optional() })), z.null()])
+  .optional();
+
+/**
+ * Zod schema for the supported subset of an OpenAI chat completion request. Sampling options are accepted and ignored.
+ */
+const ChatCompletionRequestSchema = z.object({
+  model: z.string(),
+  messages: z
+    .array(
+      z.object({
+        role: z.enum(["system", "developer", "user", "assistant", "tool"]),
+        content: ContentSchema,
+        name: z.string().optional(),
+        tool_call_id: z.string().optional(),
+        tool_calls: z
+          .array(
+            z.object({
+              id: z.string(),
+              type: z.literal("function"),
+              function: z.object({ name: z.string(), arguments: z.string() }),
+            }),
+          )
+          .optional(),
+      }),
+    )
+    .min(1),
+  stream: z.boolean().optional(),
+  tools: z
+    .array(
+      z.object({
+        type: z.literal("function"),
+        function: z.object({
+          name: z.string(),
+          description: z.string().optional(),
+          parameters: z.record(z.unknown()).optional(),
+        }),
+      }),
+    )
+    .optional(),
+  tool_choice: z.union([z.enum(["none", "auto", "required"]), z.record(z.unknown())]).optional(),
+  /** OpenAI's end-user identifier, used as the agent session. */
+  user: z.string().optional(),
+});
+
+type ChatCompletionRequest = z.infer<typeof ChatCompletionRequestSchema>;
+
+/**
+ * Builds an error response in the OpenAI format.
+ * @param {number} status - The HTTP status.
+ * @param {string} message - The error message.
+ * @param {{ param?: string; code?: string }} [details={}] - The offending parameter and an error code.
+ * @returns {Response} The error response.
+ */
+const openAIError = (status: number, message: string, details: { param?: string; code?: string } = {}): Response =>
+  new Response(
+    JSON.stringify({
+      error: { message, type: "invalid_request_error", param: details.param ?? null, code: details.code ?? null },
+    }),
+    { status, headers: { "Content-Type": "application/json" } },
+  );
+
+/**
+ * Flattens OpenAI message content into text.
+ * @param {z.infer<typeof ContentSchema>} content - The content.
+ * @returns {string} The text.
+ */
+const contentText = (content: z.infer<typeof ContentSchema>): string =>
+  typeof content === "string"
+    ? content
+    : (content ?? [])
+        .filter((part) => part.type === "text")
+        .map((part) => part.text ?? "")
+        .join("\n");
+
+/**
+ * Converts the model's tool calls into OpenAI tool calls.
+ * @param {ModelToolCall[]} calls - The tool calls.
+ * @returns {Record<string, unknown>[]} The OpenAI tool calls.
+ */
+const toOpenAIToolCalls = (calls: ModelToolCall[]): Record<string, unknown>[] =>
+  calls.map((call, index) => ({
+    index,
+    id: call.id,
+    type: "function",
+    function: { name: call.name, arguments: JSON.stringify(call.arguments ?? {}) },
+  }));
+
+/**
+ * Serves `/v1/chat/completions` and `/v1/models` on top of HassAgent.
+ */
+export class OpenAICompatibility {
+  /**
+   * Initializes a new instance of the OpenAICompatibility facade.
+   * @param {Env} env - The Cloudflare Worker environment bindings.
+   */
+  constructor(private readonly env: Env) {}
+
+  /**
+   * Lists the selectable models: `hass-agent` for the configured chain, then every allowed chat model.
+   * @returns {Response} An OpenAI model list.
+   */
+  models(): Response {
+    const ids = [DEFAULT_MODEL_ID, ...new ModelRegistry(this.env).allowed("chat")];
+    return new Response(
+      JSON.stringify({
+        object: "list",
+        data: ids.map((id) => ({ id, object: "model", created: 0, owned_by: "hassio-backend-worker" })),
+      }),
+      { headers: { "Content-Type": "application/json" } },
+    );
+  }
+
+  /**
+   * Answers an OpenAI chat completion request with the agent.
+   *
+   * System and developer messages become the agent's instructions, the last user message its prompt, and the
+   * messages before it the history. Request `tools` named like agent tools select which of those the worker runs;
+   * any other tools are returned to the client as `tool_calls`, and their results are expected back as `tool`
+   * messages after the prompt. When no agent tool is named, all agent tools are enabled.
+   * @param {unknown} request - The raw request body.
+   * @returns {Promise<Response>} A `chat.completion` object, or a stream of `chat.completion.chunk` events.
+   */
+  async completions(request: unknown): Promise<Response> {
+    const parsed = ChatCompletionRequestSchema.safeParse(request);
+    if (!parsed.success) {
+      return openAIError(400, parsed.error.message);
+    }
+    const body = parsed.data;
+
+    const model = body.model === DEFAULT_MODEL_ID ? undefined : body.model;
+    if (model && !new ModelRegistry(this.env).isAllowed("chat", model)) {
+      return openAIError(404, `The model ${body.model} does not exist`, { param: "model", code: "model_not_found" });
+    }
+
+    const promptIndex = body.messages.map((message) => message.role).lastIndexOf("user");
+    if (promptIndex === -1) {
+      return openAIError(400, "messages must contain a user message", { param: "messages" });
+    }
+
+    const agentToolNames = (body.tools ?? [])
+      .map((tool) => tool.function.name)
+      .filter((name): name is AgentToolName => (AGENT_TOOL_NAMES as string[]).includes(name));
+    const clientTools: ClientTool[] = (body.tools ?? []).filter(
+      (tool) => !(AGENT_TOOL_NAMES as string[]).includes(tool.function.name),
+    );
+    const toolsDisabled = body.tool_choice === "none";
+    const conversation = {
+      prompt: contentText(body.messages[promptIndex].content),
+      sessionId: body.user,
+      instructions:
+        body.messages
+          .filter((message) => message.role === "system" || message.role === "developer")
+          .map((message) => contentText(message.content))
+          .join("\n\n") || undefined,
+      tools: toolsDisabled ? [] : agentToolNames.length > 0 ? agentToolNames : undefined,
+      clientTools: toolsDisabled ? [] : clientTools,
+      model,
+      history: this.toAgentMessages(body.messages.slice(0, promptIndex)),
+      followUp: this.toAgentMessages(body.messages.slice(promptIndex + 1)),
+    };
+
+    const agent = new HassAgent(this.env);
+    const id = `chatcmpl-${crypto.randomUUID()}`;
+    const created = Math.floor(Date.now() / 1000);
+
+    if (body.stream) {
+      return this.stream(id, created, body, (emit) => agent.converse(conversation, emit));
+    }
+
+    const reply = await agent.converse(conversation);
+    const toolCalls = reply.pendingToolCalls.length > 0 ? toOpenAIToolCalls(reply.pendingToolCalls) : undefined;
+    return new Response(
+      JSON.stringify({
+        id,
+        object: "chat.completion",
+        created,
+        model: reply.model ?? body.model,
+        choices: [
+          {
+            index: 0,
+            message: {
+              role: "assistant",
+              content: reply.message || (toolCalls ? null : ""),
+              ...(toolCalls ? { tool_calls: toolCalls.map(({ index: _index, ...call }) => call) } : {}),
+            },
+            finish_reason: toolCalls ? "tool_calls" : "stop",
+          },
+        ],
+      }),
+      { headers: { "Content-Type": "application/json" } },
+    );
+  }
+
+  /**
+   * Streams an exchange as OpenAI `chat.completion.chunk` server-sent events, ending with `data: [DONE]`.
+   * @private
+   * @param {string} id - The completion ID.
+   * @param {number} created - The creation time in Unix seconds.
+   * @param {ChatCompletionRequest} body - The request.
+   * @param {(emit: (event: AgentStreamEvent) => void) => Promise<AgentReply>} converse - Runs the exchange.
+   * @returns {Response} The `text/event-stream` response.
+   */
+  private stream(
+    id: string,
+    created: number,
+    body: ChatCompletionRequest,
+    converse: (emit: (event: AgentStreamEvent) => void) => Promise<AgentReply>,
+  ): Response {
+    const { readable, writable } = new TransformStream<Uint8Array, Uint8Array>();
+    const writer = writable.getWriter();
+    const encoder = new TextEncoder();
+    const send = (data: unknown): void => {
+      void writer.write(encoder.encode(`data: ${typeof data === "string" ? data : JSON.stringify(data)}\n\n`));
+    };
+    const chunk = (delta: Record<string, unknown>, finishReason: string | null = null): void =>
+      send({
+        id,
+        object: "chat.completion.chunk",
+        created,
+        model: body.model,
+        choices: [{ index: 0, delta, finish_reason: finishReason }],
+      });
+
+    const run = async (): Promise<void> => {
+      try {
+        chunk({ role: "assistant", content: "" });
+        const reply = await converse((event) => {
+          if (event.type === "token") {
+            chunk({ content: event.data.text });
+          }
+        });
+        if (reply.pendingToolCalls.length > 0) {
+          chunk({ tool_calls: toOpenAIToolCalls(reply.pendingToolCalls) });
+          chunk({}, "tool_calls");
+        } else {
+          chunk({}, "stop");
+        }
+        send("[DONE]");
+      } catch (error) {
+        send({ error: { message: (error as Error).message, type: "server_error", param: null, code: null } });
+      } finally {
+        await writer.close();
+      }
+    };
+    void run();
+
+    return new Response(readable, {
+      headers: { "Content-Type": "text/event-stream", "Cache-Control": "no-cache" },
+    });
+  }
+
+  /**
+   * Converts OpenAI conversation messages into agent messages, leaving out system and developer messages.
+   * @private
+   * @param {ChatCompletionRequest["messages"]} messages - The OpenAI messages.
+   * @returns {AgentMessage[]} The agent messages.
+   */
+  private toAgentMessages(messages: ChatCompletionRequest["messages"]): AgentMessage[] {
+    return messages.flatMap((message): AgentMessage[] => {
+      if (message.role === "system" || message.role === "developer") return [];
+      if (message.role === "tool") {
+        return [{ role: "tool", name: message.name, tool_call_id: message.tool_call_id, content: contentText(message.content) }];
+      }
+      return [
+        {
+          role: message.role,
+          content: contentText(message.content),
+          ...(message.tool_calls ? { tool_calls: message.tool_calls } : {}),
+        },
+      ];
+    });
+  }
+}
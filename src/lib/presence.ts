@@ -0,0 +1,433 @@
+/**
+ * @file This file contains the presence engine, which fuses `person`, `device_tracker`, motion and door sensor
+ * states into who is home, per-room occupancy and a household mode (home, away, sleep, vacation), with debouncing.
+ */
+
+import { z } from "zod";
+import type { Env, HomeAssistantState } from "../types";
+import { formatLocalTime } from "./cron";
+import { HomeAssistantClient } from "./haClient";
+
+/** The household modes. */
+export const HOUSEHOLD_MODES = ["home", "away", "sleep", "vacation"] as const;
+
+/** The domains whose states the engine reads. */
+export const PRESENCE_DOMAINS = ["person", "device_tracker", "binary_sensor"];
+
+/** Binary sensor device classes that report people in a room. */
+const MOTION_CLASSES = ["motion", "occupancy", "presence"];
+
+/** Binary sensor device classes whose changes count as activity in a room. */
+const DOOR_CLASSES = ["door", "garage_door", "opening"];
+
+/** How long settings and room assignments are cached between database reads. */
+const SETTINGS_CACHE_MS = 30 * 1000;
+
+/** A local time of day as HH:MM. */
+const TimeOfDaySchema = z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, "Expected HH:MM");
+
+/**
+ * Zod schema for the engine's settings. Every field has a default.
+ */
+export const PresenceSettingsSchema = z.object({
+  /** How long a person must be gone before they count as away, so GPS flaps are ignored. Arrivals count at once. */
+  away_delay_seconds: z.number().int().min(0).max(3600).default(120),
+  /** How long a room stays occupied after its last motion or door activity. */
+  vacancy_delay_seconds: z.number().int().min(0).max(7200).default(300),
+  /** The local time window in which an occupied home is asleep once only `sleep_rooms` are occupied. */
+  sleep_start: TimeOfDaySchema.default("23:00"),
+  sleep_end: TimeOfDaySchema.default("07:00"),
+  /** Rooms that may be occupied while the household sleeps, e.g. bedrooms. */
+  sleep_rooms: z.array(z.string()).default([]),
+  /** How long everyone must be away before the mode becomes vacation. */
+  vacation_after_hours: z.number().min(1).max(24 * 60).default(36),
+  /** Whether `device_tracker` entities not linked to a person count as guests. */
+  guest_trackers: z.boolean().default(true),
+});
+
+export type HouseholdMode = (typeof HOUSEHOLD_MODES)[number];
+export type PresenceSettings = z.infer<typeof PresenceSettingsSchema>;
+
+/**
+ * A manual household mode that replaces the computed one.
+ */
+export interface ModeOverride {
+  mode: HouseholdMode;
+  /** When the override ends; null to keep it until cleared. */
+  until: string | null;
+}
+
+/**
+ * Whether a person is home.
+ */
+export interface PersonPresence {
+  entityId: string;
+  name: string;
+  /** The raw state: `home`, `not_home` or a zone name. */
+  state: string;
+  home: boolean;
+  /** True while a departure is still within `away_delay_seconds`; the person still counts as home. */
+  leaving: boolean;
+  /** When the state last changed. */
+  since: string;
+}
+
+/**
+ * Whether a room is occupied.
+ */
+export interface RoomOccupancy {
+  room: string;
+  occupied: boolean;
+  /** The last motion or door activity, or null if none was recorded. */
+  lastActivity: string | null;
+  /** The motion and door sensors in the room. */
+  sensors: string[];
+}
+
+/**
+ * The household's presence at a point in time.
+ */
+export interface PresenceSnapshot {
+  mode: HouseholdMode;
+  /** Whether the mode was computed or set manually. */
+  modeSource: "auto" | "override";
+  overrideUntil: string | null;
+  anyoneHome: boolean;
+  people: PersonPresence[];
+  /** Device trackers at home that belong to no person. */
+  guests: string[];
+  rooms: RoomOccupancy[];
+  computedAt: string;
+  /** When a pending debounce expires and the snapshot may change without a new event. */
+  nextChangeAt: string | null;
+}
+
+/**
+ * An event to fire on the Home Assistant event bus for a presence transition.
+ */
+export interface PresenceTransition {
+  event_type: "worker_presence_mode_changed" | "worker_person_presence_changed" | "worker_room_occupancy_changed";
+  data: Record<string, unknown>;
+}
+
+/** A row of `presence_settings`. */
+type SettingsRow = {
+  settings: string;
+  mode_override: HouseholdMode | null;
+  override_until: string | null;
+};
+
+/**
+ * Checks whether a local time falls within a window that may wrap past midnight.
+ * @param {string} time - The local time as HH:MM.
+ * @param {string} start - The start of the window (inclusive).
+ * @param {string} end - The end of the window (exclusive).
+ * @returns {boolean} True if the time is within the window.
+ */
+const withinWindow = (time: string, start: string, end: string): boolean =>
+  start <= end ? time >= start && time < end : time >= start || time < end;
+
+/**
+ * Computes the household's presence from entity states.
+ * @param {HomeAssistantState[]} states - The states of `person`, `device_tracker` and `binary_sensor` entities.
+ * @param {Map<string, string>} rooms - The room of each entity, from `entity_profiles`.
+ * @param {PresenceSettings} settings - The engine's settings.
+ * @param {ModeOverride | null} override - The manual mode, if one is active.
+ * @param {Date} now - The time to compute presence for.
+ * @param {string} timeZone - The home's IANA time zone.
+ * @returns {PresenceSnapshot} The presence.
+ */
+export const computePresence = (
+  states: HomeAssistantState[],
+  rooms: Map<string, string>,
+  settings: PresenceSettings,
+  override: ModeOverride | null,
+  now: Date,
+  timeZone: string,
+): PresenceSnapshot => {
+  const pending: number[] = [];
+  const awayDelay = settings.away_delay_seconds * 1000;
+  const vacancyDelay = settings.vacancy_delay_seconds * 1000;
+  const byDomain = (domain: string) => states.filter((state) => state.entity_id.startsWith(`${domain}.`));
+
+  // A departure only counts once it has lasted `away_delay_seconds`.
+  const isHome = (state: HomeAssistantState): { home: boolean; leaving: boolean } => {
+    if (state.state === "home") return { home: true, leaving: false };
+    const awayUntil = Date.parse(state.last_changed) + awayDelay;
+    if (awayUntil > now.getTime()) {
+      pending.push(awayUntil);
+      return { home: true, leaving: true };
+    }
+    return { home: false, leaving: false };
+  };
+
+  const people: PersonPresence[] = byDomain("person").map((state) => ({
+    entityId: state.entity_id,
+    name: (state.attributes.friendly_name as string | undefined) ?? state.entity_id,
+    state: state.state,
+    ...isHome(state),
+    since: state.last_changed,
+  }));
+  const linkedTrackers = new Set(
+    byDomain("person").flatMap((state) => (state.attributes.device_trackers as string[] | undefined) ?? []),
+  );
+  const guests = settings.guest_trackers
+    ? byDomain("device_tracker")
+        .filter((state) => !linkedTrackers.has(state.entity_id) && isHome(state).home)
+        .map((state) => state.entity_id)
+    : [];
+
+  const occupancy = new Map<string, RoomOccupancy>();
+  for (const state of byDomain("binary_sensor")) {
+    const deviceClass = state.attributes.device_class as string | undefined;
+    const room = rooms.get(state.entity_id);
+    const isMotion = MOTION_CLASSES.includes(deviceClass ?? "");
+    if (!room || (!isMotion && !DOOR_CLASSES.includes(deviceClass ?? ""))) continue;
+
+    const entry = occupancy.get(room) ?? { room, occupied: false, lastActivity: null, sensors: [] };
+    entry.sensors.push(state.entity_id);
+    // Active motion is activity now; otherwise the last change (motion clearing, a door opening or closing) is.
+    const activity = isMotion && state.state === "on" ? now.getTime() : Date.parse(state.last_changed);
+    if (!entry.lastActivity || activity > Date.parse(entry.lastActivity)) {
+      entry.lastActivity = new Date(activity).toISOString();
+    }
+    if (isMotion && state.state === "on") {
+      entry.occupied = true;
+    } else if (activity + vacancyDelay > now.getTime()) {
+      entry.occupied = true;
+      pending.push(activity + vacancyDelay);
+    }
+    occupancy.set(room, entry);
+  }
+  const roomList = [...occupancy.values()].sort((a, b) => a.room.localeCompare(b.room));
+
+  const anyoneHome =
+    people.some((person) => person.home) ||
+    guests.length > 0 ||
+    (people.length === 0 && roomList.some((room) => room.occupied));
+
+  let mode: HouseholdMode;
+  if (!anyoneHome) {
+    const lastDeparture = Math.max(...people.map((person) => Date.parse(person.since)));
+    mode =
+      people.length > 0 && now.getTime() - lastDeparture >= settings.vacation_after_hours * 60 * 60 * 1000
+        ? "vacation"
+        : "away";
+  } else {
+    const localTime = formatLocalTime(now, timeZone).slice(11);
+    const sleepRooms = settings.sleep_rooms.map((room) => room.toLowerCase());
+    const awakeRooms = roomList.filter((room) => room.occupied && !sleepRooms.includes(room.room.toLowerCase()));
+    mode = withinWindow(localTime, settings.sleep_start, settings.sleep_end) && awakeRooms.length === 0 ? "sleep" : "home";
+  }
+
+  return {
+    mode: override?.mode ?? mode,
+    modeSource: override ? "override" : "auto",
+    overrideUntil: override?.until ?? null,
+    anyoneHome,
+    people,
+    guests,
+    rooms: roomList,
+    computedAt: now.toISOString(),
+    nextChangeAt: pending.length > 0 ? new Date(Math.min(...pending)).toISOString() : null,
+  };
+};
+
+/**
+ * Lists the events to fire for the changes between two snapshots.
+ * @param {PresenceSnapshot | null} previous - The previous snapshot; nothing fires without one.
+ * @param {PresenceSnapshot} next - The new snapshot.
+ * @returns {PresenceTransition[]} The transitions.
+ */
+export const presenceTransitions = (previous: PresenceSnapshot | null, next: PresenceSnapshot): PresenceTransition[] => {
+  if (!previous) return [];
+  const transitions: PresenceTransition[] = [];
+
+  const before = new Map(previous.people.map((person) => [person.entityId, person]));
+  for (const person of next.people) {
+    const earlier = before.get(person.entityId);
+    if (earlier && earlier.home !== person.home) {
+      transitions.push({
+        event_type: "worker_person_presence_changed",
+        data: {
+          entity_id: person.entityId,
+          name: person.name,
+          home: person.home,
+          state: person.state,
+          // True when this departure left nobody home.
+          last_out: !person.home && !next.anyoneHome,
+        },
+      });
+    }
+  }
+
+  const occupied = new Map(previous.rooms.map((room) => [room.room, room.occupied]));
+  for (const room of next.rooms) {
+    if (occupied.has(room.room) && occupied.get(room.room) !== room.occupied) {
+      transitions.push({ event_type: "worker_room_occupancy_changed", data: { room: room.room, occupied: room.occupied } });
+    }
+  }
+
+  if (previous.mode !== next.mode) {
+    transitions.push({
+      event_type: "worker_presence_mode_changed",
+      data: { from: previous.mode, to: next.mode, source: next.modeSource },
+    });
+  }
+  return transitions;
+};
+
+/**
+ * Describes a snapshot in a sentence or two for the agent's system prompt.
+ * @param {PresenceSnapshot} snapshot - The snapshot.
+ * @param {string} timeZone - The home's IANA time zone.
+ * @returns {string} The description.
+ */
+export const describePresence = (snapshot: PresenceSnapshot, timeZone: string): string => {
+  const since = (person: PersonPresence) =>
+    `${person.name} (${person.leaving ? "leaving " : ""}since ${formatLocalTime(new Date(person.since), timeZone)})`;
+  const home = snapshot.people.filter((person) => person.home);
+  const away = snapshot.people.filter((person) => !person.home);
+  const occupied = snapshot.rooms.filter((room) => room.occupied).map((room) => room.room);
+  return [
+    `Household presence: mode ${snapshot.mode}${snapshot.modeSource === "override" ? " (set manually)" : ""}.`,
+    home.length > 0 ? `Home: ${home.map(since).join(", ")}.` : "Nobody is home.",
+    away.length > 0 ? `Away: ${away.map(since).join(", ")}.` : undefined,
+    snapshot.guests.length > 0 ? `Guest devices home: ${snapshot.guests.length}.` : undefined,
+    occupied.length > 0 ? `Occupied rooms: ${occupied.join(", ")}.` : undefined,
+  ]
+    .filter(Boolean)
+    .join(" ");
+};
+
+/**
+ * Stores the presence settings and computes presence. One engine instance lives in the Durable Object, which
+ * evaluates presence as states change and fires transition events; other code reads the Durable Object's snapshot.
+ */
+export class PresenceEngine {
+  /** The settings, override and room assignments, and when they were read. */
+  private cache: {
+    settings: PresenceSettings;
+    override: ModeOverride | null;
+    rooms: Map<string, string>;
+    loadedAt: number;
+  } | null = null;
+
+  /**
+   * Initializes a new instance of the PresenceEngine.
+   * @param {Env} env - The Cloudflare Worker environment bindings.
+   */
+  constructor(private readonly env: Env) {}
+
+  /**
+   * Reads the settings and the active override.
+   * @returns {Promise<{ settings: PresenceSettings; override: ModeOverride | null }>} The settings, with defaults
+   * filled in, and the override unless it has expired.
+   */
+  async settings(): Promise<{ settings: PresenceSettings; override: ModeOverride | null }> {
+    const row = await this.env.CONFIG_DB.prepare(
+      "SELECT settings, mode_override, override_until FROM presence_settings WHERE id = 1",
+    ).first<SettingsRow>();
+    const settings = PresenceSettingsSchema.catch(PresenceSettingsSchema.parse({})).parse(
+      row ? JSON.parse(row.settings) : {},
+    );
+    const active =
+      row?.mode_override && (!row.override_until || Date.parse(`${row.override_until.replace(" ", "T")}Z`) > Date.now());
+    return {
+      settings,
+      override: active && row?.mode_override ? { mode: row.mode_override, until: row.override_until } : null,
+    };
+  }
+
+  /**
+   * Replaces the settings.
+   * @param {PresenceSettings} settings - The validated settings.
+   * @returns {Promise<void>}
+   */
+  async saveSettings(settings: PresenceSettings): Promise<void> {
+    await this.env.CONFIG_DB.prepare(
+      `INSERT INTO presence_settings(id, settings) VALUES (1, json(?1))
+       ON CONFLICT(id) DO UPDATE SET settings = excluded.settings, updated_at = CURRENT_TIMESTAMP`,
+    )
+      .bind(JSON.stringify(settings))
+      .run();
+    this.cache = null;
+  }
+
+  /**
+   * Sets or clears the manual household mode.
+   * @param {HouseholdMode | null} mode - The mode, or null to return to the computed mode.
+   * @param {Date} [until] - When the override ends; it lasts until cleared when omitted.
+   * @returns {Promise<void>}
+   */
+  async setOverride(mode: HouseholdMode | null, until?: Date): Promise<void> {
+    const untilText = mode && until ? until.toISOString().replace("T", " ").slice(0, 19) : null;
+    await this.env.CONFIG_DB.prepare(
+      `INSERT INTO presence_settings(id, settings, mode_override, override_until) VALUES (1, '{}', ?1, ?2)
+       ON CONFLICT(id) DO UPDATE SET mode_override = excluded.mode_override, override_until = excluded.override_until,
+         updated_at = CURRENT_TIMESTAMP`,
+    )
+      .bind(mode, untilText)
+      .run();
+    this.cache = null;
+  }
+
+  /**
+   * Forgets the cached settings and room assignments.
+   */
+  invalidate(): void {
+    this.cache = null;
+  }
+
+  /**
+   * Computes presence from entity states.
+   * @param {HomeAssistantState[]} states - The states of `person`, `device_tracker` and `binary_sensor` entities.
+   * @param {Date} [now=new Date()] - The time to compute presence for.
+   * @returns {Promise<PresenceSnapshot>} The presence.
+   */
+  async compute(states: HomeAssistantState[], now = new Date()): Promise<PresenceSnapshot> {
+    if (!this.cache || Date.now() - this.cache.loadedAt >= SETTINGS_CACHE_MS) {
+      const [{ settings, override }, { results }] = await Promise.all([
+        this.settings(),
+        this.env.CONFIG_DB.prepare("SELECT entity_id, room FROM entity_profiles WHERE room IS NOT NULL").all<{
+          entity_id: string;
+          room: string;
+        }>(),
+      ]);
+      this.cache = {
+        settings,
+        override,
+        rooms: new Map(results.map((profile) => [profile.entity_id, profile.room])),
+        loadedAt: Date.now(),
+      };
+    }
+    const { settings, override, rooms } = this.cache;
+    const activeOverride = override?.until && Date.parse(`${override.until.replace(" ", "T")}Z`) <= now.getTime() ? null : override;
+    return computePresence(states, rooms, settings, activeOverride, now, this.env.TIME_ZONE ?? "UTC");
+  }
+
+  /**
+   * Fires the events of presence transitions on the Home Assistant event bus.
+   * @param {PresenceTransition[]} transitions - The transitions.
+   * @returns {Promise<void>}
+   */
+  async fire(transitions: PresenceTransition[]): Promise<void> {
+    const haClient = new HomeAssistantClient(this.env);
+    for (const transition of transitions) {
+      const response = await haClient.fireEvent(transition.event_type, transition.data);
+      if (response.status >= 400) {
+        console.error(`Failed to fire ${transition.event_type}`, response.status, response.data);
+      }
+    }
+  }
+
+  /**
+   * Reads the current snapshot from the Durable Object, which also fires any transitions that are due.
+   * @returns {Promise<PresenceSnapshot | null>} The snapshot, or null while the state cache is not seeded.
+   */
+  async current(): Promise<PresenceSnapshot | null> {
+    const stub = this.env.HA_WEBSOCKET_DO.get(this.env.HA_WEBSOCKET_DO.idFromName("ha-core"));
+    const response = await stub.fetch("https://do/presence");
+    return response.ok ? ((await response.json()) as PresenceSnapshot) : null;
+  }
+}
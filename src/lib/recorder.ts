@@ -0,0 +1,259 @@
+/**
+ * @file This file contains the writer that mirrors the live Home Assistant event stream
+ * into the D1 recorder replica (`RECORDER_DB`).
+ */
+
+import type { Env, HomeAssistantEvent, StateChangedData } from "../types";
+
+/** The cursor stream name used for events ingested over the Durable Object's WebSocket. */
+export const WEBSOCKET_STREAM = "websocket";
+
+/** How often the Durable Object confirms, while connected, that the replica is complete up to now. */
+export const RECORDER_CHECKPOINT_MS = 60 * 1000;
+
+/** The maximum number of events buffered before a flush is forced. */
+const DEFAULT_BATCH_SIZE = 50;
+
+/** The maximum number of events kept in memory while the replica is unreachable. */
+const MAX_PENDING_EVENTS = 1000;
+
+/**
+ * Describes how far a stream of events has been mirrored into the recorder replica.
+ */
+export interface RecorderCursor {
+  /** The name of the ingested stream (e.g., "websocket"). */
+  stream: string;
+  /** The recorder timestamp of the last event written. */
+  timeFired: string | null;
+  /** The context ID of the last event written. */
+  contextId: string | null;
+  /** When the cursor was last advanced. */
+  updatedAt: string | null;
+  /** The recorder timestamp up to which the stream is known to be complete, confirmed while connected. */
+  confirmedAt: string | null;
+}
+
+/**
+ * Converts a Home Assistant ISO 8601 timestamp into the `YYYY-MM-DD HH:MM:SS.SSS` UTC format
+ * SQLite uses for `CURRENT_TIMESTAMP` and `datetime()`, so replica rows compare correctly in SQL.
+ * @param {string | number | Date} value - The timestamp to convert.
+ * @returns {string} The recorder-formatted timestamp.
+ */
+export const toRecorderTimestamp = (value: string | number | Date): string =>
+  new Date(value).toISOString().replace("T", " ").replace("Z", "");
+
+/**
+ * Converts a recorder timestamp back into the ISO 8601 format Home Assistant's APIs return.
+ * @param {string} value - The recorder-formatted timestamp.
+ * @returns {string} The ISO 8601 timestamp with an explicit UTC offset.
+ */
+export const fromRecorderTimestamp = (value: string): string => `${value.replace(" ", "T")}+00:00`;
+
+/**
+ * Derives the key that identifies an event in the replica's `events.dedupe_key` column.
+ * Home Assistant's event stream carries no event ID, so the key hashes everything that is written for the event,
+ * including its full context: Home Assistant gives every separate event its own context ID, so identical payloads
+ * fired at the same time stay distinct.
+ * @param {HomeAssistantEvent} event - The event received from Home Assistant.
+ * @param {unknown} eventData - The payload stored in `event_data`.
+ * @returns {Promise<string>} The hex-encoded SHA-256 of the event's type, origin, time, context and payload.
+ */
+const eventDedupeKey = async (event: HomeAssistantEvent, eventData: unknown): Promise<string> => {
+  const identity = JSON.stringify([
+    event.event_type,
+    event.origin,
+    toRecorderTimestamp(event.time_fired),
+    event.context?.id ?? null,
+    event.context?.user_id ?? null,
+    event.context?.parent_id ?? null,
+    eventData,
+  ]);
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(identity));
+  return [...new Uint8Array(digest)].map((byte) => byte.toString(16).padStart(2, "0")).join("");
+};
+
+/**
+ * Parses the comma-separated `RECORDER_EVENT_TYPES` variable into a list of event types.
+ * @param {Env} env - The worker's environment bindings.
+ * @returns {string[]} The event types to mirror, defaulting to `state_changed`.
+ */
+export const recorderEventTypes = (env: Env): string[] => {
+  const types = (env.RECORDER_EVENT_TYPES ?? "")
+    .split(",")
+    .map((type) => type.trim())
+    .filter(Boolean);
+  return types.length > 0 ? [...new Set(types)] : ["state_changed"];
+};
+
+/**
+ * Buffers Home Assistant events and writes them to the recorder replica in batches.
+ * `state_changed` events produce a row in `states` linked to its event and to the entity's previous state row.
+ */
+export class RecorderIngestor {
+  /** Events waiting to be written. */
+  private pending: HomeAssistantEvent[] = [];
+  /**
+   * Events fired before this recorder timestamp were already written by a previous instance.
+   * Events sharing the timestamp are kept and left to the `dedupe_key` index.
+   */
+  private resumeAfter: string | null = null;
+
+  /**
+   * Initializes a new instance of the RecorderIngestor.
+   * @param {Env} env - The Cloudflare Worker environment bindings.
+   * @param {number} [batchSize=DEFAULT_BATCH_SIZE] - The number of buffered events that forces a flush.
+   */
+  constructor(
+    private readonly env: Env,
+    private readonly batchSize = DEFAULT_BATCH_SIZE,
+  ) {}
+
+  /** The number of events currently buffered. */
+  get size(): number {
+    return this.pending.length;
+  }
+
+  /**
+   * Adds an event to the write buffer.
+   * @param {HomeAssistantEvent} event - The event received from Home Assistant.
+   * @returns {boolean} True when the buffer has reached its batch size and should be flushed.
+   */
+  enqueue(event: HomeAssistantEvent): boolean {
+    if (this.resumeAfter && toRecorderTimestamp(event.time_fired) < this.resumeAfter) {
+      return false;
+    }
+    this.pending.push(event);
+    return this.pending.length >= this.batchSize;
+  }
+
+  /**
+   * Writes all buffered events to the replica in a single D1 batch and advances the cursor.
+   * Events already in the replica are skipped by their dedupe key. The cursor and its confirmation only move
+   * forward, so overlapping flushes cannot rewind them.
+   * On failure the events are returned to the buffer so the next flush retries them.
+   * @param {Date | null} [confirmedAt=null] - A time up to which the caller knows every event has been received,
+   * recorded as the cursor's `confirmed_at` along with the batch (even an empty one).
+   * @returns {Promise<number>} The number of events written.
+   */
+  async flush(confirmedAt: Date | null = null): Promise<number> {
+    if (this.pending.length === 0 && !confirmedAt) return 0;
+
+    const batch = this.pending;
+    this.pending = [];
+
+    const statements = (await Promise.all(batch.map((event) => this.buildStatements(event)))).flat();
+    const last = batch.reduce<HomeAssistantEvent | null>(
+      (latest, event) => (!latest || Date.parse(event.time_fired) >= Date.parse(latest.time_fired) ? event : latest),
+      null,
+    );
+    if (last) {
+      statements.push(
+        this.env.RECORDER_DB.prepare(
+          `INSERT INTO recorder_cursor(stream, time_fired, context_id, updated_at)
+           VALUES (?1, ?2, ?3, CURRENT_TIMESTAMP)
+           ON CONFLICT(stream) DO UPDATE SET time_fired = excluded.time_fired, context_id = excluded.context_id,
+           updated_at = excluded.updated_at
+           WHERE recorder_cursor.time_fired IS NULL OR excluded.time_fired >= recorder_cursor.time_fired`,
+        ).bind(WEBSOCKET_STREAM, toRecorderTimestamp(last.time_fired), last.context?.id ?? null),
+      );
+    }
+    if (confirmedAt) {
+      statements.push(
+        this.env.RECORDER_DB.prepare(
+          `INSERT INTO recorder_cursor(stream, confirmed_at) VALUES (?1, ?2)
+           ON CONFLICT(stream) DO UPDATE SET confirmed_at = excluded.confirmed_at
+           WHERE recorder_cursor.confirmed_at IS NULL OR excluded.confirmed_at > recorder_cursor.confirmed_at`,
+        ).bind(WEBSOCKET_STREAM, toRecorderTimestamp(confirmedAt)),
+      );
+    }
+
+    try {
+      await this.env.RECORDER_DB.batch(statements);
+      return batch.length;
+    } catch (error) {
+      // Keep the newest events if the replica stays unreachable for a long time.
+      this.pending = [...batch, ...this.pending].slice(-MAX_PENDING_EVENTS);
+      throw error;
+    }
+  }
+
+  /**
+   * Loads the persisted cursor so events already written before a restart are not written twice.
+   * @returns {Promise<RecorderCursor | null>} The cursor the ingestor resumed from, if any.
+   */
+  async resume(): Promise<RecorderCursor | null> {
+    const cursor = await this.readCursor();
+    this.resumeAfter = cursor?.timeFired ?? null;
+    return cursor;
+  }
+
+  /**
+   * Reads the ingestion cursor for a stream.
+   * @param {string} [stream=WEBSOCKET_STREAM] - The stream name.
+   * @returns {Promise<RecorderCursor | null>} The cursor, or null if nothing has been ingested yet.
+   */
+  async readCursor(stream = WEBSOCKET_STREAM): Promise<RecorderCursor | null> {
+    return this.env.RECORDER_DB.prepare(
+      `SELECT stream, time_fired AS timeFired, context_id AS contextId, updated_at AS updatedAt,
+         confirmed_at AS confirmedAt
+       FROM recorder_cursor WHERE stream = ?1`,
+    )
+      .bind(stream)
+      .first<RecorderCursor>();
+  }
+
+  /**
+   * Builds the statements that persist a single event.
+   * Both inserts ignore rows that already exist, and the `states` row finds its event by the dedupe key,
+   * so writing an event twice leaves the replica unchanged.
+   * @private
+   * @param {HomeAssistantEvent} event - The event to persist.
+   * @returns {Promise<D1PreparedStatement[]>} The statements to execute.
+   */
+  private async buildStatements(event: HomeAssistantEvent): Promise<D1PreparedStatement[]> {
+    const timeFired = toRecorderTimestamp(event.time_fired);
+    const isStateChange = event.event_type === "state_changed";
+    const data = event.data as Partial<StateChangedData>;
+    // Like Home Assistant's recorder, state payloads live in `states` rather than in `event_data`.
+    const eventData = isStateChange ? { entity_id: data.entity_id } : event.data;
+    const dedupeKey = await eventDedupeKey(event, eventData);
+
+    const statements = [
+      this.env.RECORDER_DB.prepare(
+        `INSERT OR IGNORE INTO events(event_type, event_data, origin, time_fired, context_id, context_user_id,
+           context_parent_id, dedupe_key)
+         VALUES (?1, ?2, ?3, ?4, ?5, ?6, ?7, ?8)`,
+      ).bind(
+        event.event_type,
+        JSON.stringify(eventData),
+        event.origin,
+        timeFired,
+        event.context?.id ?? null,
+        event.context?.user_id ?? null,
+        event.context?.parent_id ?? null,
+        dedupeKey,
+      ),
+    ];
+
+    const newState = isStateChange ? data.new_state : null;
+    if (newState) {
+      const lastUpdated = toRecorderTimestamp(newState.last_updated);
+      statements.push(
+        this.env.RECORDER_DB.prepare(
+          `INSERT OR IGNORE INTO states(entity_id, state, attributes, event_id, last_changed, last_updated, old_state_id)
+           VALUES (?1, ?2, ?3, (SELECT event_id FROM events WHERE dedupe_key = ?6), ?4, ?5,
+             (SELECT state_id FROM states WHERE entity_id = ?1 AND last_updated < ?5 ORDER BY last_updated DESC LIMIT 1))`,
+        ).bind(
+          newState.entity_id,
+          newState.state,
+          JSON.stringify(newState.attributes ?? {}),
+          toRecorderTimestamp(newState.last_changed),
+          lastUpdated,
+          dedupeKey,
+        ),
+      );
+    }
+
+    return statements;
+  }
+}
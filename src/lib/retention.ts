@@ -0,0 +1,311 @@
+/**
+ * @file This file contains the recorder purge job, which enforces the retention policies stored in `CONFIG_DB`
+ * against the D1 recorder replica in bounded batches.
+ */
+
+import type { Env } from "../types";
+import { toRecorderTimestamp } from "./recorder";
+
+/** The recorder tables retention policies can apply to. */
+export const RETENTION_TABLES = ["states", "events", "statistics_short_term", "statistics"] as const;
+
+/** A recorder table retention policies can apply to. */
+export type RetentionTable = (typeof RETENTION_TABLES)[number];
+
+/** The number of rows deleted per statement. */
+const PURGE_BATCH_SIZE = 500;
+
+/** The default number of delete batches per purge run, keeping each run within the Worker's limits. */
+const DEFAULT_MAX_BATCHES = 20;
+
+/**
+ * How each table is purged: its key column, its timestamp column, and the expression the policy glob is matched against.
+ */
+const TABLE_COLUMNS: Record<RetentionTable, { key: string; time: string; subject: string }> = {
+  states: { key: "state_id", time: "last_updated", subject: "entity_id" },
+  events: { key: "event_id", time: "time_fired", subject: "event_type" },
+  statistics_short_term: {
+    key: "id",
+    time: "start",
+    subject: "(SELECT m.statistic_id FROM statistics_meta m WHERE m.id = metadata_id)",
+  },
+  statistics: {
+    key: "id",
+    time: "start",
+    subject: "(SELECT m.statistic_id FROM statistics_meta m WHERE m.id = metadata_id)",
+  },
+};
+
+/**
+ * A retention policy row from `retention_policies`.
+ */
+export interface RetentionPolicy {
+  /** The policy ID, or null for ad-hoc policies built from a purge request. */
+  id: number | null;
+  /** The table the policy applies to. */
+  table: RetentionTable;
+  /** The glob matched against entity IDs (statistic IDs for statistics tables, event types for `events`). */
+  entityGlob: string;
+  /** How many days of rows to keep, or null to keep them forever. */
+  keepDays: number | null;
+  /** Whether the policy is enforced. */
+  enabled: boolean;
+}
+
+/**
+ * Options for a purge run, mirroring Home Assistant's `recorder.purge` and `recorder.purge_entities` services.
+ */
+export interface PurgeOptions {
+  /** Count the matching rows instead of deleting them. */
+  dryRun?: boolean;
+  /** Override the stored policies for `states` and `events` with this many days (`recorder.purge`). */
+  keepDays?: number;
+  /** Purge only the `states` of entities matching these globs (`recorder.purge_entities`); `keepDays` defaults to 0. */
+  entityGlobs?: string[];
+  /** The maximum number of delete batches for this run. */
+  maxBatches?: number;
+}
+
+/**
+ * The outcome of applying one policy.
+ */
+export interface PurgeTableReport {
+  table: RetentionTable;
+  entityGlob: string;
+  keepDays: number | null;
+  /** Rows older than this recorder timestamp are purged. */
+  cutoff: string | null;
+  /** The number of rows deleted, or matched in a dry run. */
+  rows: number;
+  /** False if the batch budget ran out before every matching row was deleted. */
+  complete: boolean;
+}
+
+/**
+ * The outcome of a purge run.
+ */
+export interface PurgeReport {
+  dryRun: boolean;
+  policies: PurgeTableReport[];
+}
+
+/**
+ * Ranks a glob by how specific it is, so that e.g. `sensor.energy_*` overrides `sensor.*`, which overrides `*`.
+ * @param {string} glob - The glob.
+ * @returns {number} The number of literal characters in the glob.
+ */
+const specificity = (glob: string): number => glob.replace(/[*?[\]]/g, "").length;
+
+/**
+ * Enforces recorder retention policies. Each row is governed by the most specific policy whose glob matches it,
+ * and `states` are never purged past the last compiled statistics period, so they are always downsampled first.
+ */
+export class RecorderPurger {
+  /**
+   * Initializes a new instance of the RecorderPurger.
+   * @param {Env} env - The Cloudflare Worker environment bindings.
+   */
+  constructor(private readonly env: Env) {}
+
+  /**
+   * Lists the stored retention policies.
+   * @returns {Promise<RetentionPolicy[]>} The policies, ordered by table and glob.
+   */
+  async listPolicies(): Promise<RetentionPolicy[]> {
+    const { results } = await this.env.CONFIG_DB.prepare(
+      "SELECT id, table_name, entity_glob, keep_days, enabled FROM retention_policies ORDER BY table_name, entity_glob",
+    ).all<{ id: number; table_name: RetentionTable; entity_glob: string; keep_days: number | null; enabled: number }>();
+    return results.map((row) => ({
+      id: row.id,
+      table: row.table_name,
+      entityGlob: row.entity_glob,
+      keepDays: row.keep_days,
+      enabled: row.enabled === 1,
+    }));
+  }
+
+  /**
+   * Creates or updates the policy for a table and glob.
+   * @param {Omit<RetentionPolicy, "id">} policy - The policy to store.
+   * @returns {Promise<void>}
+   */
+  async savePolicy(policy: Omit<RetentionPolicy, "id">): Promise<void> {
+    await this.env.CONFIG_DB.prepare(
+      `INSERT INTO retention_policies(table_name, entity_glob, keep_days, enabled) VALUES (?1, ?2, ?3, ?4)
+       ON CONFLICT(table_name, entity_glob) DO UPDATE SET keep_days = excluded.keep_days, enabled = excluded.enabled`,
+    )
+      .bind(policy.table, policy.entityGlob, policy.keepDays, policy.enabled ? 1 : 0)
+      .run();
+  }
+
+  /**
+   * Deletes a stored policy.
+   * @param {number} id - The policy ID.
+   * @returns {Promise<boolean>} True if a policy was deleted.
+   */
+  async deletePolicy(id: number): Promise<boolean> {
+    const result = await this.env.CONFIG_DB.prepare("DELETE FROM retention_policies WHERE id = ?1").bind(id).run();
+    return result.meta.changes > 0;
+  }
+
+  /**
+   * Purges rows that fall outside their retention policy.
+   * @param {PurgeOptions} [options={}] - Overrides and dry-run settings.
+   * @param {Date} [now=new Date()] - The current time.
+   * @returns {Promise<PurgeReport>} What was (or would be) purged.
+   */
+  async purge(options: PurgeOptions = {}, now = new Date()): Promise<PurgeReport> {
+    const policies = await this.resolvePolicies(options);
+    const lastCompiled = await this.env.RECORDER_DB.prepare("SELECT MAX(start) AS start FROM statistics_runs").first<{
+      start: string | null;
+    }>();
+
+    let budget = options.maxBatches ?? DEFAULT_MAX_BATCHES;
+    const reports: PurgeTableReport[] = [];
+
+    for (const policy of policies) {
+      if (policy.keepDays === null) {
+        reports.push({ ...this.describe(policy), cutoff: null, rows: 0, complete: true });
+        continue;
+      }
+
+      let cutoff = toRecorderTimestamp(now.getTime() - policy.keepDays * 24 * 60 * 60 * 1000);
+      if (policy.table === "states" && lastCompiled?.start && lastCompiled.start < cutoff) {
+        cutoff = lastCompiled.start;
+      }
+
+      // Rows matched by a more specific policy for the same table belong to that policy.
+      const overrides = policies
+        .filter((other) => other.table === policy.table && specificity(other.entityGlob) > specificity(policy.entityGlob))
+        .map((other) => other.entityGlob);
+      const columns = TABLE_COLUMNS[policy.table];
+      const where = [
+        `${columns.time} < ?1`,
+        `${columns.subject} GLOB ?2`,
+        ...overrides.map((_, index) => `NOT (${columns.subject} GLOB ?${index + 3})`),
+      ].join(" AND ");
+      const bindings = [cutoff, policy.entityGlob, ...overrides];
+
+      if (options.dryRun) {
+        const count = await this.env.RECORDER_DB.prepare(`SELECT COUNT(*) AS count FROM ${policy.table} WHERE ${where}`)
+          .bind(...bindings)
+          .first<{ count: number }>();
+        reports.push({ ...this.describe(policy), cutoff, rows: count?.count ?? 0, complete: true });
+        continue;
+      }
+
+      let rows = 0;
+      let complete = false;
+      while (budget > 0) {
+        budget--;
+        const { results } = await this.env.RECORDER_DB.prepare(
+          `SELECT ${columns.key} AS id FROM ${policy.table} WHERE ${where} LIMIT ${PURGE_BATCH_SIZE}`,
+        )
+          .bind(...bindings)
+          .all<{ id: number }>();
+        if (results.length === 0) {
+          complete = true;
+          break;
+        }
+        await this.env.RECORDER_DB.batch(this.deleteStatements(policy.table, results.map((row) => row.id)));
+        rows += results.length;
+        if (results.length < PURGE_BATCH_SIZE) {
+          complete = true;
+          break;
+        }
+      }
+      reports.push({ ...this.describe(policy), cutoff, rows, complete });
+    }
+
+    if (!options.dryRun) {
+      await this.purgeStatisticsRuns(policies, now);
+    }
+
+    return { dryRun: options.dryRun ?? false, policies: reports };
+  }
+
+  /**
+   * Builds the effective policies for a run, applying the request overrides on top of the stored policies.
+   * @private
+   * @param {PurgeOptions} options - The purge options.
+   * @returns {Promise<RetentionPolicy[]>} The enabled policies to apply.
+   */
+  private async resolvePolicies(options: PurgeOptions): Promise<RetentionPolicy[]> {
+    if (options.entityGlobs && options.entityGlobs.length > 0) {
+      return options.entityGlobs.map((entityGlob) => ({
+        id: null,
+        table: "states",
+        entityGlob,
+        keepDays: options.keepDays ?? 0,
+        enabled: true,
+      }));
+    }
+
+    const policies = (await this.listPolicies()).filter((policy) => policy.enabled);
+    if (options.keepDays === undefined) return policies;
+
+    return [
+      ...policies.filter((policy) => policy.table !== "states" && policy.table !== "events"),
+      { id: null, table: "states", entityGlob: "*", keepDays: options.keepDays, enabled: true },
+      { id: null, table: "events", entityGlob: "*", keepDays: options.keepDays, enabled: true },
+    ];
+  }
+
+  /**
+   * Builds the statements that delete a batch of rows, clearing references to them first like Home Assistant does.
+   * @private
+   * @param {RetentionTable} table - The table to delete from.
+   * @param {number[]} ids - The keys of the rows to delete.
+   * @returns {D1PreparedStatement[]} The statements to run in one batch.
+   */
+  private deleteStatements(table: RetentionTable, ids: number[]): D1PreparedStatement[] {
+    const idList = JSON.stringify(ids);
+    const { key } = TABLE_COLUMNS[table];
+    const statements: D1PreparedStatement[] = [];
+    if (table === "states") {
+      statements.push(
+        this.env.RECORDER_DB.prepare(
+          "UPDATE states SET old_state_id = NULL WHERE old_state_id IN (SELECT value FROM json_each(?1))",
+        ).bind(idList),
+      );
+    }
+    if (table === "events") {
+      statements.push(
+        this.env.RECORDER_DB.prepare("UPDATE states SET event_id = NULL WHERE event_id IN (SELECT value FROM json_each(?1))").bind(
+          idList,
+        ),
+      );
+    }
+    statements.push(
+      this.env.RECORDER_DB.prepare(`DELETE FROM ${table} WHERE ${key} IN (SELECT value FROM json_each(?1))`).bind(idList),
+    );
+    return statements;
+  }
+
+  /**
+   * Trims `statistics_runs` along with `statistics_short_term`, always keeping the latest run for the compiler.
+   * @private
+   * @param {RetentionPolicy[]} policies - The effective policies.
+   * @param {Date} now - The current time.
+   * @returns {Promise<void>}
+   */
+  private async purgeStatisticsRuns(policies: RetentionPolicy[], now: Date): Promise<void> {
+    const shortTerm = policies.find((policy) => policy.table === "statistics_short_term" && policy.entityGlob === "*");
+    if (!shortTerm || shortTerm.keepDays === null) return;
+    await this.env.RECORDER_DB.prepare(
+      "DELETE FROM statistics_runs WHERE start < ?1 AND run_id < (SELECT MAX(run_id) FROM statistics_runs)",
+    )
+      .bind(toRecorderTimestamp(now.getTime() - shortTerm.keepDays * 24 * 60 * 60 * 1000))
+      .run();
+  }
+
+  /**
+   * Extracts the reported fields of a policy.
+   * @private
+   * @param {RetentionPolicy} policy - The policy.
+   * @returns {Pick<PurgeTableReport, "table" | "entityGlob" | "keepDays">} The policy summary.
+   */
+  private describe(policy: RetentionPolicy): Pick<PurgeTableReport, "table" | "entityGlob" | "keepDays"> {
+    return { table: policy.table, entityGlob: policy.entityGlob, keepDays: policy.keepDays };
+  }
+}
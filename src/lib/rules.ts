@@ -0,0 +1,753 @@
+/**
+ * @file This file contains the rule engine that executes `agent_rules`: triggers on state changes, numeric
+ * thresholds, cron schedules and events, optional conditions, and actions rendered from `response_template`.
+ */
+
+import { z } from "zod";
+import type { Env, HomeAssistantEvent, HomeAssistantState, StateChangedData } from "../types";
+import { ActionPolicy } from "./actionPolicy";
+import { HassAgent } from "./agent";
+import { cronMatchesBetween, isValidCron } from "./cron";
+import { EVENT_TYPE_PATTERN, HomeAssistantClient, SERVICE_NAME_PATTERN } from "./haClient";
+
+/** How long the enabled rules are cached between database reads. */
+const RULE_CACHE_MS = 30 * 1000;
+
+/** The default number of executions returned by `history`. */
+const DEFAULT_HISTORY_LIMIT = 50;
+
+/** Matches a `{{ path }}` placeholder in a response template. */
+const PLACEHOLDER_PATTERN = /\{\{\s*([\w.]+)\s*\}\}/g;
+
+/** One or more entity IDs. */
+const EntityIdsSchema = z.union([z.string(), z.array(z.string()).min(1)]);
+
+/** A local time of day as HH:MM. */
+const TimeOfDaySchema = z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, "Expected HH:MM");
+
+/**
+ * Zod schema for a rule's trigger: the `trigger_type` column and the matching `trigger_config`.
+ */
+export const RuleTriggerSchema = z.discriminatedUnion("trigger_type", [
+  z.object({
+    trigger_type: z.literal("state"),
+    trigger_config: z.object({
+      entity_id: EntityIdsSchema,
+      /** Compare this attribute instead of the state value. */
+      attribute: z.string().optional(),
+      from: z.string().optional(),
+      to: z.string().optional(),
+    }),
+  }),
+  z.object({
+    trigger_type: z.literal("numeric_state"),
+    trigger_config: z
+      .object({
+        entity_id: EntityIdsSchema,
+        attribute: z.string().optional(),
+        above: z.number().optional(),
+        below: z.number().optional(),
+      })
+      .refine((config) => config.above !== undefined || config.below !== undefined, "above or below is required"),
+  }),
+  z.object({
+    trigger_type: z.literal("time"),
+    trigger_config: z.object({
+      /** A five-field cron expression in the home's `TIME_ZONE`. */
+      cron: z.string().refine(isValidCron, "Invalid cron expression"),
+    }),
+  }),
+  z.object({
+    trigger_type: z.literal("event"),
+    trigger_config: z.object({
+      event_type: z.string(),
+      /** Only fire for events whose data contains these values. */
+      event_data: z.record(z.unknown()).optional(),
+    }),
+  }),
+]);
+
+/**
+ * Zod schema for a condition that must hold when the trigger fires.
+ */
+export const RuleConditionSchema = z.discriminatedUnion("condition", [
+  z.object({
+    condition: z.literal("state"),
+    entity_id: z.string(),
+    attribute: z.string().optional(),
+    state: z.union([z.string(), z.array(z.string())]),
+  }),
+  z.object({
+    condition: z.literal("numeric_state"),
+    entity_id: z.string(),
+    attribute: z.string().optional(),
+    above: z.number().optional(),
+    below: z.number().optional(),
+  }),
+  z.object({
+    condition: z.literal("time"),
+    after: TimeOfDaySchema.optional(),
+    before: TimeOfDaySchema.optional(),
+    weekday: z.array(z.enum(["sun", "mon", "tue", "wed", "thu", "fri", "sat"])).optional(),
+  }),
+]);
+
+/**
+ * Zod schema for an action, as rendered from a rule's `response_template`.
+ */
+export const RuleActionSchema = z.discriminatedUnion("action", [
+  z.object({
+    action: z.literal("service"),
+    domain: z.string().regex(SERVICE_NAME_PATTERN),
+    service: z.string().regex(SERVICE_NAME_PATTERN),
+    data: z.record(z.unknown()).optional(),
+  }),
+  z.object({
+    action: z.literal("notify"),
+    message: z.string(),
+    title: z.string().optional(),
+    /** A `notify` service such as `mobile_app_phone`; a persistent notification is created when omitted. */
+    target: z.string().regex(SERVICE_NAME_PATTERN).optional(),
+  }),
+  z.object({
+    action: z.literal("event"),
+    event_type: z.string().regex(EVENT_TYPE_PATTERN),
+    event_data: z.record(z.unknown()).optional(),
+  }),
+  z.object({
+    action: z.literal("agent"),
+    prompt: z.string(),
+    session_id: z.string().optional(),
+  }),
+]);
+
+/**
+ * Zod schema for creating or replacing a rule. `response_template` is an action or array of actions, either as
+ * JSON or as a JSON string; `{{ trigger.* }}`, `{{ rule.* }}` and `{{ now }}` placeholders are filled in when the
+ * rule fires. Plain text is sent as a notification.
+ */
+export const RuleInputSchema = RuleTriggerSchema.and(
+  z.object({
+    name: z.string().min(1),
+    conditions: z.array(RuleConditionSchema).default([]),
+    response_template: z.union([z.string().min(1), RuleActionSchema, z.array(RuleActionSchema).min(1)]),
+    enabled: z.boolean().default(true),
+  }),
+).superRefine((input, ctx) => {
+  if (typeof input.response_template !== "string") return;
+  const actions = parseActions(input.response_template);
+  if (!actions.success) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["response_template"], message: actions.error.message });
+  }
+});
+
+export type RuleTrigger = z.infer<typeof RuleTriggerSchema>;
+export type RuleCondition = z.infer<typeof RuleConditionSchema>;
+export type RuleAction = z.infer<typeof RuleActionSchema>;
+export type RuleInput = z.infer<typeof RuleInputSchema>;
+
+/**
+ * A stored rule.
+ */
+export type AgentRule = RuleTrigger & {
+  id: number;
+  name: string;
+  conditions: RuleCondition[];
+  /** The action template; see `RuleInputSchema`. */
+  responseTemplate: string;
+  enabled: boolean;
+  lastTriggered: string | null;
+};
+
+/**
+ * A logged rule execution.
+ */
+export interface RuleExecution {
+  id: number;
+  ruleId: number;
+  /** The trigger variables the actions were rendered with. */
+  trigger: Record<string, unknown>;
+  /** `skipped` when the trigger fired but a condition did not hold. */
+  status: "succeeded" | "failed" | "skipped";
+  /** The outcome of each action. */
+  results: { action: string; ok: boolean; result: unknown }[];
+  error: string | null;
+  createdAt: string;
+}
+
+/** Looks up the current state of an entity. */
+export type StateLookup = (entityId: string) => Promise<HomeAssistantState | undefined> | HomeAssistantState | undefined;
+
+/** A row of `agent_rules`. */
+type RuleRow = {
+  id: number;
+  rule_name: string;
+  trigger_type: string;
+  trigger_config: string | null;
+  conditions: string | null;
+  response_template: string | null;
+  enabled: number;
+  last_triggered: string | null;
+};
+
+/** A row of `rule_executions`. */
+type ExecutionRow = {
+  id: number;
+  rule_id: number;
+  trigger: string | null;
+  status: RuleExecution["status"];
+  results: string | null;
+  error: string | null;
+  created_at: string;
+};
+
+/**
+ * Builds a state lookup for code running outside the Durable Object: states come from the Durable Object's cache,
+ * falling back to the Home Assistant REST API, and are fetched once per entity.
+ * @param {Env} env - The Cloudflare Worker environment bindings.
+ * @returns {StateLookup} The lookup.
+ */
+export const remoteStateLookup = (env: Env): StateLookup => {
+  const cache = new Map<string, Promise<HomeAssistantState | undefined>>();
+  return (entityId) => {
+    let state = cache.get(entityId);
+    if (!state) {
+      const stub = env.HA_WEBSOCKET_DO.get(env.HA_WEBSOCKET_DO.idFromName("ha-core"));
+      state = stub
+        .fetch(`https://do/states?entity_id=${encodeURIComponent(entityId)}`)
+        .then((response) => response.json() as Promise<{ states: HomeAssistantState[] }>)
+        .then(async ({ states }) => {
+          if (states[0]) return states[0];
+          const response = await new HomeAssistantClient(env).rest<HomeAssistantState>(`/api/states/${entityId}`);
+          return response.status === 200 ? response.data : undefined;
+        })
+        .catch(() => undefined);
+      cache.set(entityId, state);
+    }
+    return state;
+  };
+};
+
+/**
+ * Reads a dotted path such as `trigger.to_state.state` from template variables.
+ * @param {Record<string, unknown>} variables - The variables.
+ * @param {string} path - The path.
+ * @returns {unknown} The value, or undefined if the path does not exist.
+ */
+const lookupPath = (variables: Record<string, unknown>, path: string): unknown =>
+  path.split(".").reduce<unknown>((value, key) => (value && typeof value === "object" ? (value as Record<string, unknown>)[key] : undefined), variables);
+
+/**
+ * Fills in template placeholders. A string that is a single placeholder becomes the value itself, so numbers and
+ * objects keep their type; placeholders inside longer strings are replaced by their text.
+ * @param {unknown} value - The template value.
+ * @param {Record<string, unknown>} variables - The variables.
+ * @returns {unknown} The rendered value.
+ */
+const renderTemplate = (value: unknown, variables: Record<string, unknown>): unknown => {
+  if (typeof value === "string") {
+    const whole = value.match(/^\{\{\s*([\w.]+)\s*\}\}$/);
+    if (whole) return lookupPath(variables, whole[1]) ?? "";
+    return value.replace(PLACEHOLDER_PATTERN, (_match, path: string) => {
+      const resolved = lookupPath(variables, path);
+      if (resolved === undefined || resolved === null) return "";
+      return typeof resolved === "object" ? JSON.stringify(resolved) : String(resolved);
+    });
+  }
+  if (Array.isArray(value)) return value.map((item) => renderTemplate(item, variables));
+  if (value && typeof value === "object") {
+    return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, renderTemplate(item, variables)]));
+  }
+  return value;
+};
+
+/**
+ * Parses a response template into its actions. Templates that are not JSON are notification messages.
+ * @param {string} template - The stored template.
+ * @param {Record<string, unknown>} [variables] - The variables to render with; the template is only parsed without them.
+ * @returns {z.SafeParseReturnType<unknown, RuleAction[]>} The actions, or the validation error.
+ */
+export const parseActions = (
+  template: string,
+  variables?: Record<string, unknown>,
+): z.SafeParseReturnType<unknown, RuleAction[]> => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(template);
+  } catch {
+    parsed = { action: "notify", message: template };
+  }
+  const rendered = variables ? renderTemplate(parsed, variables) : parsed;
+  return z.array(RuleActionSchema).safeParse(Array.isArray(rendered) ? rendered : [rendered]);
+};
+
+/**
+ * Reads the value a trigger or condition compares: an attribute, or the state value.
+ * @param {HomeAssistantState | null | undefined} state - The state.
+ * @param {string} [attribute] - The attribute.
+ * @returns {unknown} The value, or undefined without a state.
+ */
+const comparedValue = (state: HomeAssistantState | null | undefined, attribute?: string): unknown =>
+  state ? (attribute ? state.attributes[attribute] : state.state) : undefined;
+
+/**
+ * Checks whether a numeric value lies within optional bounds.
+ * @param {unknown} value - The value; non-numeric values are never within bounds.
+ * @param {{ above?: number; below?: number }} bounds - The exclusive bounds.
+ * @returns {boolean} True if the value is within the bounds.
+ */
+const withinBounds = (value: unknown, { above, below }: { above?: number; below?: number }): boolean => {
+  const number = typeof value === "number" ? value : Number.parseFloat(String(value));
+  if (Number.isNaN(number)) return false;
+  return (above === undefined || number > above) && (below === undefined || number < below);
+};
+
+/**
+ * Stores, evaluates and executes rules. One engine instance lives in the Durable Object, which evaluates state and
+ * event triggers as events arrive; the scheduled handler evaluates time triggers, and the webhook receiver
+ * evaluates event triggers for worker events.
+ */
+export class RuleEngine {
+  /** The enabled rules and when they were read. */
+  private cache: { rules: AgentRule[]; loadedAt: number } | null = null;
+
+  /**
+   * Initializes a new instance of the RuleEngine.
+   * @param {Env} env - The Cloudflare Worker environment bindings.
+   */
+  constructor(private readonly env: Env) {}
+
+  /**
+   * Lists every rule, including disabled ones.
+   * @returns {Promise<AgentRule[]>} The rules, ordered by ID.
+   */
+  async list(): Promise<AgentRule[]> {
+    const { results } = await this.env.CONFIG_DB.prepare("SELECT * FROM agent_rules ORDER BY id").all<RuleRow>();
+    return results.flatMap((row) => this.toRule(row) ?? []);
+  }
+
+  /**
+   * Reads a rule.
+   * @param {number} id - The rule ID.
+   * @returns {Promise<AgentRule | null>} The rule, or null if it does not exist or is not an executable rule.
+   */
+  async get(id: number): Promise<AgentRule | null> {
+    const row = await this.env.CONFIG_DB.prepare("SELECT * FROM agent_rules WHERE id = ?1").bind(id).first<RuleRow>();
+    return row ? this.toRule(row) : null;
+  }
+
+  /**
+   * Creates a rule.
+   * @param {RuleInput} input - The validated rule.
+   * @returns {Promise<AgentRule>} The stored rule.
+   */
+  async create(input: RuleInput): Promise<AgentRule> {
+    const row = await this.env.CONFIG_DB.prepare(
+      `INSERT INTO agent_rules(rule_name, trigger_type, trigger_config, conditions, response_template, enabled)
+       VALUES (?1, ?2, json(?3), json(?4), ?5, ?6) RETURNING *`,
+    )
+      .bind(...this.toParams(input))
+      .first<RuleRow>();
+    this.cache = null;
+    return this.toRule(row as RuleRow) as AgentRule;
+  }
+
+  /**
+   * Replaces a rule.
+   * @param {number} id - The rule ID.
+   * @param {RuleInput} input - The validated rule.
+   * @returns {Promise<AgentRule | null>} The stored rule, or null if it does not exist.
+   */
+  async replace(id: number, input: RuleInput): Promise<AgentRule | null> {
+    const row = await this.env.CONFIG_DB.prepare(
+      `UPDATE agent_rules SET rule_name = ?1, trigger_type = ?2, trigger_config = json(?3), conditions = json(?4),
+       response_template = ?5, enabled = ?6 WHERE id = ?7 RETURNING *`,
+    )
+      .bind(...this.toParams(input), id)
+      .first<RuleRow>();
+    this.cache = null;
+    return row ? this.toRule(row) : null;
+  }
+
+  /**
+   * Enables or disables a rule.
+   * @param {number} id - The rule ID.
+   * @param {boolean} enabled - Whether the rule runs.
+   * @returns {Promise<AgentRule | null>} The rule, or null if it does not exist.
+   */
+  async setEnabled(id: number, enabled: boolean): Promise<AgentRule | null> {
+    const row = await this.env.CONFIG_DB.prepare("UPDATE agent_rules SET enabled = ?2 WHERE id = ?1 RETURNING *")
+      .bind(id, enabled ? 1 : 0)
+      .first<RuleRow>();
+    this.cache = null;
+    return row ? this.toRule(row) : null;
+  }
+
+  /**
+   * Deletes a rule and its execution history.
+   * @param {number} id - The rule ID.
+   * @returns {Promise<boolean>} True if a rule was deleted.
+   */
+  async delete(id: number): Promise<boolean> {
+    const [, result] = await this.env.CONFIG_DB.batch([
+      this.env.CONFIG_DB.prepare("DELETE FROM rule_executions WHERE rule_id = ?1").bind(id),
+      this.env.CONFIG_DB.prepare("DELETE FROM agent_rules WHERE id = ?1").bind(id),
+    ]);
+    this.cache = null;
+    return result.meta.changes > 0;
+  }
+
+  /**
+   * Lists a rule's most recent executions.
+   * @param {number} id - The rule ID.
+   * @param {number} [limit=50] - The maximum number of executions.
+   * @returns {Promise<RuleExecution[]>} The executions, newest first.
+   */
+  async history(id: number, limit = DEFAULT_HISTORY_LIMIT): Promise<RuleExecution[]> {
+    const { results } = await this.env.CONFIG_DB.prepare(
+      "SELECT * FROM rule_executions WHERE rule_id = ?1 ORDER BY id DESC LIMIT ?2",
+    )
+      .bind(id, limit)
+      .all<ExecutionRow>();
+    return results.map((row) => ({
+      id: row.id,
+      ruleId: row.rule_id,
+      trigger: row.trigger ? JSON.parse(row.trigger) : {},
+      status: row.status,
+      results: row.results ? JSON.parse(row.results) : [],
+      error: row.error,
+      createdAt: row.created_at,
+    }));
+  }
+
+  /**
+   * Forgets the cached rules so the next evaluation reads them again.
+   */
+  invalidate(): void {
+    this.cache = null;
+  }
+
+  /**
+   * Lists the event types that event rules listen for.
+   * @returns {Promise<string[]>} The event types.
+   */
+  async eventTypes(): Promise<string[]> {
+    const rules = await this.enabledRules();
+    return [
+      ...new Set(rules.flatMap((rule) => (rule.trigger_type === "event" ? [rule.trigger_config.event_type] : []))),
+    ];
+  }
+
+  /**
+   * Evaluates state, numeric threshold and event triggers against an event, executing every rule that fires.
+   * @param {HomeAssistantEvent} event - The event.
+   * @param {StateLookup} lookup - Reads current states for conditions.
+   * @returns {Promise<number>} The number of rules that fired.
+   */
+  async handleEvent(event: HomeAssistantEvent, lookup: StateLookup): Promise<number> {
+    const rules = await this.enabledRules();
+    let fired = 0;
+    for (const rule of rules) {
+      const trigger = this.matchEvent(rule, event);
+      if (!trigger) continue;
+      fired++;
+      await this.execute(rule, trigger, lookup);
+    }
+    return fired;
+  }
+
+  /**
+   * Evaluates time triggers for a window of time, executing every rule whose cron expression matched a minute in it.
+   * A rule that already fired within the window is not fired again.
+   * @param {Date} after - The start of the window (exclusive).
+   * @param {Date} until - The end of the window (inclusive).
+   * @param {StateLookup} lookup - Reads current states for conditions.
+   * @returns {Promise<number>} The number of rules that fired.
+   */
+  async runScheduled(after: Date, until: Date, lookup: StateLookup): Promise<number> {
+    const rules = await this.enabledRules();
+    const timeZone = this.env.TIME_ZONE ?? "UTC";
+    let fired = 0;
+    for (const rule of rules) {
+      if (rule.trigger_type !== "time") continue;
+      if (rule.lastTriggered && new Date(`${rule.lastTriggered.replace(" ", "T")}Z`) > after) continue;
+      if (!cronMatchesBetween(rule.trigger_config.cron, after, until, timeZone)) continue;
+      fired++;
+      await this.execute(rule, { platform: "time", cron: rule.trigger_config.cron, now: until.toISOString() }, lookup);
+    }
+    return fired;
+  }
+
+  /**
+   * Runs a rule's actions now, skipping its trigger and conditions. Used to test rules.
+   * @param {AgentRule} rule - The rule.
+   * @param {Record<string, unknown>} [trigger={ platform: "manual" }] - The trigger variables to render with.
+   * @returns {Promise<RuleExecution>} The logged execution.
+   */
+  async run(rule: AgentRule, trigger: Record<string, unknown> = { platform: "manual" }): Promise<RuleExecution> {
+    return this.execute(rule, trigger, () => undefined, { skipConditions: true });
+  }
+
+  /**
+   * Reads the enabled rules, from the cache while it is fresh.
+   * @private
+   * @returns {Promise<AgentRule[]>} The enabled rules.
+   */
+  private async enabledRules(): Promise<AgentRule[]> {
+    if (this.cache && Date.now() - this.cache.loadedAt < RULE_CACHE_MS) {
+      return this.cache.rules;
+    }
+    const { results } = await this.env.CONFIG_DB.prepare(
+      "SELECT * FROM agent_rules WHERE enabled = 1 ORDER BY id",
+    ).all<RuleRow>();
+    const rules = results.flatMap((row) => this.toRule(row) ?? []);
+    this.cache = { rules, loadedAt: Date.now() };
+    return rules;
+  }
+
+  /**
+   * Checks whether an event fires a rule's trigger. State triggers only fire when the compared value changed.
+   * @private
+   * @param {AgentRule} rule - The rule.
+   * @param {HomeAssistantEvent} event - The event.
+   * @returns {Record<string, unknown> | null} The trigger variables, or null if the rule does not fire.
+   */
+  private matchEvent(rule: AgentRule, event: HomeAssistantEvent): Record<string, unknown> | null {
+    if (rule.trigger_type === "event") {
+      const { event_type: eventType, event_data: expected } = rule.trigger_config;
+      if (event.event_type !== eventType) return null;
+      if (expected && !Object.entries(expected).every(([key, value]) => JSON.stringify(event.data[key]) === JSON.stringify(value))) {
+        return null;
+      }
+      return { platform: "event", event_type: event.event_type, event_data: event.data, origin: event.origin };
+    }
+
+    if (event.event_type !== "state_changed" || (rule.trigger_type !== "state" && rule.trigger_type !== "numeric_state")) {
+      return null;
+    }
+    const { entity_id: entityId, old_state: fromState, new_state: toState } = event.data as unknown as StateChangedData;
+    if (![rule.trigger_config.entity_id].flat().includes(entityId)) return null;
+    const trigger = { platform: rule.trigger_type, entity_id: entityId, from_state: fromState, to_state: toState };
+
+    if (rule.trigger_type === "state") {
+      const { attribute, from, to } = rule.trigger_config;
+      const previous = comparedValue(fromState, attribute);
+      const current = comparedValue(toState, attribute);
+      if (JSON.stringify(previous) === JSON.stringify(current)) return null;
+      if (from !== undefined && String(previous) !== from) return null;
+      if (to !== undefined && String(current) !== to) return null;
+      return trigger;
+    }
+
+    const { attribute } = rule.trigger_config;
+    const current = comparedValue(toState, attribute);
+    // Numeric triggers fire when the value crosses into the range, not on every change within it.
+    if (!withinBounds(current, rule.trigger_config) || withinBounds(comparedValue(fromState, attribute), rule.trigger_config)) {
+      return null;
+    }
+    return { ...trigger, value: Number.parseFloat(String(current)) };
+  }
+
+  /**
+   * Checks a rule's conditions.
+   * @private
+   * @param {RuleCondition[]} conditions - The conditions.
+   * @param {StateLookup} lookup - Reads current states.
+   * @returns {Promise<string | null>} A description of the first condition that does not hold, or null if all hold.
+   */
+  private async failedCondition(conditions: RuleCondition[], lookup: StateLookup): Promise<string | null> {
+    for (const condition of conditions) {
+      if (condition.condition === "time") {
+        const parts = Object.fromEntries(
+          new Intl.DateTimeFormat("en-US", {
+            timeZone: this.env.TIME_ZONE ?? "UTC",
+            hour: "2-digit",
+            minute: "2-digit",
+            weekday: "short",
+            hourCycle: "h23",
+          })
+            .formatToParts(new Date())
+            .map((part) => [part.type, part.value]),
+        );
+        const now = `${parts.hour}:${parts.minute}`;
+        const { after, before, weekday } = condition;
+        const inWindow =
+          after && before && after > before
+            ? now >= after || now < before
+            : (!after || now >= after) && (!before || now < before);
+        if (!inWindow || (weekday && !weekday.includes(parts.weekday.toLowerCase() as (typeof weekday)[number]))) {
+          return `time is ${now} ${parts.weekday}`;
+        }
+        continue;
+      }
+
+      const value = comparedValue(await lookup(condition.entity_id), condition.attribute);
+      if (condition.condition === "state" && ![condition.state].flat().includes(String(value))) {
+        return `${condition.entity_id} is ${String(value)}`;
+      }
+      if (condition.condition === "numeric_state" && !withinBounds(value, condition)) {
+        return `${condition.entity_id} is ${String(value)}`;
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Checks a fired rule's conditions, runs its actions and logs the execution.
+   * @private
+   * @param {AgentRule} rule - The rule.
+   * @param {Record<string, unknown>} trigger - The trigger variables.
+   * @param {StateLookup} lookup - Reads current states for conditions.
+   * @param {{ skipConditions?: boolean }} [options={}] - Whether to run regardless of conditions.
+   * @returns {Promise<RuleExecution>} The logged execution.
+   */
+  private async execute(
+    rule: AgentRule,
+    trigger: Record<string, unknown>,
+    lookup: StateLookup,
+    options: { skipConditions?: boolean } = {},
+  ): Promise<RuleExecution> {
+    let status: RuleExecution["status"] = "succeeded";
+    let error: string | null = null;
+    const results: RuleExecution["results"] = [];
+
+    const failed = options.skipConditions ? null : await this.failedCondition(rule.conditions, lookup);
+    if (failed) {
+      status = "skipped";
+      error = `Condition not met: ${failed}`;
+    } else {
+      const actions = parseActions(rule.responseTemplate, {
+        rule: { id: rule.id, name: rule.name },
+        trigger,
+        now: new Date().toISOString(),
+      });
+      if (!actions.success) {
+        status = "failed";
+        error = `Invalid response_template: ${actions.error.message}`;
+      } else {
+        for (const action of actions.data) {
+          try {
+            results.push({ action: action.action, ok: true, result: await this.runAction(action, rule) });
+          } catch (actionError) {
+            results.push({ action: action.action, ok: false, result: (actionError as Error).message });
+            status = "failed";
+          }
+        }
+      }
+    }
+
+    const statements = [
+      this.env.CONFIG_DB.prepare(
+        `INSERT INTO rule_executions(rule_id, trigger, status, results, error) VALUES (?1, json(?2), ?3, json(?4), ?5)
+         RETURNING *`,
+      ).bind(rule.id, JSON.stringify(trigger), status, JSON.stringify(results), error),
+    ];
+    if (status !== "skipped") {
+      statements.push(
+        this.env.CONFIG_DB.prepare("UPDATE agent_rules SET last_triggered = CURRENT_TIMESTAMP WHERE id = ?1").bind(rule.id),
+      );
+      // Kept in the same format as CURRENT_TIMESTAMP so cached rules compare like stored ones.
+      rule.lastTriggered = new Date().toISOString().replace("T", " ").slice(0, 19);
+    }
+    const [inserted] = await this.env.CONFIG_DB.batch<ExecutionRow>(statements);
+    const row = inserted.results[0];
+    return {
+      id: row?.id ?? 0,
+      ruleId: rule.id,
+      trigger,
+      status,
+      results,
+      error,
+      createdAt: row?.created_at ?? new Date().toISOString(),
+    };
+  }
+
+  /**
+   * Runs one action. Service calls are subject to the action policy, like the agent's own calls.
+   * @private
+   * @param {RuleAction} action - The rendered action.
+   * @param {AgentRule} rule - The rule the action belongs to.
+   * @returns {Promise<unknown>} The action's result; failures throw.
+   */
+  private async runAction(action: RuleAction, rule: AgentRule): Promise<unknown> {
+    const haClient = new HomeAssistantClient(this.env);
+    const expectOk = (response: { status: number; data: unknown }): unknown => {
+      if (response.status >= 400) {
+        throw new Error(`Home Assistant returned ${response.status}: ${JSON.stringify(response.data)}`);
+      }
+      return response.data;
+    };
+
+    switch (action.action) {
+      case "service": {
+        const outcome = await new ActionPolicy(this.env).execute(
+          { domain: action.domain, service: action.service, data: action.data ?? {} },
+          `rule:${rule.id}`,
+        );
+        if (outcome.status === "denied") {
+          throw new Error(`Denied by action policy: ${outcome.reason}`);
+        }
+        return outcome.status === "executed" ? expectOk(outcome.response) : outcome;
+      }
+      case "notify":
+        return expectOk(
+          action.target
+            ? await haClient.callService("notify", action.target, { message: action.message, title: action.title })
+            : await haClient.callService("persistent_notification", "create", {
+                message: action.message,
+                title: action.title ?? rule.name,
+              }),
+        );
+      case "event":
+        return expectOk(await haClient.fireEvent(action.event_type, action.event_data ?? {}));
+      case "agent": {
+        const reply = await new HassAgent(this.env).converse({
+          prompt: action.prompt,
+          sessionId: action.session_id,
+          context: { rule: rule.name },
+        });
+        return { message: reply.message, toolCalls: reply.toolCalls };
+      }
+    }
+  }
+
+  /**
+   * Converts a validated rule into the bind parameters of `agent_rules`.
+   * @private
+   * @param {RuleInput} input - The rule.
+   * @returns {unknown[]} The name, trigger type, trigger config, conditions, template and enabled flag.
+   */
+  private toParams(input: RuleInput): unknown[] {
+    return [
+      input.name,
+      input.trigger_type,
+      JSON.stringify(input.trigger_config),
+      JSON.stringify(input.conditions),
+      typeof input.response_template === "string" ? input.response_template : JSON.stringify(input.response_template),
+      input.enabled ? 1 : 0,
+    ];
+  }
+
+  /**
+   * Converts a row into a rule. Rows that are not executable rules, such as the install log, are skipped.
+   * @private
+   * @param {RuleRow} row - The row.
+   * @returns {AgentRule | null} The rule, or null if the row's trigger is not supported.
+   */
+  private toRule(row: RuleRow): AgentRule | null {
+    const trigger = RuleTriggerSchema.safeParse({
+      trigger_type: row.trigger_type,
+      trigger_config: row.trigger_config ? JSON.parse(row.trigger_config) : {},
+    });
+    if (!trigger.success) return null;
+    return {
+      ...trigger.data,
+      id: row.id,
+      name: row.rule_name,
+      conditions: row.conditions ? z.array(RuleConditionSchema).catch([]).parse(JSON.parse(row.conditions)) : [],
+      responseTemplate: row.response_template ?? "",
+      enabled: row.enabled === 1,
+      lastTriggered: row.last_triggered,
+    };
+  }
+}
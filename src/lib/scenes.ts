@@ -0,0 +1,430 @@
+/**
+ * @file This file contains scenes: named snapshots of entity states, captured now or from the recorder at a past
+ * time, and restored by mapping each saved state back to the service calls that reproduce it.
+ */
+
+import type { Env, HomeAssistantState } from "../types";
+import { ActionPolicy, type GuardedCallResult, type ServiceAction } from "./actionPolicy";
+import { HomeAssistantClient } from "./haClient";
+import { RecorderHistory } from "./history";
+
+/** Saved states that cannot be restored. */
+const UNRESTORABLE_STATES = ["unavailable", "unknown"];
+
+/** Domains switched with `homeassistant.turn_on`/`turn_off` when they have no specific mapping. */
+const ON_OFF_DOMAINS = ["switch", "input_boolean", "automation", "siren", "humidifier", "remote"];
+
+/** The light attributes that hold the color, by `color_mode`. */
+const LIGHT_COLOR_ATTRIBUTES: Record<string, string> = {
+  color_temp: "color_temp_kelvin",
+  hs: "hs_color",
+  rgb: "rgb_color",
+  rgbw: "rgbw_color",
+  rgbww: "rgbww_color",
+  xy: "xy_color",
+};
+
+/**
+ * An entity's state as saved in a scene.
+ */
+export type SceneState = Pick<HomeAssistantState, "entity_id" | "state" | "attributes">;
+
+/**
+ * A stored scene.
+ */
+export interface Scene {
+  id: number;
+  name: string;
+  /** The room the entities were taken from, if the scene was captured by room. */
+  room: string | null;
+  states: SceneState[];
+  /** When the states were current. */
+  capturedAt: string;
+  createdAt: string;
+}
+
+/**
+ * What restoring a scene changes for one entity.
+ */
+export interface SceneChange {
+  entityId: string;
+  /** The settings restoring compares, currently and in the scene; `current` is null if the entity is missing. */
+  current: Record<string, unknown> | null;
+  target: Record<string, unknown>;
+  /** The service calls that restore the entity. */
+  calls: ServiceAction[];
+}
+
+/**
+ * The changes restoring a scene would make.
+ */
+export interface SceneDiff {
+  /** Entities that differ from the scene. */
+  changes: SceneChange[];
+  /** Entities that already match the scene. */
+  unchanged: string[];
+  /** Entities whose saved state cannot be restored, with the reason. */
+  skipped: { entityId: string; reason: string }[];
+}
+
+/**
+ * The outcome of restoring a scene.
+ */
+export interface SceneApplyResult extends SceneDiff {
+  /** The outcome of each service call, in order; empty for a dry run. */
+  results: { action: ServiceAction; outcome: GuardedCallResult }[];
+}
+
+/**
+ * Options for capturing a scene.
+ */
+export interface CaptureOptions {
+  name: string;
+  /** The entities to capture. */
+  entityIds?: string[];
+  /** Captures every entity whose profile is in this room, in addition to `entityIds`. */
+  room?: string;
+  /** Captures the states at this time from the recorder instead of the current states. */
+  at?: Date;
+}
+
+/** A row of `scenes`. */
+type SceneRow = {
+  id: number;
+  name: string;
+  room: string | null;
+  states: string;
+  captured_at: string;
+  created_at: string;
+};
+
+/**
+ * Reduces a state to the settings a scene restores for its domain.
+ * @param {SceneState} state - The state.
+ * @returns {Record<string, unknown>} The settings, always including `state`.
+ */
+const sceneSettings = ({ entity_id: entityId, state, attributes }: SceneState): Record<string, unknown> => {
+  const domain = entityId.split(".")[0];
+  const pick = (...names: string[]): Record<string, unknown> =>
+    Object.fromEntries(names.filter((name) => attributes[name] != null).map((name) => [name, attributes[name]]));
+
+  switch (domain) {
+    case "light": {
+      if (state !== "on") return { state };
+      const colorAttribute = LIGHT_COLOR_ATTRIBUTES[attributes.color_mode as string];
+      return { state, ...pick("brightness", ...(colorAttribute ? [colorAttribute] : []), "effect") };
+    }
+    case "cover":
+      return { state, ...pick("current_position", "current_tilt_position") };
+    case "climate":
+      return { state, ...pick("temperature", "target_temp_low", "target_temp_high", "fan_mode", "preset_mode") };
+    case "fan":
+      return state === "on" ? { state, ...pick("percentage", "preset_mode", "oscillating") } : { state };
+    case "media_player":
+      return state === "off" ? { state } : { state, ...pick("volume_level", "is_volume_muted", "source") };
+    default:
+      return { state };
+  }
+};
+
+/**
+ * Maps saved settings to the service calls that reproduce them.
+ * @param {string} entityId - The entity.
+ * @param {Record<string, unknown>} settings - The saved settings from `sceneSettings`.
+ * @param {number} [transition] - Seconds over which lights fade to the saved state.
+ * @returns {ServiceAction[] | string} The calls, or why the entity cannot be restored.
+ */
+const restoreCalls = (entityId: string, settings: Record<string, unknown>, transition?: number): ServiceAction[] | string => {
+  const { state, ...attributes } = settings;
+  const domain = entityId.split(".")[0];
+  const call = (callDomain: string, service: string, data: Record<string, unknown> = {}): ServiceAction => ({
+    domain: callDomain,
+    service,
+    data: { entity_id: entityId, ...data },
+  });
+
+  switch (domain) {
+    case "light": {
+      const fade = transition === undefined ? {} : { transition };
+      return [state === "on" ? call("light", "turn_on", { ...attributes, ...fade }) : call("light", "turn_off", fade)];
+    }
+    case "cover": {
+      const calls = [
+        attributes.current_position === undefined
+          ? call("cover", state === "closed" || state === "closing" ? "close_cover" : "open_cover")
+          : call("cover", "set_cover_position", { position: attributes.current_position }),
+      ];
+      if (attributes.current_tilt_position !== undefined) {
+        calls.push(call("cover", "set_cover_tilt_position", { tilt_position: attributes.current_tilt_position }));
+      }
+      return calls;
+    }
+    case "climate": {
+      const calls = [call("climate", "set_hvac_mode", { hvac_mode: state })];
+      if (state === "off") return calls;
+      const { temperature, target_temp_low: low, target_temp_high: high, fan_mode: fanMode, preset_mode: presetMode } =
+        attributes;
+      if (temperature !== undefined) {
+        calls.push(call("climate", "set_temperature", { temperature }));
+      } else if (low !== undefined && high !== undefined) {
+        calls.push(call("climate", "set_temperature", { target_temp_low: low, target_temp_high: high }));
+      }
+      if (fanMode !== undefined) calls.push(call("climate", "set_fan_mode", { fan_mode: fanMode }));
+      if (presetMode !== undefined) calls.push(call("climate", "set_preset_mode", { preset_mode: presetMode }));
+      return calls;
+    }
+    case "fan": {
+      if (state !== "on") return [call("fan", "turn_off")];
+      const { percentage, preset_mode: presetMode } = attributes;
+      const calls = [
+        call("fan", "turn_on", {
+          ...(percentage === undefined ? {} : { percentage }),
+          ...(presetMode === undefined ? {} : { preset_mode: presetMode }),
+        }),
+      ];
+      if (attributes.oscillating !== undefined) calls.push(call("fan", "oscillate", { oscillating: attributes.oscillating }));
+      return calls;
+    }
+    case "media_player": {
+      if (state === "off") return [call("media_player", "turn_off")];
+      const calls = [call("media_player", "turn_on")];
+      if (attributes.volume_level !== undefined) {
+        calls.push(call("media_player", "volume_set", { volume_level: attributes.volume_level }));
+      }
+      if (attributes.is_volume_muted !== undefined) {
+        calls.push(call("media_player", "volume_mute", { is_volume_muted: attributes.is_volume_muted }));
+      }
+      if (attributes.source !== undefined) calls.push(call("media_player", "select_source", { source: attributes.source }));
+      return calls;
+    }
+    case "input_number":
+    case "number":
+      return Number.isNaN(Number(state)) ? `${state} is not a number` : [call(domain, "set_value", { value: Number(state) })];
+    case "input_select":
+    case "select":
+      return [call(domain, "select_option", { option: state })];
+    case "lock":
+      return [call("lock", state === "locked" ? "lock" : "unlock")];
+    default:
+      if (ON_OFF_DOMAINS.includes(domain) && (state === "on" || state === "off")) {
+        return [call("homeassistant", state === "on" ? "turn_on" : "turn_off")];
+      }
+      return `${domain} entities cannot be restored`;
+  }
+};
+
+/**
+ * Stores scenes and restores them.
+ */
+export class SceneStore {
+  /**
+   * Initializes a new instance of the SceneStore.
+   * @param {Env} env - The Cloudflare Worker environment bindings.
+   */
+  constructor(private readonly env: Env) {}
+
+  /**
+   * Lists every scene.
+   * @returns {Promise<Scene[]>} The scenes, ordered by name.
+   */
+  async list(): Promise<Scene[]> {
+    const { results } = await this.env.CONFIG_DB.prepare("SELECT * FROM scenes ORDER BY name").all<SceneRow>();
+    return results.map((row) => this.toScene(row));
+  }
+
+  /**
+   * Reads a scene by ID or name.
+   * @param {number | string} idOrName - The scene ID, or its name (case-insensitive).
+   * @returns {Promise<Scene | null>} The scene, or null if it does not exist.
+   */
+  async get(idOrName: number | string): Promise<Scene | null> {
+    const row =
+      typeof idOrName === "number"
+        ? await this.env.CONFIG_DB.prepare("SELECT * FROM scenes WHERE id = ?1").bind(idOrName).first<SceneRow>()
+        : await this.env.CONFIG_DB.prepare("SELECT * FROM scenes WHERE lower(name) = lower(?1)").bind(idOrName).first<SceneRow>();
+    return row ? this.toScene(row) : null;
+  }
+
+  /**
+   * Reads the states of entities, now or at a past time, without saving them.
+   * @param {Omit<CaptureOptions, "name">} options - The entities or room, and the time.
+   * @returns {Promise<{ states: SceneState[]; missing: string[]; capturedAt: Date }>} The states, the entities that
+   * had no state, and when the states were current.
+   */
+  async snapshot(options: Omit<CaptureOptions, "name">): Promise<{ states: SceneState[]; missing: string[]; capturedAt: Date }> {
+    const entityIds = new Set(options.entityIds ?? []);
+    if (options.room) {
+      const { results } = await this.env.CONFIG_DB.prepare(
+        "SELECT entity_id FROM entity_profiles WHERE lower(room) = lower(?1)",
+      )
+        .bind(options.room)
+        .all<{ entity_id: string }>();
+      for (const { entity_id: entityId } of results) entityIds.add(entityId);
+    }
+
+    const capturedAt = options.at ?? new Date();
+    const found = options.at ? await this.pastStates([...entityIds], options.at) : await this.currentStates([...entityIds]);
+    const states = [...entityIds].flatMap((entityId) => {
+      const state = found.get(entityId);
+      return state ? [{ entity_id: entityId, state: state.state, attributes: state.attributes }] : [];
+    });
+    return { states, missing: [...entityIds].filter((entityId) => !found.has(entityId)), capturedAt };
+  }
+
+  /**
+   * Captures a scene, replacing any scene with the same name.
+   * @param {CaptureOptions} options - The name, the entities or room, and the time.
+   * @returns {Promise<{ scene: Scene | null; missing: string[] }>} The stored scene, or null if no entity had a
+   * state, and the entities that had no state.
+   */
+  async capture(options: CaptureOptions): Promise<{ scene: Scene | null; missing: string[] }> {
+    const { states, missing, capturedAt } = await this.snapshot(options);
+    if (states.length === 0) {
+      return { scene: null, missing };
+    }
+    const row = await this.env.CONFIG_DB.prepare(
+      `INSERT INTO scenes(name, room, states, captured_at) VALUES (?1, ?2, json(?3), ?4)
+       ON CONFLICT(name) DO UPDATE SET room = excluded.room, states = excluded.states, captured_at = excluded.captured_at
+       RETURNING *`,
+    )
+      .bind(options.name, options.room ?? null, JSON.stringify(states), capturedAt.toISOString())
+      .first<SceneRow>();
+    return { scene: this.toScene(row as SceneRow), missing };
+  }
+
+  /**
+   * Deletes a scene.
+   * @param {number} id - The scene ID.
+   * @returns {Promise<boolean>} True if a scene was deleted.
+   */
+  async delete(id: number): Promise<boolean> {
+    const result = await this.env.CONFIG_DB.prepare("DELETE FROM scenes WHERE id = ?1").bind(id).run();
+    return result.meta.changes > 0;
+  }
+
+  /**
+   * Compares saved states with the current ones and works out the service calls that restore them.
+   * @param {SceneState[]} states - The saved states.
+   * @param {{ transition?: number }} [options={}] - Seconds over which lights fade.
+   * @returns {Promise<SceneDiff>} The changes, unchanged entities and skipped entities.
+   */
+  async diff(states: SceneState[], options: { transition?: number } = {}): Promise<SceneDiff> {
+    const current = await this.currentStates(states.map((state) => state.entity_id));
+    const diff: SceneDiff = { changes: [], unchanged: [], skipped: [] };
+    for (const saved of states) {
+      if (UNRESTORABLE_STATES.includes(saved.state)) {
+        diff.skipped.push({ entityId: saved.entity_id, reason: `saved state is ${saved.state}` });
+        continue;
+      }
+      const target = sceneSettings(saved);
+      const calls = restoreCalls(saved.entity_id, target, options.transition);
+      if (typeof calls === "string") {
+        diff.skipped.push({ entityId: saved.entity_id, reason: calls });
+        continue;
+      }
+      const now = current.get(saved.entity_id);
+      const currentSettings = now ? sceneSettings(now) : null;
+      if (JSON.stringify(currentSettings) === JSON.stringify(target)) {
+        diff.unchanged.push(saved.entity_id);
+      } else {
+        diff.changes.push({ entityId: saved.entity_id, current: currentSettings, target, calls });
+      }
+    }
+    return diff;
+  }
+
+  /**
+   * Restores saved states, calling services only for entities that differ. Calls go through the action policy, so
+   * e.g. unlocking a door may be held for confirmation.
+   * @param {SceneState[]} states - The saved states.
+   * @param {{ transition?: number; dryRun?: boolean; source?: string }} [options={}] - Seconds over which lights fade,
+   * whether to only report the changes, and who asked (default "scene").
+   * @returns {Promise<SceneApplyResult>} The changes and the outcome of each call.
+   */
+  async apply(
+    states: SceneState[],
+    options: { transition?: number; dryRun?: boolean; source?: string } = {},
+  ): Promise<SceneApplyResult> {
+    const diff = await this.diff(states, options);
+    const results: SceneApplyResult["results"] = [];
+    if (options.dryRun) return { ...diff, results };
+
+    const policy = new ActionPolicy(this.env);
+    for (const change of diff.changes) {
+      for (const action of change.calls) {
+        results.push({ action, outcome: await policy.execute(action, options.source ?? "scene") });
+      }
+    }
+    return { ...diff, results };
+  }
+
+  /**
+   * Reads the current states of entities from the Durable Object's state cache, falling back to the REST API for
+   * entities it does not have.
+   * @private
+   * @param {string[]} entityIds - The entities.
+   * @returns {Promise<Map<string, HomeAssistantState>>} The states of the entities that exist.
+   */
+  private async currentStates(entityIds: string[]): Promise<Map<string, HomeAssistantState>> {
+    const found = new Map<string, HomeAssistantState>();
+    if (entityIds.length === 0) return found;
+
+    const query = new URLSearchParams(entityIds.map((entityId) => ["entity_id", entityId]));
+    const stub = this.env.HA_WEBSOCKET_DO.get(this.env.HA_WEBSOCKET_DO.idFromName("ha-core"));
+    const cached = await stub
+      .fetch(`https://do/states?${query}`)
+      .then((response) => response.json() as Promise<{ states: HomeAssistantState[] }>)
+      .catch(() => ({ states: [] }));
+    for (const state of cached.states) found.set(state.entity_id, state);
+
+    const haClient = new HomeAssistantClient(this.env);
+    for (const entityId of entityIds.filter((id) => !found.has(id))) {
+      const response = await haClient.rest<HomeAssistantState>(`/api/states/${entityId}`);
+      if (response.status === 200) found.set(entityId, response.data);
+    }
+    return found;
+  }
+
+  /**
+   * Reads the states entities had at a past time from the recorder history.
+   * @private
+   * @param {string[]} entityIds - The entities.
+   * @param {Date} at - The time.
+   * @returns {Promise<Map<string, SceneState>>} The states of the entities that had one.
+   */
+  private async pastStates(entityIds: string[], at: Date): Promise<Map<string, SceneState>> {
+    const found = new Map<string, SceneState>();
+    if (entityIds.length === 0) return found;
+
+    // The first entry of each entity's history is its state at the start of the window, with attributes.
+    const { data } = await new RecorderHistory(this.env).history({
+      entityIds,
+      start: at,
+      end: new Date(at.getTime() + 1000),
+      significantChangesOnly: false,
+    });
+    for (const [first] of data) {
+      if (first?.entity_id && first.state !== null) {
+        found.set(first.entity_id, { entity_id: first.entity_id, state: first.state, attributes: first.attributes ?? {} });
+      }
+    }
+    return found;
+  }
+
+  /**
+   * Converts a row into a scene.
+   * @private
+   * @param {SceneRow} row - The row.
+   * @returns {Scene} The scene.
+   */
+  private toScene(row: SceneRow): Scene {
+    return {
+      id: row.id,
+      name: row.name,
+      room: row.room,
+      states: JSON.parse(row.states),
+      capturedAt: row.captured_at,
+      createdAt: row.created_at,
+    };
+  }
+}
@@ -0,0 +1,410 @@
+/**
+ * @file This file contains the cron job runner: every tick of the worker's cron trigger runs the enabled
+ * `cron_jobs` rows whose cron expression is due, dispatching each row's `task` to a registered handler and logging
+ * the run in `cron_runs`.
+ */
+
+import { z } from "zod";
+import type { Env } from "../types";
+import { ActionPolicy } from "./actionPolicy";
+import { CameraAnalyzer } from "./camera";
+import { cronMatchesBetween, isValidCron } from "./cron";
+import { HomeAssistantClient, SERVICE_NAME_PATTERN } from "./haClient";
+import { RecorderPurger } from "./retention";
+import { StatisticsCompiler } from "./statistics";
+
+/** How long daily reports are kept in KV. */
+const REPORT_TTL_SECONDS = 60 * 60 * 24 * 7;
+
+/** The default number of runs returned by `runs`. */
+const DEFAULT_RUNS_LIMIT = 50;
+
+/** The `scheduler_ticks` row of the worker's scheduled tick. */
+const TICK_NAME = "scheduled";
+
+/** The window of the very first tick: just the minute it fires in. */
+const FIRST_TICK_WINDOW_MS = 60 * 1000;
+
+/** The longest window a tick catches up on after downtime, so a long outage does not replay days of minutes. */
+const MAX_TICK_WINDOW_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Zod schema for a job's task and the configuration its handler accepts.
+ */
+const CronTaskSchema = z.discriminatedUnion("task", [
+  z.object({ task: z.literal("daily_report"), configuration: z.object({}).default({}) }),
+  z.object({
+    task: z.literal("purge"),
+    configuration: z
+      .object({
+        keep_days: z.number().int().min(0).optional(),
+        entity_globs: z.array(z.string().min(1)).optional(),
+        dry_run: z.boolean().optional(),
+        max_batches: z.number().int().positive().max(100).optional(),
+      })
+      .default({}),
+  }),
+  z.object({ task: z.literal("statistics_compile"), configuration: z.object({}).default({}) }),
+  z.object({
+    task: z.literal("camera_sweep"),
+    configuration: z
+      .object({
+        /** Every camera entity when omitted. */
+        entity_ids: z.array(z.string()).min(1).optional(),
+        prompt: z.string().optional(),
+        model: z.string().optional(),
+      })
+      .default({}),
+  }),
+  z.object({
+    task: z.literal("ha_service"),
+    configuration: z.object({
+      domain: z.string().regex(SERVICE_NAME_PATTERN),
+      service: z.string().regex(SERVICE_NAME_PATTERN),
+      data: z.record(z.unknown()).optional(),
+    }),
+  }),
+]);
+
+/**
+ * Zod schema for creating or replacing a job.
+ */
+export const CronJobInputSchema = CronTaskSchema.and(
+  z.object({
+    name: z.string().min(1).optional(),
+    /** A five-field cron expression in the home's `TIME_ZONE`. */
+    cron: z.string().refine(isValidCron, "Invalid cron expression"),
+    enabled: z.boolean().default(true),
+  }),
+);
+
+export type CronTask = z.infer<typeof CronTaskSchema>;
+export type CronJobInput = z.infer<typeof CronJobInputSchema>;
+
+/** The names of the registered tasks. */
+export const CRON_TASK_NAMES = CronTaskSchema.options.map((option) => option.shape.task.value);
+
+/**
+ * A stored job. `task` and `configuration` are kept as stored, so rows with an unknown task are still listed;
+ * they fail when run.
+ */
+export interface CronJob {
+  id: number;
+  name: string | null;
+  cron: string;
+  task: string;
+  configuration: Record<string, unknown>;
+  enabled: boolean;
+  lastRunAt: string | null;
+}
+
+/**
+ * A logged job run.
+ */
+export interface CronRun {
+  id: number;
+  jobId: number;
+  task: string;
+  status: "succeeded" | "failed";
+  startedAt: string;
+  durationMs: number;
+  /** What the task's handler returned. */
+  result: unknown;
+  error: string | null;
+}
+
+/** A row of `cron_jobs`. */
+type CronJobRow = {
+  id: number;
+  name: string | null;
+  cron: string;
+  task: string;
+  configuration: string | null;
+  enabled: number;
+  last_run_at: string | null;
+};
+
+/** A row of `cron_runs`. */
+type CronRunRow = {
+  id: number;
+  job_id: number;
+  task: string;
+  status: CronRun["status"];
+  started_at: string;
+  duration_ms: number;
+  result: string | null;
+  error: string | null;
+};
+
+/**
+ * The handler of each task. Handlers throw to fail the run; their return value is logged as the run's result.
+ */
+const CRON_TASKS: {
+  [Task in CronTask["task"]]: (env: Env, configuration: Extract<CronTask, { task: Task }>["configuration"]) => Promise<unknown>;
+} = {
+  /**
+   * Stores a report of the last day's energy statistics and the Home Assistant error log in KV under
+   * `daily-report:<time>` for 7 days.
+   */
+  daily_report: async (env) => {
+    const energy = await env.RECORDER_DB.prepare(
+      `SELECT m.name, s.sum FROM statistics s JOIN statistics_meta m ON s.metadata_id = m.id
+       WHERE s.start >= datetime('now', '-1 day') AND m.statistic_id LIKE 'sensor.energy%'
+       ORDER BY s.start DESC`,
+    ).all();
+    const logs = await new HomeAssistantClient(env).rest<string>("/api/error_log");
+
+    const report = {
+      generatedAt: new Date().toISOString(),
+      energy: energy.results,
+      errors: logs.data?.split("\n").slice(0, 50) ?? [],
+    };
+    await env.MEMORY_KV.put(`daily-report:${report.generatedAt}`, JSON.stringify(report), {
+      expirationTtl: REPORT_TTL_SECONDS,
+    });
+    return { key: `daily-report:${report.generatedAt}`, energyRows: report.energy.length, errors: report.errors.length };
+  },
+  purge: (env, configuration) =>
+    new RecorderPurger(env).purge({
+      keepDays: configuration.keep_days,
+      entityGlobs: configuration.entity_globs,
+      dryRun: configuration.dry_run,
+      maxBatches: configuration.max_batches,
+    }),
+  statistics_compile: (env) => new StatisticsCompiler(env).compilePending(),
+  camera_sweep: async (env, configuration) => {
+    const sweep = await new CameraAnalyzer(env).sweep({
+      entityIds: configuration.entity_ids,
+      prompt: configuration.prompt,
+      model: configuration.model,
+    });
+    if (sweep.analyses.length === 0 && sweep.failures.length > 0) {
+      throw new Error(`Every camera failed: ${sweep.failures.map((failure) => failure.error).join("; ")}`);
+    }
+    return sweep;
+  },
+  /** Calls a service subject to the action policy; calls held for confirmation are returned with their token. */
+  ha_service: async (env, configuration) => {
+    const outcome = await new ActionPolicy(env).execute(
+      { domain: configuration.domain, service: configuration.service, data: configuration.data ?? {} },
+      "cron",
+    );
+    if (outcome.status === "denied") {
+      throw new Error(`Denied by action policy: ${outcome.reason}`);
+    }
+    if (outcome.status === "executed" && outcome.response.status >= 400) {
+      throw new Error(`Home Assistant returned ${outcome.response.status}: ${JSON.stringify(outcome.response.data)}`);
+    }
+    return outcome;
+  },
+};
+
+/**
+ * Stores and runs cron jobs.
+ */
+export class CronScheduler {
+  /**
+   * Initializes a new instance of the CronScheduler.
+   * @param {Env} env - The Cloudflare Worker environment bindings.
+   */
+  constructor(private readonly env: Env) {}
+
+  /**
+   * Lists every job, including disabled ones.
+   * @returns {Promise<CronJob[]>} The jobs, ordered by ID.
+   */
+  async list(): Promise<CronJob[]> {
+    const { results } = await this.env.CONFIG_DB.prepare("SELECT * FROM cron_jobs ORDER BY id").all<CronJobRow>();
+    return results.map((row) => this.toJob(row));
+  }
+
+  /**
+   * Reads a job.
+   * @param {number} id - The job ID.
+   * @returns {Promise<CronJob | null>} The job, or null if it does not exist.
+   */
+  async get(id: number): Promise<CronJob | null> {
+    const row = await this.env.CONFIG_DB.prepare("SELECT * FROM cron_jobs WHERE id = ?1").bind(id).first<CronJobRow>();
+    return row ? this.toJob(row) : null;
+  }
+
+  /**
+   * Creates a job.
+   * @param {CronJobInput} input - The validated job.
+   * @returns {Promise<CronJob>} The stored job.
+   */
+  async create(input: CronJobInput): Promise<CronJob> {
+    const row = await this.env.CONFIG_DB.prepare(
+      "INSERT INTO cron_jobs(name, cron, task, configuration, enabled) VALUES (?1, ?2, ?3, json(?4), ?5) RETURNING *",
+    )
+      .bind(input.name ?? null, input.cron, input.task, JSON.stringify(input.configuration), input.enabled ? 1 : 0)
+      .first<CronJobRow>();
+    return this.toJob(row as CronJobRow);
+  }
+
+  /**
+   * Replaces a job.
+   * @param {number} id - The job ID.
+   * @param {CronJobInput} input - The validated job.
+   * @returns {Promise<CronJob | null>} The stored job, or null if it does not exist.
+   */
+  async replace(id: number, input: CronJobInput): Promise<CronJob | null> {
+    const row = await this.env.CONFIG_DB.prepare(
+      `UPDATE cron_jobs SET name = ?1, cron = ?2, task = ?3, configuration = json(?4), enabled = ?5
+       WHERE id = ?6 RETURNING *`,
+    )
+      .bind(input.name ?? null, input.cron, input.task, JSON.stringify(input.configuration), input.enabled ? 1 : 0, id)
+      .first<CronJobRow>();
+    return row ? this.toJob(row) : null;
+  }
+
+  /**
+   * Deletes a job and its run history.
+   * @param {number} id - The job ID.
+   * @returns {Promise<boolean>} True if a job was deleted.
+   */
+  async delete(id: number): Promise<boolean> {
+    const [, result] = await this.env.CONFIG_DB.batch([
+      this.env.CONFIG_DB.prepare("DELETE FROM cron_runs WHERE job_id = ?1").bind(id),
+      this.env.CONFIG_DB.prepare("DELETE FROM cron_jobs WHERE id = ?1").bind(id),
+    ]);
+    return result.meta.changes > 0;
+  }
+
+  /**
+   * Lists a job's most recent runs.
+   * @param {number} id - The job ID.
+   * @param {number} [limit=50] - The maximum number of runs.
+   * @returns {Promise<CronRun[]>} The runs, newest first.
+   */
+  async runs(id: number, limit = DEFAULT_RUNS_LIMIT): Promise<CronRun[]> {
+    const { results } = await this.env.CONFIG_DB.prepare(
+      "SELECT * FROM cron_runs WHERE job_id = ?1 ORDER BY id DESC LIMIT ?2",
+    )
+      .bind(id, limit)
+      .all<CronRunRow>();
+    return results.map((row) => ({
+      id: row.id,
+      jobId: row.job_id,
+      task: row.task,
+      status: row.status,
+      startedAt: row.started_at,
+      durationMs: row.duration_ms,
+      result: row.result ? JSON.parse(row.result) : null,
+      error: row.error,
+    }));
+  }
+
+  /**
+   * Claims the window of a scheduled tick: the minutes since the end of the window the previous tick claimed, capped
+   * at a day. Late or skipped ticks leave no minutes uncovered whatever the trigger interval, and a tick whose window
+   * was already claimed gets an empty one, so no minute is covered twice.
+   * @param {Date} until - The tick's scheduled time, the end of its window (inclusive).
+   * @returns {Promise<Date>} The start of the window (exclusive); equal to `until` when nothing is left to cover.
+   */
+  async claimTickWindow(until: Date): Promise<Date> {
+    const [previous] = await this.env.CONFIG_DB.batch<{ last_tick_at: string }>([
+      this.env.CONFIG_DB.prepare("SELECT last_tick_at FROM scheduler_ticks WHERE name = ?1").bind(TICK_NAME),
+      this.env.CONFIG_DB.prepare(
+        `INSERT INTO scheduler_ticks(name, last_tick_at) VALUES (?1, ?2)
+         ON CONFLICT(name) DO UPDATE SET last_tick_at = excluded.last_tick_at
+         WHERE excluded.last_tick_at > scheduler_ticks.last_tick_at`,
+      ).bind(TICK_NAME, until.toISOString().replace("T", " ").slice(0, 19)),
+    ]);
+    const lastTickAt = previous.results[0]?.last_tick_at;
+    if (!lastTickAt) {
+      return new Date(until.getTime() - FIRST_TICK_WINDOW_MS);
+    }
+    const lastTick = new Date(`${lastTickAt.replace(" ", "T")}Z`).getTime();
+    return new Date(Math.min(until.getTime(), Math.max(lastTick, until.getTime() - MAX_TICK_WINDOW_MS)));
+  }
+
+  /**
+   * Runs every enabled job whose cron expression matched a minute in a window, concurrently. A job that already ran
+   * within the window is not run again.
+   * @param {Date} after - The start of the window (exclusive).
+   * @param {Date} until - The end of the window (inclusive).
+   * @returns {Promise<CronRun[]>} The runs.
+   */
+  async runDue(after: Date, until: Date): Promise<CronRun[]> {
+    const { results } = await this.env.CONFIG_DB.prepare(
+      "SELECT * FROM cron_jobs WHERE enabled = 1 ORDER BY id",
+    ).all<CronJobRow>();
+    const timeZone = this.env.TIME_ZONE ?? "UTC";
+    const due = results
+      .map((row) => this.toJob(row))
+      .filter(
+        (job) =>
+          !(job.lastRunAt && new Date(`${job.lastRunAt.replace(" ", "T")}Z`) > after) &&
+          cronMatchesBetween(job.cron, after, until, timeZone),
+      );
+    return Promise.all(due.map((job) => this.run(job)));
+  }
+
+  /**
+   * Runs a job now and logs the run. Failures of the task are logged rather than thrown.
+   * @param {CronJob} job - The job.
+   * @returns {Promise<CronRun>} The logged run.
+   */
+  async run(job: CronJob): Promise<CronRun> {
+    const startedAt = new Date();
+    let status: CronRun["status"] = "succeeded";
+    let result: unknown = null;
+    let error: string | null = null;
+    try {
+      const task = CronTaskSchema.safeParse({ task: job.task, configuration: job.configuration });
+      if (!task.success) {
+        throw new Error(
+          (CRON_TASK_NAMES as string[]).includes(job.task)
+            ? `Invalid configuration: ${task.error.message}`
+            : `Unknown task ${job.task}`,
+        );
+      }
+      result = await (CRON_TASKS[task.data.task] as (env: Env, configuration: unknown) => Promise<unknown>)(
+        this.env,
+        task.data.configuration,
+      );
+    } catch (taskError) {
+      status = "failed";
+      error = (taskError as Error).message;
+    }
+    const durationMs = Date.now() - startedAt.getTime();
+    const startedAtText = startedAt.toISOString().replace("T", " ").slice(0, 19);
+
+    const [inserted] = await this.env.CONFIG_DB.batch<CronRunRow>([
+      this.env.CONFIG_DB.prepare(
+        `INSERT INTO cron_runs(job_id, task, status, started_at, duration_ms, result, error)
+         VALUES (?1, ?2, ?3, ?4, ?5, json(?6), ?7) RETURNING *`,
+      ).bind(job.id, job.task, status, startedAtText, durationMs, JSON.stringify(result ?? null), error),
+      this.env.CONFIG_DB.prepare("UPDATE cron_jobs SET last_run_at = ?2 WHERE id = ?1").bind(job.id, startedAtText),
+    ]);
+    return {
+      id: inserted.results[0]?.id ?? 0,
+      jobId: job.id,
+      task: job.task,
+      status,
+      startedAt: startedAtText,
+      durationMs,
+      result,
+      error,
+    };
+  }
+
+  /**
+   * Converts a row into a job.
+   * @private
+   * @param {CronJobRow} row - The row.
+   * @returns {CronJob} The job.
+   */
+  private toJob(row: CronJobRow): CronJob {
+    return {
+      id: row.id,
+      name: row.name,
+      cron: row.cron,
+      task: row.task,
+      configuration: row.configuration ? JSON.parse(row.configuration) : {},
+      enabled: row.enabled === 1,
+      lastRunAt: row.last_run_at,
+    };
+  }
+}
@@ -0,0 +1,168 @@
+/**
+ * @file This file contains the current-state cache kept by the WebSocket Durable Object.
+ * States live in memory for fast reads and in the Durable Object's SQLite storage so they survive eviction.
+ */
+
+import type { HomeAssistantState, StateChangedData } from "../types";
+
+/** A row of the `entity_states` table. */
+type StateRow = {
+  entity_id: string;
+  state: string;
+  attributes: string;
+  last_changed: string;
+  last_updated: string;
+  context: string | null;
+};
+
+/** Filters applied when listing cached states. */
+export interface StateFilter {
+  /** Only return entities of this domain (e.g., "light"). */
+  domain?: string;
+  /** Only return these entity IDs. */
+  entityIds?: string[];
+}
+
+/**
+ * Maintains the current state of every Home Assistant entity, seeded by `get_states` and kept up to date
+ * from `state_changed` events.
+ */
+export class StateCache {
+  /** The cached states keyed by entity ID. */
+  private readonly states = new Map<string, HomeAssistantState>();
+  /** When the cache was last fully synchronized with `get_states`. */
+  private syncedAt: string | null = null;
+  /** When the cache last applied a `state_changed` event. */
+  private lastEventAt: string | null = null;
+
+  /**
+   * Creates the backing tables if needed and loads the persisted states into memory.
+   * @param {SqlStorage} sql - The Durable Object's SQLite storage.
+   */
+  constructor(private readonly sql: SqlStorage) {
+    this.sql.exec(`CREATE TABLE IF NOT EXISTS entity_states (
+      entity_id TEXT PRIMARY KEY,
+      state TEXT,
+      attributes TEXT,
+      last_changed TEXT,
+      last_updated TEXT,
+      context TEXT
+    )`);
+    this.sql.exec("CREATE TABLE IF NOT EXISTS state_cache_meta (key TEXT PRIMARY KEY, value TEXT)");
+
+    for (const row of this.sql.exec<StateRow>("SELECT * FROM entity_states")) {
+      this.states.set(row.entity_id, {
+        entity_id: row.entity_id,
+        state: row.state,
+        attributes: JSON.parse(row.attributes),
+        last_changed: row.last_changed,
+        last_updated: row.last_updated,
+        context: row.context ? JSON.parse(row.context) : undefined,
+      });
+    }
+    for (const row of this.sql.exec<{ key: string; value: string }>("SELECT key, value FROM state_cache_meta")) {
+      if (row.key === "synced_at") this.syncedAt = row.value;
+      if (row.key === "last_event_at") this.lastEventAt = row.value;
+    }
+  }
+
+  /** The number of cached entities. */
+  get size(): number {
+    return this.states.size;
+  }
+
+  /**
+   * Replaces the cache with a full `get_states` result. States that changed after the request was sent
+   * (and were already applied from events) are kept rather than overwritten by the older snapshot.
+   * @param {HomeAssistantState[]} states - The states returned by `get_states`.
+   * @param {string} requestedAt - The ISO 8601 timestamp of when `get_states` was sent.
+   */
+  replaceAll(states: HomeAssistantState[], requestedAt: string): void {
+    const incoming = new Set(states.map((state) => state.entity_id));
+    for (const [entityId, cached] of this.states) {
+      if (!incoming.has(entityId) && cached.last_updated < requestedAt) {
+        this.delete(entityId);
+      }
+    }
+    for (const state of states) {
+      const cached = this.states.get(state.entity_id);
+      if (!cached || cached.last_updated <= state.last_updated) {
+        this.put(state);
+      }
+    }
+    this.syncedAt = new Date().toISOString();
+    this.sql.exec("INSERT OR REPLACE INTO state_cache_meta(key, value) VALUES ('synced_at', ?)", this.syncedAt);
+  }
+
+  /**
+   * Applies a `state_changed` event to the cache.
+   * @param {StateChangedData} data - The event data.
+   */
+  apply(data: StateChangedData): void {
+    if (data.new_state) {
+      this.put(data.new_state);
+    } else {
+      this.delete(data.entity_id);
+    }
+    this.lastEventAt = new Date().toISOString();
+    this.sql.exec("INSERT OR REPLACE INTO state_cache_meta(key, value) VALUES ('last_event_at', ?)", this.lastEventAt);
+  }
+
+  /**
+   * Returns the cached state of a single entity.
+   * @param {string} entityId - The entity ID.
+   * @returns {HomeAssistantState | undefined} The cached state, if known.
+   */
+  get(entityId: string): HomeAssistantState | undefined {
+    return this.states.get(entityId);
+  }
+
+  /**
+   * Lists cached states, optionally filtered by domain or entity IDs.
+   * @param {StateFilter} [filter={}] - The filters to apply.
+   * @returns {HomeAssistantState[]} The matching states, sorted by entity ID.
+   */
+  list(filter: StateFilter = {}): HomeAssistantState[] {
+    const entityIds = filter.entityIds ? new Set(filter.entityIds) : null;
+    return [...this.states.values()]
+      .filter((state) => !filter.domain || state.entity_id.startsWith(`${filter.domain}.`))
+      .filter((state) => !entityIds || entityIds.has(state.entity_id))
+      .sort((a, b) => a.entity_id.localeCompare(b.entity_id));
+  }
+
+  /**
+   * Describes how fresh the cache is.
+   * @returns {{ syncedAt: string | null; lastEventAt: string | null; entities: number }} The cache freshness summary.
+   */
+  describe(): { syncedAt: string | null; lastEventAt: string | null; entities: number } {
+    return { syncedAt: this.syncedAt, lastEventAt: this.lastEventAt, entities: this.states.size };
+  }
+
+  /**
+   * Stores a state in memory and in SQLite.
+   * @private
+   * @param {HomeAssistantState} state - The state to store.
+   */
+  private put(state: HomeAssistantState): void {
+    this.states.set(state.entity_id, state);
+    this.sql.exec(
+      "INSERT OR REPLACE INTO entity_states(entity_id, state, attributes, last_changed, last_updated, context) VALUES (?, ?, ?, ?, ?, ?)",
+      state.entity_id,
+      state.state,
+      JSON.stringify(state.attributes ?? {}),
+      state.last_changed,
+      state.last_updated,
+      state.context ? JSON.stringify(state.context) : null,
+    );
+  }
+
+  /**
+   * Removes a state from memory and SQLite.
+   * @private
+   * @param {string} entityId - The entity ID to remove.
+   */
+  private delete(entityId: string): void {
+    this.states.delete(entityId);
+    this.sql.exec("DELETE FROM entity_states WHERE entity_id = ?", entityId);
+  }
+}
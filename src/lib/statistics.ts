@@ -0,0 +1,430 @@
+/**
+ * @file This file contains the long-term statistics compiler. It reads numeric `states` rows from the recorder
+ * replica and writes 5-minute `statistics_short_term` and hourly `statistics` rows the way Home Assistant's recorder does.
+ */
+
+import type { Env } from "../types";
+import { fromRecorderTimestamp, toRecorderTimestamp } from "./recorder";
+
+/** The length of a short-term statistics period. */
+const SHORT_TERM_PERIOD_MS = 5 * 60 * 1000;
+
+/** The length of a long-term statistics period. */
+const HOURLY_PERIOD_MS = 60 * 60 * 1000;
+
+/** How far back the compiler looks for the state in effect when a period starts. */
+const STATE_LOOKBACK_MS = 24 * 60 * 60 * 1000;
+
+/** The maximum number of 5-minute periods compiled per run, so catching up is spread over several runs. */
+const MAX_PERIODS_PER_RUN = 12 * 24;
+
+/** The number of statements sent to D1 per batch. */
+const BATCH_SIZE = 100;
+
+/**
+ * A `total_increasing` value dropping below this fraction of the previous value is treated as a meter reset,
+ * matching Home Assistant's recorder.
+ */
+const METER_RESET_THRESHOLD = 0.9;
+
+/** The state classes that produce statistics. */
+type StateClass = "measurement" | "total" | "total_increasing";
+
+/** A `states` row as read by the compiler. */
+type StateRow = { entity_id: string; state: string | null; attributes: string | null; last_updated: string };
+
+/** A parsed state sample of one entity. */
+interface Sample {
+  /** Epoch milliseconds of the sample. */
+  time: number;
+  /** The numeric value, or null for non-numeric states such as "unavailable". */
+  value: number | null;
+  /** The `state_class` attribute. */
+  stateClass: StateClass | null;
+  /** The `last_reset` attribute, if any. */
+  lastReset: string | null;
+  /** The `unit_of_measurement` attribute, if any. */
+  unit: string | null;
+  /** The `friendly_name` attribute, if any. */
+  name: string | null;
+}
+
+/** A compiled statistics row. */
+interface StatisticsRow {
+  start: string;
+  mean: number | null;
+  min: number | null;
+  max: number | null;
+  lastReset: string | null;
+  state: number | null;
+  sum: number | null;
+}
+
+/** The running total of a `total`/`total_increasing` statistic carried from one period to the next. */
+interface SumState {
+  sum: number;
+  state: number | null;
+  lastReset: string | null;
+}
+
+/**
+ * The outcome of a compiler run.
+ */
+export interface CompileResult {
+  /** The start of the first compiled 5-minute period, if any. */
+  from: string | null;
+  /** The end of the last compiled 5-minute period, if any. */
+  to: string | null;
+  /** The number of 5-minute periods compiled. */
+  periods: number;
+  /** The number of `statistics_short_term` rows written. */
+  shortTermRows: number;
+  /** The number of hours aggregated into `statistics`. */
+  hours: number;
+}
+
+/**
+ * Floors an epoch timestamp to a multiple of a period.
+ * @param {number} time - Epoch milliseconds.
+ * @param {number} period - The period length in milliseconds.
+ * @returns {number} The floored timestamp.
+ */
+const floorTo = (time: number, period: number): number => Math.floor(time / period) * period;
+
+/**
+ * Parses a `states` row into a sample.
+ * @param {StateRow} row - The row to parse.
+ * @returns {Sample} The parsed sample.
+ */
+const toSample = (row: StateRow): Sample => {
+  const attributes = JSON.parse(row.attributes ?? "{}") as Record<string, unknown>;
+  const value = row.state === null || row.state.trim() === "" ? Number.NaN : Number(row.state);
+  const stateClass = attributes.state_class;
+  return {
+    time: Date.parse(fromRecorderTimestamp(row.last_updated)),
+    value: Number.isFinite(value) ? value : null,
+    stateClass:
+      stateClass === "measurement" || stateClass === "total" || stateClass === "total_increasing" ? stateClass : null,
+    lastReset: typeof attributes.last_reset === "string" ? attributes.last_reset : null,
+    unit: typeof attributes.unit_of_measurement === "string" ? attributes.unit_of_measurement : null,
+    name: typeof attributes.friendly_name === "string" ? attributes.friendly_name : null,
+  };
+};
+
+/**
+ * Compiles short-term and hourly statistics from the recorder replica.
+ */
+export class StatisticsCompiler {
+  /**
+   * Initializes a new instance of the StatisticsCompiler.
+   * @param {Env} env - The Cloudflare Worker environment bindings.
+   */
+  constructor(private readonly env: Env) {}
+
+  /**
+   * Compiles every 5-minute period that has ended since the last run, up to `MAX_PERIODS_PER_RUN`,
+   * and aggregates each hour whose last 5-minute period was compiled.
+   * @param {Date} [now=new Date()] - The current time.
+   * @returns {Promise<CompileResult>} What was compiled.
+   */
+  async compilePending(now = new Date()): Promise<CompileResult> {
+    const lastRun = await this.env.RECORDER_DB.prepare("SELECT MAX(start) AS start FROM statistics_runs").first<{
+      start: string | null;
+    }>();
+
+    let from: number;
+    if (lastRun?.start) {
+      from = Date.parse(fromRecorderTimestamp(lastRun.start)) + SHORT_TERM_PERIOD_MS;
+    } else {
+      const earliest = await this.env.RECORDER_DB.prepare("SELECT MIN(last_updated) AS earliest FROM states").first<{
+        earliest: string | null;
+      }>();
+      if (!earliest?.earliest) {
+        return { from: null, to: null, periods: 0, shortTermRows: 0, hours: 0 };
+      }
+      from = floorTo(Date.parse(fromRecorderTimestamp(earliest.earliest)), SHORT_TERM_PERIOD_MS);
+    }
+
+    const to = Math.min(floorTo(now.getTime(), SHORT_TERM_PERIOD_MS), from + MAX_PERIODS_PER_RUN * SHORT_TERM_PERIOD_MS);
+    return this.compileRange(new Date(from), new Date(to));
+  }
+
+  /**
+   * Compiles every 5-minute period in a window and the hours it completes. Existing rows are overwritten,
+   * so a window can be recompiled after the replica was backfilled.
+   * @param {Date} start - The start of the window; floored to a 5-minute boundary.
+   * @param {Date} end - The end of the window; floored to a 5-minute boundary.
+   * @returns {Promise<CompileResult>} What was compiled.
+   */
+  async compileRange(start: Date, end: Date): Promise<CompileResult> {
+    const from = floorTo(start.getTime(), SHORT_TERM_PERIOD_MS);
+    const to = floorTo(end.getTime(), SHORT_TERM_PERIOD_MS);
+    if (to <= from) {
+      return { from: null, to: null, periods: 0, shortTermRows: 0, hours: 0 };
+    }
+
+    const samplesByEntity = await this.loadSamples(from, to);
+    const statements: D1PreparedStatement[] = [];
+    let shortTermRows = 0;
+
+    for (const [entityId, samples] of samplesByEntity) {
+      // Non-numeric states such as "unavailable" often lack attributes, so use the latest sample that has a class.
+      const latest = [...samples].reverse().find((sample) => sample.stateClass !== null);
+      if (!latest?.stateClass) continue;
+
+      const metadataId = await this.ensureMetadata(entityId, latest);
+      const rows =
+        latest.stateClass === "measurement"
+          ? this.compileMeasurement(samples, from, to)
+          : this.compileTotal(samples, from, to, latest.stateClass, await this.loadSumState(metadataId, from));
+
+      for (const row of rows) {
+        statements.push(
+          this.env.RECORDER_DB.prepare(
+            `INSERT INTO statistics_short_term(metadata_id, start, mean, min, max, last_reset, state, sum)
+             VALUES (?1, ?2, ?3, ?4, ?5, ?6, ?7, ?8)
+             ON CONFLICT(metadata_id, start) DO UPDATE SET mean = excluded.mean, min = excluded.min, max = excluded.max,
+             last_reset = excluded.last_reset, state = excluded.state, sum = excluded.sum`,
+          ).bind(metadataId, row.start, row.mean, row.min, row.max, row.lastReset, row.state, row.sum),
+        );
+      }
+      shortTermRows += rows.length;
+    }
+
+    for (let period = from; period < to; period += SHORT_TERM_PERIOD_MS) {
+      statements.push(
+        this.env.RECORDER_DB.prepare("INSERT INTO statistics_runs(start) VALUES (?1)").bind(toRecorderTimestamp(period)),
+      );
+    }
+
+    for (let index = 0; index < statements.length; index += BATCH_SIZE) {
+      await this.env.RECORDER_DB.batch(statements.slice(index, index + BATCH_SIZE));
+    }
+
+    // An hour is complete once its last 5-minute period has been compiled.
+    let hours = 0;
+    for (let hour = floorTo(from, HOURLY_PERIOD_MS); hour + HOURLY_PERIOD_MS <= to; hour += HOURLY_PERIOD_MS) {
+      await this.compileHour(hour);
+      hours++;
+    }
+
+    return {
+      from: toRecorderTimestamp(from),
+      to: toRecorderTimestamp(to),
+      periods: (to - from) / SHORT_TERM_PERIOD_MS,
+      shortTermRows,
+      hours,
+    };
+  }
+
+  /**
+   * Loads the samples of every entity with a `state_class`, including the state in effect when the window starts.
+   * @private
+   * @param {number} from - The start of the window.
+   * @param {number} to - The end of the window.
+   * @returns {Promise<Map<string, Sample[]>>} Samples per entity, in chronological order.
+   */
+  private async loadSamples(from: number, to: number): Promise<Map<string, Sample[]>> {
+    const lookback = toRecorderTimestamp(from - STATE_LOOKBACK_MS);
+    const { results } = await this.env.RECORDER_DB.prepare(
+      `SELECT entity_id, state, attributes, last_updated FROM states
+       WHERE last_updated >= ?1 AND last_updated < ?2
+         AND entity_id IN (
+           SELECT DISTINCT entity_id FROM states
+           WHERE last_updated >= ?1 AND last_updated < ?2 AND json_extract(attributes, '$.state_class') IS NOT NULL
+         )
+       ORDER BY entity_id, last_updated`,
+    )
+      .bind(lookback, toRecorderTimestamp(to))
+      .all<StateRow>();
+
+    const samplesByEntity = new Map<string, Sample[]>();
+    for (const row of results) {
+      const samples = samplesByEntity.get(row.entity_id) ?? [];
+      samples.push(toSample(row));
+      samplesByEntity.set(row.entity_id, samples);
+    }
+
+    // Only the last sample before the window matters; drop older ones.
+    for (const [entityId, samples] of samplesByEntity) {
+      const firstInWindow = samples.findIndex((sample) => sample.time >= from);
+      const keepFrom = firstInWindow === -1 ? samples.length - 1 : Math.max(0, firstInWindow - 1);
+      samplesByEntity.set(entityId, samples.slice(keepFrom));
+    }
+    return samplesByEntity;
+  }
+
+  /**
+   * Creates or updates the `statistics_meta` row of an entity from its attributes.
+   * @private
+   * @param {string} entityId - The entity ID, used as the statistic ID.
+   * @param {Sample} latest - The entity's most recent sample.
+   * @returns {Promise<number>} The metadata ID.
+   */
+  private async ensureMetadata(entityId: string, latest: Sample): Promise<number> {
+    const hasSum = latest.stateClass !== "measurement";
+    const row = await this.env.RECORDER_DB.prepare(
+      `INSERT INTO statistics_meta(statistic_id, unit_of_measurement, source, name, has_mean, has_sum)
+       VALUES (?1, ?2, 'recorder', ?3, ?4, ?5)
+       ON CONFLICT(statistic_id) DO UPDATE SET unit_of_measurement = excluded.unit_of_measurement,
+       name = excluded.name, has_mean = excluded.has_mean, has_sum = excluded.has_sum
+       RETURNING id`,
+    )
+      .bind(entityId, latest.unit, latest.name, hasSum ? 0 : 1, hasSum ? 1 : 0)
+      .first<{ id: number }>();
+    if (!row) {
+      throw new Error(`Failed to create statistics metadata for ${entityId}`);
+    }
+    return row.id;
+  }
+
+  /**
+   * Loads the running sum of a statistic from the last short-term row before a window, or from the last hourly row
+   * that ended before it, such as one imported by a backfill, when there is no short-term row.
+   * @private
+   * @param {number} metadataId - The metadata ID.
+   * @param {number} from - The start of the window.
+   * @returns {Promise<SumState | null>} The running sum, or null if the statistic has no history yet.
+   */
+  private async loadSumState(metadataId: number, from: number): Promise<SumState | null> {
+    type SumRow = { sum: number | null; state: string | null; last_reset: string | null };
+    const row =
+      (await this.env.RECORDER_DB.prepare(
+        `SELECT sum, state, last_reset FROM statistics_short_term
+         WHERE metadata_id = ?1 AND start < ?2 ORDER BY start DESC LIMIT 1`,
+      )
+        .bind(metadataId, toRecorderTimestamp(from))
+        .first<SumRow>()) ??
+      (await this.env.RECORDER_DB.prepare(
+        `SELECT sum, state, last_reset FROM statistics
+         WHERE metadata_id = ?1 AND start <= ?2 ORDER BY start DESC LIMIT 1`,
+      )
+        .bind(metadataId, toRecorderTimestamp(from - HOURLY_PERIOD_MS))
+        .first<SumRow>());
+    if (!row || row.sum === null) return null;
+    const state = row.state === null ? Number.NaN : Number(row.state);
+    return {
+      sum: row.sum,
+      state: Number.isFinite(state) ? state : null,
+      lastReset: row.last_reset ? fromRecorderTimestamp(row.last_reset) : null,
+    };
+  }
+
+  /**
+   * Compiles `measurement` statistics: a time-weighted mean plus the min and max of each period.
+   * Periods without any numeric value produce no row.
+   * @private
+   * @param {Sample[]} samples - The entity's samples, starting with the one in effect at `from`.
+   * @param {number} from - The start of the window.
+   * @param {number} to - The end of the window.
+   * @returns {StatisticsRow[]} One row per period with data.
+   */
+  private compileMeasurement(samples: Sample[], from: number, to: number): StatisticsRow[] {
+    const rows: StatisticsRow[] = [];
+    for (let start = from; start < to; start += SHORT_TERM_PERIOD_MS) {
+      const end = start + SHORT_TERM_PERIOD_MS;
+      let weighted = 0;
+      let duration = 0;
+      let min = Number.POSITIVE_INFINITY;
+      let max = Number.NEGATIVE_INFINITY;
+
+      samples.forEach((sample, index) => {
+        const segmentStart = Math.max(sample.time, start);
+        const segmentEnd = Math.min(samples[index + 1]?.time ?? end, end);
+        if (sample.value === null || segmentEnd <= segmentStart) return;
+        weighted += sample.value * (segmentEnd - segmentStart);
+        duration += segmentEnd - segmentStart;
+        min = Math.min(min, sample.value);
+        max = Math.max(max, sample.value);
+      });
+
+      if (duration === 0) continue;
+      rows.push({ start: toRecorderTimestamp(start), mean: weighted / duration, min, max, lastReset: null, state: null, sum: null });
+    }
+    return rows;
+  }
+
+  /**
+   * Compiles `total` and `total_increasing` statistics: the last state of each period and a running sum of changes.
+   * A new meter cycle starts when `last_reset` changes (`total`) or the value drops sharply (`total_increasing`);
+   * the first value of a new cycle is added to the sum in full, as it was counted up from zero.
+   * @private
+   * @param {Sample[]} samples - The entity's samples, starting with the one in effect at `from`.
+   * @param {number} from - The start of the window.
+   * @param {number} to - The end of the window.
+   * @param {StateClass} stateClass - The entity's state class.
+   * @param {SumState | null} previous - The running sum carried over from before the window.
+   * @returns {StatisticsRow[]} One row per period once the statistic has a value.
+   */
+  private compileTotal(
+    samples: Sample[],
+    from: number,
+    to: number,
+    stateClass: StateClass,
+    previous: SumState | null,
+  ): StatisticsRow[] {
+    const running: SumState = previous ?? { sum: 0, state: null, lastReset: null };
+    const rows: StatisticsRow[] = [];
+    let cursor = 0;
+
+    for (let start = from; start < to; start += SHORT_TERM_PERIOD_MS) {
+      const end = start + SHORT_TERM_PERIOD_MS;
+      for (; cursor < samples.length && samples[cursor].time < end; cursor++) {
+        const { value, lastReset } = samples[cursor];
+        if (value === null) continue;
+
+        if (running.state === null) {
+          // The first value seen only establishes the baseline.
+        } else if (stateClass === "total" && lastReset !== null && Date.parse(lastReset) !== Date.parse(running.lastReset ?? "")) {
+          running.sum += value;
+        } else if (stateClass === "total_increasing" && value < running.state * METER_RESET_THRESHOLD) {
+          running.sum += value;
+        } else {
+          running.sum += value - running.state;
+        }
+        running.state = value;
+        running.lastReset = lastReset;
+      }
+
+      if (running.state === null) continue;
+      rows.push({
+        start: toRecorderTimestamp(start),
+        mean: null,
+        min: null,
+        max: null,
+        lastReset: running.lastReset ? toRecorderTimestamp(running.lastReset) : null,
+        state: running.state,
+        sum: running.sum,
+      });
+    }
+    return rows;
+  }
+
+  /**
+   * Aggregates the short-term rows of one hour into `statistics`: the mean of means, the overall min and max,
+   * and the state, sum and last reset of the hour's last short-term row. Hours imported by a backfill are kept.
+   * @private
+   * @param {number} hour - The start of the hour.
+   * @returns {Promise<void>}
+   */
+  private async compileHour(hour: number): Promise<void> {
+    await this.env.RECORDER_DB.prepare(
+      `INSERT INTO statistics(metadata_id, start, mean, min, max, last_reset, state, sum)
+       SELECT s.metadata_id, ?1, AVG(s.mean), MIN(s.min), MAX(s.max),
+         (SELECT l.last_reset FROM statistics_short_term l
+          WHERE l.metadata_id = s.metadata_id AND l.start >= ?1 AND l.start < ?2 ORDER BY l.start DESC LIMIT 1),
+         (SELECT l.state FROM statistics_short_term l
+          WHERE l.metadata_id = s.metadata_id AND l.start >= ?1 AND l.start < ?2 ORDER BY l.start DESC LIMIT 1),
+         (SELECT l.sum FROM statistics_short_term l
+          WHERE l.metadata_id = s.metadata_id AND l.start >= ?1 AND l.start < ?2 ORDER BY l.start DESC LIMIT 1)
+       FROM statistics_short_term s
+       WHERE s.start >= ?1 AND s.start < ?2
+       GROUP BY s.metadata_id
+       ON CONFLICT(metadata_id, start) DO UPDATE SET mean = excluded.mean, min = excluded.min, max = excluded.max,
+       last_reset = excluded.last_reset, state = excluded.state, sum = excluded.sum
+       WHERE statistics.backfilled = 0`,
+    )
+      .bind(toRecorderTimestamp(hour), toRecorderTimestamp(hour + HOURLY_PERIOD_MS))
+      .run();
+  }
+}
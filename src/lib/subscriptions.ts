@@ -0,0 +1,85 @@
+/**
+ * @file This file contains helpers for sharing Home Assistant WebSocket subscriptions between proxy clients.
+ */
+
+/**
+ * A compressed entity state as sent by `subscribe_entities`.
+ * Keys are abbreviated by Home Assistant: `s` state, `a` attributes, `c` context, `lc` last changed, `lu` last updated.
+ */
+export interface CompressedState {
+  s: string;
+  a: Record<string, unknown>;
+  c: string | Record<string, unknown>;
+  lc: number;
+  lu?: number;
+}
+
+/**
+ * The payload of a `subscribe_entities` event: additions, changes and removals.
+ */
+export interface CompressedStateDiff {
+  /** Entities added with their full compressed state. */
+  a?: Record<string, CompressedState>;
+  /** Entities changed, with fields to add (`+`) and attribute keys to remove (`-`). */
+  c?: Record<string, { "+"?: Partial<CompressedState>; "-"?: { a?: string[] } }>;
+  /** Entity IDs removed. */
+  r?: string[];
+}
+
+/**
+ * Recursively sorts object keys and primitive arrays so that equivalent payloads serialize identically.
+ * @param {unknown} value - The value to normalize.
+ * @returns {unknown} The normalized value.
+ */
+const normalize = (value: unknown): unknown => {
+  if (Array.isArray(value)) {
+    const items = value.map(normalize);
+    return items.every((item) => typeof item !== "object" || item === null) ? [...items].sort() : items;
+  }
+  if (value && typeof value === "object") {
+    return Object.fromEntries(
+      Object.entries(value as Record<string, unknown>)
+        .sort(([a], [b]) => a.localeCompare(b))
+        .map(([key, item]) => [key, normalize(item)]),
+    );
+  }
+  return value;
+};
+
+/**
+ * Builds the key under which a subscription command is shared. The message ID is ignored so that the same
+ * subscription from different clients (or with reordered keys and entity lists) maps to one upstream subscription.
+ * @param {Record<string, unknown>} command - The subscription command sent by a client.
+ * @returns {string} The normalized subscription key.
+ */
+export const subscriptionKey = (command: Record<string, unknown>): string => {
+  const { id: _id, ...payload } = command;
+  return JSON.stringify(normalize(payload));
+};
+
+/**
+ * Applies a `subscribe_entities` diff to a snapshot of compressed states in place,
+ * so that clients joining a shared subscription late can receive the current entity set.
+ * @param {Map<string, CompressedState>} snapshot - The snapshot to update.
+ * @param {CompressedStateDiff} diff - The diff received from Home Assistant.
+ */
+export const applyEntityDiff = (snapshot: Map<string, CompressedState>, diff: CompressedStateDiff): void => {
+  for (const [entityId, state] of Object.entries(diff.a ?? {})) {
+    snapshot.set(entityId, state);
+  }
+
+  for (const [entityId, change] of Object.entries(diff.c ?? {})) {
+    const current = snapshot.get(entityId);
+    if (!current) continue;
+    const { a: addedAttributes, ...fields } = change["+"] ?? {};
+    const attributes = { ...current.a, ...addedAttributes };
+    for (const key of change["-"]?.a ?? []) {
+      delete attributes[key];
+    }
+    snapshot.set(entityId, { ...current, ...fields, a: attributes });
+  }
+
+  for (const entityId of diff.r ?? []) {
+    snapshot.delete(entityId);
+  }
+};
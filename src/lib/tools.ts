@@ -0,0 +1,418 @@
+/**
+ * @file This file contains the tools the agent can call. Each tool's arguments are described by a zod schema,
+ * which both validates the model's arguments and produces the JSON Schema offered to the model.
+ */
+
+import { z } from "zod";
+import type { Env, HomeAssistantState } from "../types";
+import { ActionPolicy } from "./actionPolicy";
+import { parseLocalTime } from "./cron";
+import { EntityResolver } from "./entityResolver";
+import { ENTITY_ID_PATTERN, EVENT_TYPE_PATTERN, HomeAssistantClient, SERVICE_NAME_PATTERN } from "./haClient";
+import { RecorderHistory } from "./history";
+import { type SceneApplyResult, SceneStore } from "./scenes";
+
+/** The maximum number of entities returned by `list_entities`, keeping tool results within the model's context. */
+const MAX_LISTED_ENTITIES = 100;
+
+/** The maximum number of history entries returned per entity by `query_history`. */
+const MAX_HISTORY_ENTRIES = 50;
+
+/**
+ * Checks whether the agent may fire an event type. `AGENT_EVENT_TYPES` lists event types, or prefixes ending in `*`,
+ * so the agent cannot fire Home Assistant's own events (e.g., `homeassistant_stop`) that automations react to.
+ * @param {string} eventType - The event type.
+ * @param {Env} env - The Cloudflare Worker environment bindings.
+ * @returns {boolean} True if the event type is allowed.
+ */
+const isAllowedEventType = (eventType: string, env: Env): boolean =>
+  (env.AGENT_EVENT_TYPES ?? "agent_*")
+    .split(",")
+    .map((entry) => entry.trim())
+    .filter(Boolean)
+    .some((entry) => (entry.endsWith("*") ? eventType.startsWith(entry.slice(0, -1)) : eventType === entry));
+
+/**
+ * A tool the agent can call.
+ * @template T The zod schema of the tool's arguments.
+ */
+export interface AgentTool<T extends z.ZodTypeAny = z.ZodTypeAny> {
+  /** The name the model calls the tool by. */
+  name: string;
+  /** What the tool does, shown to the model. */
+  description: string;
+  /** The schema of the tool's arguments. */
+  parameters: T;
+  /**
+   * Executes the tool.
+   * @param {z.infer<T>} args - The validated arguments.
+   * @param {Env} env - The Cloudflare Worker environment bindings.
+   * @returns {Promise<unknown>} The result fed back to the model.
+   */
+  execute(args: z.infer<T>, env: Env): Promise<unknown>;
+}
+
+/**
+ * The outcome of a tool call, as recorded in the agent's response.
+ */
+export interface ToolCallResult {
+  /** The tool that was called. */
+  name: string;
+  /** The arguments the model passed. */
+  arguments: unknown;
+  /** Whether the call succeeded. */
+  ok: boolean;
+  /** The tool's result, or the error message when the call failed. */
+  result: unknown;
+}
+
+/**
+ * Defines a tool while preserving the type of its argument schema.
+ * @template T The zod schema of the tool's arguments.
+ * @param {AgentTool<T>} tool - The tool definition.
+ * @returns {AgentTool<T>} The same tool.
+ */
+const defineTool = <T extends z.ZodTypeAny>(tool: AgentTool<T>): AgentTool<T> => tool;
+
+/**
+ * Fails when a Home Assistant REST call did not succeed, so the model sees the error instead of a partial result.
+ * @template T The response data type.
+ * @param {{ status: number; data: T }} response - The Home Assistant response.
+ * @returns {T} The response data.
+ */
+const expectOk = <T>(response: { status: number; data: T }): T => {
+  if (response.status >= 400) {
+    throw new Error(`Home Assistant returned ${response.status}: ${JSON.stringify(response.data)}`);
+  }
+  return response.data;
+};
+
+/**
+ * Parses a time the model passed, which is local time in the home's time zone unless it has an offset.
+ * @param {string} text - The time.
+ * @param {Env} env - The Cloudflare Worker environment bindings.
+ * @returns {Date} The instant.
+ */
+const modelTime = (text: string, env: Env): Date => {
+  const date = parseLocalTime(text, env.TIME_ZONE ?? "UTC");
+  if (!date) {
+    throw new Error(`Invalid time ${text}; use YYYY-MM-DDTHH:MM`);
+  }
+  return date;
+};
+
+/**
+ * Summarizes restoring a scene for the model: what changed, and any calls that were denied or held.
+ * @param {SceneApplyResult} result - The outcome.
+ * @returns {Record<string, unknown>} The summary.
+ */
+const summarizeRestore = (result: SceneApplyResult): Record<string, unknown> => ({
+  changed: result.changes.map((change) => ({ entity_id: change.entityId, from: change.current, to: change.target })),
+  unchanged: result.unchanged,
+  skipped: result.skipped,
+  not_executed: result.results
+    .filter(({ outcome }) => outcome.status !== "executed")
+    .map(({ action, outcome }) => ({ action, ...outcome })),
+});
+
+/** The tools available to the agent, keyed by name. */
+export const AGENT_TOOLS = {
+  call_service: defineTool({
+    name: "call_service",
+    description:
+      "Call a Home Assistant service, e.g. light.turn_on, to control devices. Targets may be entity IDs or spoken names; " +
+      "if a name is ambiguous nothing is called and a clarifying question is returned for you to ask the user. " +
+      "Calls blocked by the safety policy or awaiting confirmation are not carried out; tell the user why.",
+    parameters: z.object({
+      domain: z.string().regex(SERVICE_NAME_PATTERN).describe("The service domain, e.g. light"),
+      service: z.string().regex(SERVICE_NAME_PATTERN).describe("The service name, e.g. turn_on"),
+      entity_id: z
+        .union([z.string(), z.array(z.string())])
+        .optional()
+        .describe("The target entity IDs or names, e.g. light.kitchen or kitchen lights"),
+      service_data: z.record(z.unknown()).optional().describe("Additional service data, e.g. brightness_pct"),
+    }),
+    async execute({ domain, service, entity_id, service_data }, env) {
+      const targets: string[] = [];
+      for (const target of entity_id === undefined ? [] : [entity_id].flat()) {
+        if (ENTITY_ID_PATTERN.test(target)) {
+          targets.push(target);
+          continue;
+        }
+        // Generic services such as homeassistant.turn_on may target any domain; the policy checks each entity against
+        // its own domain.
+        const resolution = await new EntityResolver(env).resolve(target, {
+          domain: domain === "homeassistant" ? undefined : domain,
+        });
+        if (resolution.status !== "resolved") {
+          return { called: false, clarification: resolution.question, candidates: resolution.candidates };
+        }
+        targets.push(...resolution.entities.map((entity) => entity.entityId));
+      }
+
+      const data = { ...service_data, ...(targets.length > 0 ? { entity_id: targets } : {}) };
+      const outcome = await new ActionPolicy(env).execute({ domain, service, data }, "agent");
+      if (outcome.status !== "executed") {
+        // Denied and pending calls are reported to the model, which relays them (and any token) to the user.
+        return { called: false, ...outcome };
+      }
+
+      const changed = expectOk(outcome.response) as HomeAssistantState[];
+      return {
+        called: true,
+        changed: Array.isArray(changed) ? changed.map((state) => ({ entity_id: state.entity_id, state: state.state })) : [],
+      };
+    },
+  }),
+  resolve_entities: defineTool({
+    name: "resolve_entities",
+    description:
+      "Find the entities a spoken name refers to, using nicknames, aliases, rooms and areas. If the status is " +
+      "ambiguous or not_found, ask the user the returned question instead of acting.",
+    parameters: z.object({
+      query: z.string().describe("The name as the user said it, e.g. kitchen lights"),
+      domain: z.string().optional().describe("Only match entities of this domain, e.g. light"),
+    }),
+    async execute({ query, domain }, env) {
+      return new EntityResolver(env).resolve(query, { domain });
+    },
+  }),
+  get_state: defineTool({
+    name: "get_state",
+    description: "Get the current state and attributes of an entity.",
+    parameters: z.object({
+      entity_id: z.string().regex(ENTITY_ID_PATTERN).describe("The entity ID, e.g. light.kitchen"),
+    }),
+    async execute({ entity_id }, env) {
+      return expectOk(await new HomeAssistantClient(env).rest<HomeAssistantState>(`/api/states/${entity_id}`));
+    },
+  }),
+  list_entities: defineTool({
+    name: "list_entities",
+    description: "List entities with their current state, optionally filtered by domain or by a search term.",
+    parameters: z.object({
+      domain: z.string().optional().describe("Only list entities of this domain, e.g. light"),
+      search: z.string().optional().describe("Only list entities whose ID, name or nickname contains this text"),
+    }),
+    async execute({ domain, search }, env) {
+      const states = expectOk(await new HomeAssistantClient(env).rest<HomeAssistantState[]>("/api/states"));
+      const { results: profiles } = await env.CONFIG_DB.prepare(
+        "SELECT entity_id, nickname, room FROM entity_profiles",
+      ).all<{ entity_id: string; nickname: string | null; room: string | null }>();
+      const profileById = new Map(profiles.map((profile) => [profile.entity_id, profile]));
+      const term = search?.toLowerCase();
+
+      return states
+        .filter((state) => !domain || state.entity_id.startsWith(`${domain}.`))
+        .map((state) => ({
+          entity_id: state.entity_id,
+          name: (state.attributes.friendly_name as string | undefined) ?? null,
+          state: state.state,
+          nickname: profileById.get(state.entity_id)?.nickname ?? null,
+          room: profileById.get(state.entity_id)?.room ?? null,
+        }))
+        .filter(
+          (entity) =>
+            !term ||
+            [entity.entity_id, entity.name, entity.nickname].some((value) => value?.toLowerCase().includes(term)),
+        )
+        .slice(0, MAX_LISTED_ENTITIES);
+    },
+  }),
+  query_history: defineTool({
+    name: "query_history",
+    description: "Get how the state of an entity changed over the last hours.",
+    parameters: z.object({
+      entity_id: z.string().regex(ENTITY_ID_PATTERN).describe("The entity ID"),
+      hours: z.number().min(1).max(168).default(24).describe("How many hours back to look"),
+    }),
+    async execute({ entity_id, hours }, env) {
+      const end = new Date();
+      const { data } = await new RecorderHistory(env).history({
+        entityIds: [entity_id],
+        start: new Date(end.getTime() - hours * 60 * 60 * 1000),
+        end,
+        minimalResponse: true,
+        significantChangesOnly: true,
+        noAttributes: true,
+      });
+      return (data[0] ?? [])
+        .slice(-MAX_HISTORY_ENTRIES)
+        .map((entry) => ({ state: entry.state, last_changed: entry.last_changed }));
+    },
+  }),
+  fire_event: defineTool({
+    name: "fire_event",
+    description: "Fire an event on the Home Assistant event bus. Only event types allowed by the configuration can be fired.",
+    parameters: z.object({
+      event_type: z.string().regex(EVENT_TYPE_PATTERN).describe("The event type"),
+      event_data: z.record(z.unknown()).optional().describe("The event data"),
+    }),
+    async execute({ event_type, event_data }, env) {
+      if (!isAllowedEventType(event_type, env)) {
+        throw new Error(`The event type ${event_type} is not allowed; allowed event types: ${env.AGENT_EVENT_TYPES ?? "agent_*"}`);
+      }
+      return expectOk(await new HomeAssistantClient(env).fireEvent(event_type, event_data ?? {}));
+    },
+  }),
+  list_scenes: defineTool({
+    name: "list_scenes",
+    description: "List the saved scenes (snapshots of entity states) with their room and entities.",
+    parameters: z.object({}),
+    async execute(_args, env) {
+      const scenes = await new SceneStore(env).list();
+      return scenes.map((scene) => ({
+        name: scene.name,
+        room: scene.room,
+        captured_at: scene.capturedAt,
+        entities: scene.states.map((state) => state.entity_id),
+      }));
+    },
+  }),
+  capture_scene: defineTool({
+    name: "capture_scene",
+    description:
+      "Save the current states of a room's entities, or of listed entities, as a named scene to restore later, " +
+      "e.g. movie night. Saving under an existing name replaces that scene.",
+    parameters: z.object({
+      name: z.string().describe("The scene name"),
+      room: z.string().optional().describe("Capture every entity in this room"),
+      entity_ids: z.array(z.string().regex(ENTITY_ID_PATTERN)).optional().describe("Capture these entities"),
+    }),
+    async execute({ name, room, entity_ids }, env) {
+      if (!room && !entity_ids?.length) {
+        throw new Error("Pass a room or entity_ids");
+      }
+      const { scene, missing } = await new SceneStore(env).capture({ name, room, entityIds: entity_ids });
+      if (!scene) {
+        throw new Error(room && !entity_ids?.length ? `No entities found in ${room}` : "None of the entities exist");
+      }
+      return { name: scene.name, entities: scene.states.map((state) => state.entity_id), missing };
+    },
+  }),
+  apply_scene: defineTool({
+    name: "apply_scene",
+    description: "Restore a saved scene, changing only the entities that differ from it.",
+    parameters: z.object({
+      name: z.string().describe("The scene name"),
+      transition: z.number().min(0).max(300).optional().describe("Seconds over which lights fade"),
+    }),
+    async execute({ name, transition }, env) {
+      const scenes = new SceneStore(env);
+      const scene = await scenes.get(name);
+      if (!scene) {
+        throw new Error(`No scene named ${name}; call list_scenes`);
+      }
+      return summarizeRestore(await scenes.apply(scene.states, { transition, source: "agent" }));
+    },
+  }),
+  restore_states: defineTool({
+    name: "restore_states",
+    description:
+      "Restore a room's entities, or listed entities, to how they were at a past time, e.g. this morning, " +
+      "using the recorded history.",
+    parameters: z.object({
+      at: z.string().describe("The local time to restore, as YYYY-MM-DDTHH:MM"),
+      room: z.string().optional().describe("Restore every entity in this room"),
+      entity_ids: z.array(z.string().regex(ENTITY_ID_PATTERN)).optional().describe("Restore these entities"),
+      transition: z.number().min(0).max(300).optional().describe("Seconds over which lights fade"),
+    }),
+    async execute({ at, room, entity_ids, transition }, env) {
+      if (!room && !entity_ids?.length) {
+        throw new Error("Pass a room or entity_ids");
+      }
+      const scenes = new SceneStore(env);
+      const { states, missing } = await scenes.snapshot({ room, entityIds: entity_ids, at: modelTime(at, env) });
+      return { ...summarizeRestore(await scenes.apply(states, { transition, source: "agent" })), missing };
+    },
+  }),
+} satisfies Record<string, AgentTool>;
+
+/** The name of an agent tool. */
+export type AgentToolName = keyof typeof AGENT_TOOLS;
+
+/** The names of all agent tools. */
+export const AGENT_TOOL_NAMES = Object.keys(AGENT_TOOLS) as [AgentToolName, ...AgentToolName[]];
+
+/**
+ * Converts the subset of zod used by tool schemas into JSON Schema.
+ * @param {z.ZodTypeAny} schema - The zod schema.
+ * @returns {Record<string, unknown>} The equivalent JSON Schema.
+ */
+export const toJsonSchema = (schema: z.ZodTypeAny): Record<string, unknown> => {
+  const description = schema.description ? { description: schema.description } : {};
+
+  if (schema instanceof z.ZodOptional || schema instanceof z.ZodNullable) {
+    return { ...toJsonSchema(schema.unwrap()), ...description };
+  }
+  if (schema instanceof z.ZodDefault) {
+    return { ...toJsonSchema(schema.removeDefault()), default: schema._def.defaultValue(), ...description };
+  }
+  if (schema instanceof z.ZodObject) {
+    const shape = schema.shape as Record<string, z.ZodTypeAny>;
+    const required = Object.keys(shape).filter((key) => !shape[key].isOptional());
+    return {
+      type: "object",
+      properties: Object.fromEntries(Object.entries(shape).map(([key, value]) => [key, toJsonSchema(value)])),
+      ...(required.length > 0 ? { required } : {}),
+      ...description,
+    };
+  }
+  if (schema instanceof z.ZodArray) {
+    return { type: "array", items: toJsonSchema(schema.element), ...description };
+  }
+  if (schema instanceof z.ZodUnion) {
+    return { anyOf: (schema.options as z.ZodTypeAny[]).map(toJsonSchema), ...description };
+  }
+  if (schema instanceof z.ZodEnum) {
+    return { type: "string", enum: schema.options, ...description };
+  }
+  if (schema instanceof z.ZodRecord) {
+    return { type: "object", additionalProperties: true, ...description };
+  }
+  if (schema instanceof z.ZodString) return { type: "string", ...description };
+  if (schema instanceof z.ZodNumber) return { type: "number", ...description };
+  if (schema instanceof z.ZodBoolean) return { type: "boolean", ...description };
+  return description;
+};
+
+/**
+ * Builds the tool definitions offered to the model.
+ * @param {AgentToolName[]} names - The enabled tools.
+ * @returns {Record<string, unknown>[]} The tool definitions in the Workers AI function-calling format.
+ */
+export const toolDefinitions = (names: AgentToolName[]): Record<string, unknown>[] =>
+  names.map((name) => {
+    const tool: AgentTool = AGENT_TOOLS[name];
+    return {
+      type: "function",
+      function: { name: tool.name, description: tool.description, parameters: toJsonSchema(tool.parameters) },
+    };
+  });
+
+/**
+ * Validates a tool call's arguments and executes it. Failures are returned rather than thrown so the model
+ * can read the error and correct itself.
+ * @param {AgentToolName[]} enabled - The tools enabled for this conversation.
+ * @param {string} name - The tool the model called.
+ * @param {unknown} args - The arguments the model passed.
+ * @param {Env} env - The Cloudflare Worker environment bindings.
+ * @returns {Promise<ToolCallResult>} The outcome of the call.
+ */
+export const runTool = async (enabled: AgentToolName[], name: string, args: unknown, env: Env): Promise<ToolCallResult> => {
+  if (!enabled.includes(name as AgentToolName)) {
+    return { name, arguments: args, ok: false, result: `Unknown tool: ${name}` };
+  }
+
+  const tool: AgentTool = AGENT_TOOLS[name as AgentToolName];
+  const parsed = tool.parameters.safeParse(args ?? {});
+  if (!parsed.success) {
+    return { name, arguments: args, ok: false, result: `Invalid arguments: ${parsed.error.message}` };
+  }
+
+  try {
+    return { name, arguments: parsed.data, ok: true, result: await tool.execute(parsed.data, env) };
+  } catch (error) {
+    return { name, arguments: parsed.data, ok: false, result: (error as Error).message };
+  }
+};
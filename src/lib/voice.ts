@@ -0,0 +1,141 @@
+/**
+ * @file This file contains the voice pipeline: speech-to-text with a Workers AI Whisper model, text-to-speech with
+ * a Workers AI TTS model, and playback of synthesized speech on Home Assistant media players.
+ */
+
+import type { Env } from "../types";
+import { ActionPolicy, CONFIRMATION_TTL_SECONDS, type GuardedCallResult } from "./actionPolicy";
+
+/** The Workers AI model that transcribes speech. */
+const TRANSCRIPTION_MODEL = "@cf/openai/whisper-large-v3-turbo";
+
+/** The Workers AI model that synthesizes speech; it returns base64-encoded MP3 audio. */
+const SPEECH_MODEL = "@cf/myshell-ai/melotts";
+
+/** The largest audio upload accepted for transcription. */
+export const MAX_AUDIO_BYTES = 10 * 1024 * 1024;
+
+/**
+ * How long synthesized audio stays fetchable by media players. Playback held for confirmation can start at the end
+ * of the confirmation window, so the audio outlives it.
+ */
+const AUDIO_TTL_SECONDS = CONFIRMATION_TTL_SECONDS + 5 * 60;
+
+/** The KV key prefix of synthesized audio published for media players. */
+const AUDIO_KEY_PREFIX = "tts-audio:";
+
+/** Matches the random UUIDs that identify published audio. */
+const AUDIO_ID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/;
+
+/**
+ * Synthesized speech.
+ */
+export interface SynthesizedSpeech {
+  /** The base64-encoded audio. */
+  audio: string;
+  contentType: "audio/mpeg";
+}
+
+/**
+ * The outcome of playing synthesized speech on a media player.
+ */
+export interface SpokenAnnouncement extends SynthesizedSpeech {
+  /** The URL the media player fetches the audio from. */
+  url: string;
+  /** The outcome of `media_player.play_media` under the action policy. */
+  mediaPlayer: GuardedCallResult;
+}
+
+/**
+ * Encodes bytes as base64 in chunks, since spreading a large array into `String.fromCharCode` overflows the stack.
+ * @param {Uint8Array} bytes - The bytes.
+ * @returns {string} The base64 text.
+ */
+const toBase64 = (bytes: Uint8Array): string => {
+  let binary = "";
+  for (let offset = 0; offset < bytes.length; offset += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(offset, offset + 0x8000));
+  }
+  return btoa(binary);
+};
+
+/**
+ * Decodes base64 text into bytes.
+ * @param {string} base64 - The base64 text.
+ * @returns {Uint8Array} The bytes.
+ */
+const fromBase64 = (base64: string): Uint8Array => Uint8Array.from(atob(base64), (char) => char.charCodeAt(0));
+
+/**
+ * Converts between speech and text for the agent's voice endpoints.
+ */
+export class VoicePipeline {
+  /**
+   * Initializes a new instance of the VoicePipeline.
+   * @param {Env} env - The Cloudflare Worker environment bindings.
+   */
+  constructor(private readonly env: Env) {}
+
+  /**
+   * Transcribes recorded speech.
+   * @param {ArrayBuffer} audio - The recording, in any format Whisper accepts (e.g. WAV, MP3, WebM).
+   * @param {string} [language] - The spoken language as an ISO 639-1 code; detected when omitted.
+   * @returns {Promise<string>} The transcript, or an empty string when nothing was said.
+   */
+  async transcribe(audio: ArrayBuffer, language?: string): Promise<string> {
+    const output = (await this.env.AI.run(TRANSCRIPTION_MODEL, {
+      audio: toBase64(new Uint8Array(audio)),
+      ...(language ? { language } : {}),
+    })) as { text?: string };
+    return output.text?.trim() ?? "";
+  }
+
+  /**
+   * Synthesizes speech.
+   * @param {string} text - The text to speak.
+   * @param {string} [language="en"] - The language as an ISO 639-1 code.
+   * @returns {Promise<SynthesizedSpeech>} The MP3 audio.
+   */
+  async synthesize(text: string, language = "en"): Promise<SynthesizedSpeech> {
+    const output = (await this.env.AI.run(SPEECH_MODEL, { prompt: text, lang: language })) as { audio: string };
+    return { audio: output.audio, contentType: "audio/mpeg" };
+  }
+
+  /**
+   * Synthesizes speech and plays it on media players. The audio is published under an unguessable URL for a few
+   * minutes, because media players fetch it themselves and cannot send the worker's API key. Playback goes through
+   * the action policy like other automated service calls.
+   * @param {string | string[]} entityId - The `media_player` entities.
+   * @param {string} text - The text to speak.
+   * @param {{ baseUrl: string; language?: string }} options - The worker's public origin and the language.
+   * @returns {Promise<SpokenAnnouncement>} The audio and the outcome of the playback call.
+   */
+  async speak(entityId: string | string[], text: string, options: { baseUrl: string; language?: string }): Promise<SpokenAnnouncement> {
+    const speech = await this.synthesize(text, options.language);
+    const audioId = crypto.randomUUID();
+    await this.env.MEMORY_KV.put(`${AUDIO_KEY_PREFIX}${audioId}`, fromBase64(speech.audio), {
+      expirationTtl: AUDIO_TTL_SECONDS,
+    });
+
+    const url = `${options.baseUrl}/api/tts/audio/${audioId}.mp3`;
+    const outcome = await new ActionPolicy(this.env).execute(
+      {
+        domain: "media_player",
+        service: "play_media",
+        data: { entity_id: entityId, media_content_id: url, media_content_type: "music" },
+      },
+      "voice",
+    );
+    return { ...speech, url, mediaPlayer: outcome };
+  }
+
+  /**
+   * Reads published audio.
+   * @param {string} audioId - The ID from the published URL.
+   * @returns {Promise<ArrayBuffer | null>} The MP3 audio, or null if the ID is not a UUID or the audio has expired.
+   */
+  async published(audioId: string): Promise<ArrayBuffer | null> {
+    if (!AUDIO_ID_PATTERN.test(audioId)) return null;
+    return this.env.MEMORY_KV.get(`${AUDIO_KEY_PREFIX}${audioId}`, { type: "arrayBuffer" });
+  }
+}
@@ -21,10 +21,24 @@ export interface Env {
   AI: Ai;
   /** The Fetcher binding for serving static assets (e.g., a frontend application). */
   ASSETS: Fetcher;
-  /** The cron schedule string that triggers the worker's scheduled tasks (e.g., "0 12 * * *"). */
+  /** The cron trigger that ticks the worker's scheduler (e.g., "*\/5 * * * *"); jobs are scheduled in `cron_jobs`. */
   CRON_SCHEDULE: string;
   /** The base system prompt that provides instructions to the AI agent. */
   AGENT_SYSTEM_PROMPT: string;
+  /** The Workers AI model used by the agent and other text generation; it must support function calling. */
+  CHAT_MODEL: string;
+  /** A comma-separated list of chat models tried in order when `CHAT_MODEL` fails or times out. */
+  CHAT_MODEL_FALLBACKS?: string;
+  /** The Workers AI model used to analyze camera images. */
+  VISION_MODEL: string;
+  /** A comma-separated list of vision models tried in order when `VISION_MODEL` fails or times out. */
+  VISION_MODEL_FALLBACKS?: string;
+  /** A comma-separated list of Home Assistant event types to mirror into the recorder replica (default "state_changed"). */
+  RECORDER_EVENT_TYPES?: string;
+  /** A comma-separated list of event types, or prefixes ending in `*`, the agent may fire (default "agent_*"). */
+  AGENT_EVENT_TYPES?: string;
+  /** The IANA time zone of the home (e.g., "Europe/Berlin"), used for time-of-day rules (default "UTC"). */
+  TIME_ZONE?: string;
 }
 
 /**
@@ -39,3 +53,78 @@ export interface Ai {
    */
   run(model: string, input: Record<string, unknown>): Promise<unknown>;
 }
+
+/**
+ * The context attached to every Home Assistant event and state, used to trace what caused a change.
+ */
+export interface HomeAssistantContext {
+  /** The unique identifier of the context. */
+  id: string;
+  /** The identifier of the context that caused this one, if any. */
+  parent_id: string | null;
+  /** The identifier of the Home Assistant user that caused the change, if any. */
+  user_id: string | null;
+}
+
+/**
+ * A Home Assistant state object as delivered by the REST API and `state_changed` events.
+ */
+export interface HomeAssistantState {
+  /** The entity ID (e.g., "light.kitchen_ceiling"). */
+  entity_id: string;
+  /** The raw state value (e.g., "on", "21.5"). */
+  state: string;
+  /** The entity attributes (e.g., `friendly_name`, `unit_of_measurement`). */
+  attributes: Record<string, unknown>;
+  /** The ISO 8601 timestamp of the last state value change. */
+  last_changed: string;
+  /** The ISO 8601 timestamp of the last state or attribute change. */
+  last_updated: string;
+  /** The context that produced this state. */
+  context?: HomeAssistantContext;
+}
+
+/**
+ * An event fired on the Home Assistant event bus, as delivered over the WebSocket API.
+ * @template T The shape of the event data.
+ */
+export interface HomeAssistantEvent<T = Record<string, unknown>> {
+  /** The event type (e.g., "state_changed"). */
+  event_type: string;
+  /** The event payload. */
+  data: T;
+  /** Where the event originated ("LOCAL" or "REMOTE"). */
+  origin: string;
+  /** The ISO 8601 timestamp of when the event was fired. */
+  time_fired: string;
+  /** The context that produced this event. */
+  context?: HomeAssistantContext;
+}
+
+/**
+ * The data payload of a `state_changed` event.
+ */
+export interface StateChangedData {
+  /** The entity whose state changed. */
+  entity_id: string;
+  /** The previous state, or null if the entity was just added. */
+  old_state: HomeAssistantState | null;
+  /** The new state, or null if the entity was removed. */
+  new_state: HomeAssistantState | null;
+}
+
+/**
+ * The result of Home Assistant's `/api/conversation/process` endpoint.
+ */
+export interface HomeAssistantConversationResult {
+  /** The ID to pass with the next prompt to continue the conversation. */
+  conversation_id: string | null;
+  response: {
+    /** `error` when no intent matched or the intent could not be handled. */
+    response_type: "action_done" | "query_answer" | "error";
+    language: string;
+    speech: { plain?: { speech: string; extra_data: unknown } };
+    /** The targets of the intent, or an error `code` such as `no_intent_match`. */
+    data: { code?: string; targets?: unknown[]; success?: unknown[]; failed?: unknown[] };
+  };
+}
@@ -2,10 +2,15 @@
 
 interface Env {
 	MEMORY_KV: KVNamespace;
-	CRON_SCHEDULE: "0 12 * * *";
+	CRON_SCHEDULE: "*/5 * * * *";
 	AGENT_SYSTEM_PROMPT: "You are an assistant that helps orchestrate a smart home by coordinating Cloudflare Worker resources with Home Assistant.";
 	VISION_MODEL: "@cf/unum/uform-gen2-qwen-500m";
+	VISION_MODEL_FALLBACKS: "@cf/llava-hf/llava-1.5-7b-hf";
 	CHAT_MODEL: "@cf/meta/llama-3-8b-instruct";
+	CHAT_MODEL_FALLBACKS: "@hf/nousresearch/hermes-2-pro-mistral-7b";
+	RECORDER_EVENT_TYPES: "state_changed";
+	AGENT_EVENT_TYPES: "agent_*";
+	TIME_ZONE: "UTC";
 	HA_WEBSOCKET_DO: DurableObjectNamespace<import("./src/index").HAWebsocketDurableObject>;
 	RECORDER_DB: D1Database;
 	CONFIG_DB: D1Database;